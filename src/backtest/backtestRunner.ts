@@ -0,0 +1,295 @@
+import * as fs from "fs";
+import * as path from "path";
+import dayjs from "dayjs";
+import { ConfigLoader } from "../config/configLoader";
+import { ExchangeManager } from "../exchange/exchangeManager";
+import { PaperExchange } from "../exchange/paper/paperExchange";
+import { BotEngine } from "../logic/botEngine";
+import { clock, SimulatedClock, waitForIdle } from "../utils/clock";
+import { EquityChartRenderer } from "../utils/equityChart";
+import { logger } from "../utils/logger";
+import { BacktestDataFormat, loadPriceTicks } from "./dataLoader";
+
+export interface BacktestOptions {
+  dataFile: string; // OHLCV 或逐笔成交 CSV
+  format?: BacktestDataFormat; // 不指定时自动识别
+  symbol?: string; // 回测的交易对 (默认取第一个策略的交易对)
+  configPath: string;
+  outputDir: string;
+  fillModel?: "touch" | "through";
+}
+
+export interface BacktestSideReport {
+  side: string;
+  contracts: number;
+  entryPrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface BacktestReport {
+  symbol: string;
+  start: string;
+  end: string;
+  ticks: number;
+  fills: number;
+  openFills: number;
+  closeFills: number;
+  roundTrips: number;
+  fees: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  netPnl: number;
+  startEquity: number;
+  endEquity: number;
+  returnPct: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  sides: BacktestSideReport[];
+}
+
+// 权益曲线图最多绘制的点数
+const MAX_CHART_POINTS = 2000;
+
+/**
+ * 回测引擎
+ * 使用纸面交易所 (manual 价格源) 与模拟时钟，把历史价格逐点推送给真实的 BotEngine，
+ * 复用 GridContext 刻度计算与锚点/刷新逻辑
+ */
+export class BacktestRunner {
+  private options: BacktestOptions;
+  // 交易所 API 调用计数，用于判断引擎是否已处理完当前价格
+  private callCount: number = 0;
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+  }
+
+  public async run(): Promise<BacktestReport> {
+    const { format, ticks } = loadPriceTicks(
+      this.options.dataFile,
+      this.options.format
+    );
+    if (ticks.length === 0) {
+      throw new Error("回测数据为空");
+    }
+
+    // 1. 加载配置并切换到纸面交易 (外部驱动价格)
+    const config = ConfigLoader.getInstance().loadConfig(
+      this.options.configPath
+    );
+    const enabled = config.strategies.filter(s => s.enable !== false);
+    const symbol = this.options.symbol || enabled[0]?.symbol;
+    config.strategies = enabled.filter(s => s.symbol === symbol);
+    if (config.strategies.length === 0) {
+      throw new Error(`配置中没有交易对 ${symbol} 的策略`);
+    }
+    config.mode = "paper";
+    config.paper = {
+      ...config.paper,
+      feed: "manual",
+      fill_model: this.options.fillModel || config.paper?.fill_model,
+      start_prices: { [symbol]: ticks[0].price },
+    };
+
+    logger.info(
+      `[Backtest] 数据: ${this.options.dataFile} (${format}, ${ticks.length} 个价格点) | 交易对: ${symbol} | 策略数: ${config.strategies.length}`
+    );
+
+    // 2. 模拟时钟与纸面交易所
+    const simClock = new SimulatedClock(ticks[0].timestamp);
+    clock.use(simClock);
+    const exchange = ExchangeManager.getInstance();
+    const paper = exchange.client as PaperExchange;
+    exchange.client = this.countCalls(paper);
+
+    // 3. 启动真实引擎 (网格文件写入回测目录，避免覆盖实盘状态)
+    // 每次回测从空状态开始，不恢复上次回测的锚点与持仓记录
+    const stateDir = path.join(this.options.outputDir, "state");
+    fs.rmSync(stateDir, { recursive: true, force: true });
+    fs.mkdirSync(stateDir, { recursive: true });
+    const engine = new BotEngine({ stateDir });
+    await engine.start();
+    await this.settle();
+
+    // 4. 逐点推送价格
+    const equityTimes: number[] = [];
+    const equityValues: number[] = [];
+    const startEquity = (await paper.fetchBalance()).total.USDT;
+    let peak = startEquity;
+    let maxDrawdown = 0;
+    let maxDrawdownPct = 0;
+
+    for (const tick of ticks) {
+      simClock.advanceTo(tick.timestamp);
+      paper.pushPrice(symbol, tick.price);
+      await this.settle();
+
+      const equity = (await paper.fetchBalance()).total.USDT;
+      equityTimes.push(tick.timestamp);
+      equityValues.push(equity);
+      peak = Math.max(peak, equity);
+      if (peak - equity > maxDrawdown) {
+        maxDrawdown = peak - equity;
+        maxDrawdownPct = (maxDrawdown / peak) * 100;
+      }
+    }
+
+    // 5. 汇总结果
+    const trades = await paper.fetchMyTrades(symbol);
+    const positions = await paper.fetchPositions([symbol]);
+    const endEquity = equityValues[equityValues.length - 1];
+    const fees = trades.reduce((sum, t) => sum + t.fee.cost, 0);
+    const closeFills = trades.filter(t => t.info.tradeSide === "close").length;
+    const realizedPnl = positions.reduce((sum, p) => sum + p.realizedPnl, 0);
+    const unrealizedPnl = positions.reduce(
+      (sum, p) => sum + (p.contracts > 0 ? p.unrealizedPnl : 0),
+      0
+    );
+
+    const report: BacktestReport = {
+      symbol,
+      start: dayjs(ticks[0].timestamp).format("YYYY-MM-DD HH:mm:ss"),
+      end: dayjs(ticks[ticks.length - 1].timestamp).format(
+        "YYYY-MM-DD HH:mm:ss"
+      ),
+      ticks: ticks.length,
+      fills: trades.length,
+      openFills: trades.length - closeFills,
+      closeFills,
+      roundTrips: closeFills,
+      fees,
+      realizedPnl,
+      unrealizedPnl,
+      netPnl: realizedPnl + unrealizedPnl - fees,
+      startEquity,
+      endEquity,
+      returnPct: ((endEquity - startEquity) / startEquity) * 100,
+      maxDrawdown,
+      maxDrawdownPct,
+      sides: positions.map(p => ({
+        side: p.side,
+        contracts: p.contracts,
+        entryPrice: p.entryPrice,
+        realizedPnl: p.realizedPnl,
+        unrealizedPnl: p.contracts > 0 ? p.unrealizedPnl : 0,
+      })),
+    };
+
+    await engine.stop();
+    await this.writeOutputs(report, trades, equityTimes, equityValues);
+    this.printReport(report);
+    return report;
+  }
+
+  /**
+   * 包装交易所客户端，统计 API 调用次数
+   */
+  private countCalls(paper: PaperExchange): PaperExchange {
+    return new Proxy(paper, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof value !== "function") return value;
+        return (...args: any[]) => {
+          this.callCount++;
+          return value.apply(target, args);
+        };
+      },
+    });
+  }
+
+  /**
+   * 等待引擎处理完当前价格
+   */
+  private async settle(): Promise<void> {
+    await waitForIdle(() => this.callCount);
+  }
+
+  private async writeOutputs(
+    report: BacktestReport,
+    trades: any[],
+    equityTimes: number[],
+    equityValues: number[]
+  ): Promise<void> {
+    const outputDir = this.options.outputDir;
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    fs.writeFileSync(
+      path.join(outputDir, "report.json"),
+      JSON.stringify(report, null, 2),
+      "utf8"
+    );
+
+    const fillRows = trades.map(
+      t =>
+        `${dayjs(t.timestamp).format("YYYY-MM-DD HH:mm:ss")},${t.side},${
+          t.info.positionSide
+        },${t.info.tradeSide},${t.price},${t.amount},${t.fee.cost}`
+    );
+    fs.writeFileSync(
+      path.join(outputDir, "fills.csv"),
+      ["Time,Side,PositionSide,Action,Price,Amount,Fee", ...fillRows].join(
+        "\n"
+      ),
+      "utf8"
+    );
+
+    const equityRows = equityTimes.map(
+      (t, i) =>
+        `${dayjs(t).format("YYYY-MM-DD HH:mm:ss")},${equityValues[i]}`
+    );
+    fs.writeFileSync(
+      path.join(outputDir, "equity.csv"),
+      ["Time,Equity", ...equityRows].join("\n"),
+      "utf8"
+    );
+
+    // 权益曲线 (抽样以控制点数)
+    const step = Math.max(1, Math.ceil(equityValues.length / MAX_CHART_POINTS));
+    const labels: string[] = [];
+    const points: number[] = [];
+    for (let i = 0; i < equityValues.length; i += step) {
+      labels.push(dayjs(equityTimes[i]).format("MM-DD HH:mm"));
+      points.push(equityValues[i]);
+    }
+    try {
+      await new EquityChartRenderer().render(
+        labels,
+        points,
+        path.join(outputDir, "equity.png"),
+        `Backtest Equity (${report.symbol})`
+      );
+    } catch (e: any) {
+      logger.warn(`[Backtest] 权益曲线绘制失败: ${e.message}`);
+    }
+  }
+
+  private printReport(report: BacktestReport): void {
+    const f = (n: number) => n.toFixed(4);
+    logger.info("========== 回测报告 ==========");
+    logger.info(`区间: ${report.start} -> ${report.end} (${report.ticks} 个价格点)`);
+    logger.info(
+      `成交: ${report.fills} 笔 (开仓 ${report.openFills} / 平仓 ${report.closeFills}) | 完整网格回合: ${report.roundTrips}`
+    );
+    logger.info(
+      `已实现盈亏: ${f(report.realizedPnl)} | 未实现盈亏: ${f(
+        report.unrealizedPnl
+      )} | 手续费: ${f(report.fees)} | 净盈亏: ${f(report.netPnl)}`
+    );
+    logger.info(
+      `权益: ${f(report.startEquity)} -> ${f(report.endEquity)} (${report.returnPct.toFixed(
+        2
+      )}%) | 最大回撤: ${f(report.maxDrawdown)} (${report.maxDrawdownPct.toFixed(
+        2
+      )}%)`
+    );
+    for (const side of report.sides) {
+      logger.info(
+        `[${side.side}] 持仓: ${side.contracts} @ ${f(side.entryPrice)} | 已实现: ${f(
+          side.realizedPnl
+        )} | 未实现: ${f(side.unrealizedPnl)}`
+      );
+    }
+    logger.info(`报告已输出至: ${this.options.outputDir}`);
+  }
+}
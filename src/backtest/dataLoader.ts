@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export type BacktestDataFormat = "ohlcv" | "trades";
+
+/**
+ * 回测价格事件
+ */
+export interface PriceTick {
+  timestamp: number; // 毫秒时间戳
+  price: number;
+}
+
+// 无法推断 K 线周期时的默认间隔 (1 分钟)
+const DEFAULT_CANDLE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 解析时间戳：支持秒/毫秒数字与 ISO 字符串
+ */
+function parseTimestamp(raw: string): number {
+  const num = Number(raw);
+  if (!isNaN(num)) {
+    return num < 1e12 ? num * 1000 : num;
+  }
+  const parsed = Date.parse(raw);
+  if (isNaN(parsed)) {
+    throw new Error(`无法解析时间戳: ${raw}`);
+  }
+  return parsed;
+}
+
+/**
+ * 加载回测数据并展开为价格事件序列
+ * - OHLCV: 表头需包含 timestamp,open,high,low,close，每根 K 线展开为 4 个价格点
+ *   (阳线按 O-L-H-C，阴线按 O-H-L-C 的顺序，保守模拟盘中路径)
+ * - 逐笔成交: 表头需包含 timestamp,price
+ * @param format 不指定时根据表头自动识别
+ */
+export function loadPriceTicks(
+  filePath: string,
+  format?: BacktestDataFormat
+): { format: BacktestDataFormat; ticks: PriceTick[] } {
+  const fullPath = path.resolve(process.cwd(), filePath);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`回测数据文件不存在: ${fullPath}`);
+  }
+
+  const lines = fs
+    .readFileSync(fullPath, "utf8")
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line !== "" && !line.startsWith("#"));
+  if (lines.length < 2) {
+    throw new Error(`回测数据文件为空: ${fullPath}`);
+  }
+
+  const header = lines[0].toLowerCase().split(",");
+  const col = (name: string) => header.indexOf(name);
+  const timeCol = col("timestamp") !== -1 ? col("timestamp") : col("time");
+  if (timeCol === -1) {
+    throw new Error(`回测数据文件缺少 timestamp 列: ${fullPath}`);
+  }
+
+  const detected: BacktestDataFormat =
+    format || (col("open") !== -1 ? "ohlcv" : "trades");
+  const rows = lines.slice(1).map(line => line.split(","));
+  const ticks: PriceTick[] = [];
+
+  if (detected === "trades") {
+    const priceCol = col("price");
+    if (priceCol === -1) {
+      throw new Error(`逐笔成交数据缺少 price 列: ${fullPath}`);
+    }
+    for (const row of rows) {
+      ticks.push({
+        timestamp: parseTimestamp(row[timeCol]),
+        price: parseFloat(row[priceCol]),
+      });
+    }
+  } else {
+    const [o, h, l, c] = ["open", "high", "low", "close"].map(col);
+    if ([o, h, l, c].includes(-1)) {
+      throw new Error(`OHLCV 数据缺少 open/high/low/close 列: ${fullPath}`);
+    }
+    const times = rows.map(row => parseTimestamp(row[timeCol]));
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const open = parseFloat(row[o]);
+      const high = parseFloat(row[h]);
+      const low = parseFloat(row[l]);
+      const close = parseFloat(row[c]);
+      const interval =
+        i + 1 < times.length
+          ? times[i + 1] - times[i]
+          : i > 0
+          ? times[i] - times[i - 1]
+          : DEFAULT_CANDLE_INTERVAL_MS;
+      const route =
+        close >= open ? [open, low, high, close] : [open, high, low, close];
+      route.forEach((price, step) => {
+        ticks.push({
+          timestamp: times[i] + Math.floor((interval * step) / route.length),
+          price,
+        });
+      });
+    }
+  }
+
+  return {
+    format: detected,
+    ticks: ticks.filter(t => !isNaN(t.price)),
+  };
+}
@@ -0,0 +1,58 @@
+import * as path from "path";
+import dayjs from "dayjs";
+import { logger } from "../utils/logger";
+import { BacktestOptions, BacktestRunner } from "./backtestRunner";
+
+/**
+ * 回测命令入口
+ * 用法: npm run backtest -- --data data/sol_1m.csv [--symbol SOL/USDT:USDT]
+ *       [--format ohlcv|trades] [--config config.toml] [--out output/backtest]
+ *       [--fill-model touch|through]
+ */
+function parseArgs(argv: string[]): BacktestOptions {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+
+  if (!args.data) {
+    throw new Error("缺少参数 --data <CSV 文件>");
+  }
+  if (args.format && !["ohlcv", "trades"].includes(args.format)) {
+    throw new Error(`--format 仅支持 ohlcv / trades: ${args.format}`);
+  }
+  if (args["fill-model"] && !["touch", "through"].includes(args["fill-model"])) {
+    throw new Error(`--fill-model 仅支持 touch / through: ${args["fill-model"]}`);
+  }
+
+  return {
+    dataFile: args.data,
+    format: args.format as BacktestOptions["format"],
+    symbol: args.symbol,
+    configPath: args.config || "config.toml",
+    outputDir:
+      args.out ||
+      path.join(
+        process.cwd(),
+        "output",
+        `backtest_${dayjs().format("YYYYMMDD_HHmmss")}`
+      ),
+    fillModel: args["fill-model"] as BacktestOptions["fillModel"],
+  };
+}
+
+async function main() {
+  try {
+    const runner = new BacktestRunner(parseArgs(process.argv.slice(2)));
+    await runner.run();
+    process.exit(0);
+  } catch (error: any) {
+    logger.error("回测执行失败:", error);
+    process.exit(1);
+  }
+}
+
+main();
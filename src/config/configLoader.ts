@@ -4,13 +4,17 @@ import toml from "@iarna/toml";
 import dotenv from "dotenv";
 import { AppConfig } from "../types/config";
 import { logger } from "../utils/logger";
+import { createExchangeAdapter } from "../exchange/adapters";
+import { ConfigValidationError, validateConfig } from "./configValidator";
 
 export class ConfigLoader {
   private static instance: ConfigLoader;
   private config: AppConfig | null = null;
+  // 已加载的配置文件路径 (用于校验错误提示)
+  private configPath: string = "config.toml";
 
   private constructor() {
-    dotenv.config(); // Load .env
+    dotenv.config({ quiet: true }); // Load .env (不在标准输出打印提示)
   }
 
   public static getInstance(): ConfigLoader {
@@ -25,18 +29,8 @@ export class ConfigLoader {
       return this.config;
     }
 
-    const fullPath = path.resolve(process.cwd(), configPath);
-    if (!fs.existsSync(fullPath)) {
-      throw new Error(`Configuration file not found at: ${fullPath}`);
-    }
-
     try {
-      const tomlContent = fs.readFileSync(fullPath, "utf-8");
-      const parsedConfig = toml.parse(tomlContent) as unknown as AppConfig;
-
-      // Validate and Inject API Keys based on mode
-      this.config = this.injectApiKeys(parsedConfig);
-
+      this.config = this.readConfig(configPath);
       logger.info(
         `Configuration loaded successfully. Mode: ${this.config.mode}`
       );
@@ -47,26 +41,69 @@ export class ConfigLoader {
     }
   }
 
+  /**
+   * 读取并校验配置文件 (不缓存，热更新时由调用方确认生效后再 useConfig)
+   */
+  public readConfig(configPath: string = this.configPath): AppConfig {
+    const fullPath = path.resolve(process.cwd(), configPath);
+    this.configPath = fullPath;
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`Configuration file not found at: ${fullPath}`);
+    }
+
+    const tomlContent = fs.readFileSync(fullPath, "utf-8");
+    let parsed: unknown;
+    try {
+      parsed = toml.parse(tomlContent);
+    } catch (e: any) {
+      const line = typeof e.line === "number" ? `第 ${e.line + 1} 行` : "TOML";
+      throw new ConfigValidationError(fullPath, [
+        { path: line, message: `TOML 语法错误: ${e.message.trim()}` },
+      ]);
+    }
+
+    // 校验全部字段后再使用，一次报告所有问题
+    const issues = validateConfig(parsed);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(fullPath, issues);
+    }
+
+    // Inject API Keys based on mode
+    return this.injectApiKeys(parsed as AppConfig);
+  }
+
+  /**
+   * 根据交易模式从环境变量注入 API Key
+   * 环境变量命名规则: {交易所名大写}_{REAL|SIM}_{API_KEY|SECRET|PASSWORD}
+   * 例如 BITGET_REAL_API_KEY, BINANCEUSDM_SIM_SECRET
+   */
   private injectApiKeys(config: AppConfig): AppConfig {
+    // 纸面交易在本地撮合，不需要 API Key
+    if (config.mode === "paper") return config;
+
     const isReal = config.mode === "real";
 
     config.exchanges = config.exchanges.map(exchange => {
-      if (exchange.name === "bitget") {
-        if (isReal) {
-          exchange.apiKey = process.env.BITGET_REAL_API_KEY;
-          exchange.secret = process.env.BITGET_REAL_SECRET;
-          exchange.password = process.env.BITGET_REAL_PASSWORD;
-        } else {
-          exchange.apiKey = process.env.BITGET_SIM_API_KEY;
-          exchange.secret = process.env.BITGET_SIM_SECRET;
-          exchange.password = process.env.BITGET_SIM_PASSWORD;
-        }
-
-        if (!exchange.apiKey || !exchange.secret || !exchange.password) {
-          logger.warn(
-            `Missing API credentials for ${exchange.name} in ${config.mode} mode.`
-          );
-        }
+      const adapter = createExchangeAdapter(exchange.name);
+      const prefix = `${exchange.name.toUpperCase()}_${
+        isReal ? "REAL" : "SIM"
+      }`;
+
+      exchange.apiKey = process.env[`${prefix}_API_KEY`];
+      exchange.secret = process.env[`${prefix}_SECRET`];
+      if (adapter.requiresPassword) {
+        exchange.password = process.env[`${prefix}_PASSWORD`];
+      }
+
+      if (
+        exchange.enable &&
+        (!exchange.apiKey ||
+          !exchange.secret ||
+          (adapter.requiresPassword && !exchange.password))
+      ) {
+        logger.warn(
+          `Missing API credentials for ${exchange.name} in ${config.mode} mode.`
+        );
       }
       return exchange;
     });
@@ -74,6 +111,17 @@ export class ConfigLoader {
     return config;
   }
 
+  /**
+   * 直接注入已解析的配置 (用于会话回放，使用日志中记录的配置；热更新生效后替换当前配置)
+   */
+  public useConfig(config: AppConfig): void {
+    this.config = config;
+  }
+
+  public getConfigPath(): string {
+    return this.configPath;
+  }
+
   public getConfig(): AppConfig {
     if (!this.config) {
       throw new Error("Config not loaded. Call loadConfig() first.");
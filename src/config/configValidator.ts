@@ -0,0 +1,692 @@
+import { getSupportedExchanges } from "../exchange/adapters";
+import { GridDirection, GridType, QuantityMode } from "../types/grid";
+import { timeframeToMs } from "../logic/volatilityEstimator";
+import { getStrategyId } from "./strategyConfig";
+
+/**
+ * 配置问题：path 为字段在配置文件中的位置，例如 strategies[0].lowerPrice
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * 配置校验失败，message 中逐条列出所有问题
+ */
+export class ConfigValidationError extends Error {
+  public readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(
+      [
+        `配置校验失败: ${source} (${issues.length} 个问题)`,
+        ...issues.map(i => `  - ${source} [${i.path}] ${i.message}`),
+      ].join("\n")
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * 字段规则
+ */
+interface FieldRule {
+  type:
+    | "string"
+    | "number"
+    | "integer"
+    | "boolean"
+    | "table" // 任意内容的表 (例如交易所 options)
+    | "numberArray"
+    | "numberRecord" // 交易对 -> 数值
+    | "stringRecord"; // 交易对 -> 字符串
+  required?: boolean;
+  values?: readonly string[]; // 枚举值
+  min?: number; // 最小值 (含)
+  positive?: boolean; // 必须大于 0
+}
+
+type Schema = Record<string, FieldRule>;
+
+const LOGGER_SCHEMA: Schema = {
+  level: { type: "string", values: ["info", "warn", "error"] },
+  console: { type: "boolean" },
+  file: { type: "boolean" },
+  dir: { type: "string" },
+};
+
+const MONITOR_SCHEMA: Schema = {
+  interval_seconds: { type: "number", positive: true },
+};
+
+const PAPER_SCHEMA: Schema = {
+  initial_balance: { type: "number", positive: true },
+  maker_fee: { type: "number" },
+  taker_fee: { type: "number" },
+  tick_size: { type: "number", positive: true },
+  amount_step: { type: "number", positive: true },
+  feed: { type: "string", values: ["random_walk", "replay", "manual"] },
+  fill_model: { type: "string", values: ["touch", "through"] },
+  tick_interval_ms: { type: "number", positive: true },
+  volatility: { type: "number", min: 0 },
+  start_prices: { type: "numberRecord" },
+  replay_files: { type: "stringRecord" },
+};
+
+const RECORDER_SCHEMA: Schema = {
+  enable: { type: "boolean" },
+  dir: { type: "string" },
+};
+
+const CONTROL_SCHEMA: Schema = {
+  enable: { type: "boolean", required: true },
+  host: { type: "string" },
+  port: { type: "integer", required: true, min: 0 },
+};
+
+const RISK_SCHEMA: Schema = {
+  enable: { type: "boolean", required: true },
+  check_interval_seconds: { type: "number", positive: true },
+  max_drawdown_percent: { type: "number", positive: true },
+  max_daily_loss: { type: "number", positive: true },
+  max_margin_ratio: { type: "number", positive: true },
+  flatten: { type: "boolean" },
+};
+
+const MARGIN_MODES = ["cross", "isolated"] as const;
+
+const DEFAULT_SCHEMA: Schema = {
+  leverage: { type: "number", required: true, min: 1 },
+  margin_mode: { type: "string", values: MARGIN_MODES },
+  order_window: { type: "integer", required: true, min: 1 },
+  follow_market_on_fill: { type: "boolean", required: true },
+  cancel_all_on_stop: { type: "boolean", required: true },
+  close_all_on_stop: { type: "boolean", required: true },
+  auto_initial_position: { type: "boolean" },
+  initial_position_policy: {
+    type: "string",
+    values: ["auto", "reject", "approval"],
+  },
+  initial_position_max_value: { type: "number", min: 0 },
+  initial_position_entry: {
+    type: "string",
+    values: ["market", "limit", "twap"],
+  },
+  initial_position_slices: { type: "integer", min: 1 },
+  initial_position_interval_seconds: { type: "number", min: 0 },
+  initial_position_max_slippage: { type: "number", positive: true },
+  reconcile_interval_seconds: { type: "number", min: 0 },
+  anchor_reset_steps: { type: "number", positive: true },
+  max_total_notional: { type: "number", positive: true },
+  funding_check_interval_seconds: { type: "number", positive: true },
+  funding_shrink_rate: { type: "number", positive: true },
+  funding_shrink_window: { type: "integer", min: 0 },
+  funding_pause_rate: { type: "number", positive: true },
+  position_check_interval_seconds: { type: "number", positive: true },
+  liquidation_guard_distance: { type: "number", positive: true },
+  liquidation_guard_margin_ratio: { type: "number", positive: true },
+  liquidation_guard_open_window: { type: "integer", min: 0 },
+  liquidation_guard_add_margin: { type: "number", positive: true },
+};
+
+const EXCHANGE_SCHEMA: Schema = {
+  name: { type: "string", required: true },
+  enable: { type: "boolean", required: true },
+  options: { type: "table" },
+};
+
+const STRATEGY_SCHEMA: Schema = {
+  id: { type: "string" },
+  name: { type: "string" },
+  enable: { type: "boolean" },
+  symbol: { type: "string", required: true },
+  direction: {
+    type: "string",
+    required: true,
+    values: Object.values(GridDirection),
+  },
+  leverage: { type: "number", min: 1 },
+  marginMode: { type: "string", values: MARGIN_MODES },
+  upperPrice: { type: "number", required: true, positive: true },
+  lowerPrice: { type: "number", required: true, positive: true },
+  gridType: { type: "string", values: Object.values(GridType) },
+  gridSpread: { type: "number", positive: true },
+  priceStep: { type: "number", positive: true },
+  gridCount: { type: "integer", min: 1 },
+  quantityPerGrid: { type: "number", required: true, positive: true },
+  quantityMode: { type: "string", values: Object.values(QuantityMode) },
+  notionalPerGrid: { type: "number", positive: true },
+  pyramidStep: { type: "number", min: 0 },
+  pyramidRatio: { type: "number", positive: true },
+  quantityTable: { type: "numberArray" },
+  trailingUp: { type: "boolean" },
+  trailingDown: { type: "boolean" },
+  trailingUpLimit: { type: "number", positive: true },
+  trailingDownLimit: { type: "number", positive: true },
+  trailingInventory: { type: "string", values: ["close", "keep"] },
+  adaptiveSpread: { type: "boolean" },
+  minSpread: { type: "number", positive: true },
+  maxSpread: { type: "number", positive: true },
+  volatilityTimeframe: { type: "string" },
+  volatilityPeriod: { type: "integer", min: 1 },
+  volatilityMultiplier: { type: "number", positive: true },
+  spreadHysteresis: { type: "number", min: 0 },
+  stopLossPrice: { type: "number", positive: true },
+  maxLoss: { type: "number", positive: true },
+  maxLossPercent: { type: "number", positive: true },
+  takeProfit: { type: "number", positive: true },
+  exitAction: { type: "string", values: ["flatten", "pause"] },
+  rangeExit: { type: "string", values: ["hold", "flatten", "pause"] },
+  maxPosition: { type: "number", positive: true },
+  maxNotional: { type: "number", positive: true },
+  maxFilledLevels: { type: "integer", min: 1 },
+  orderWindow: { type: "integer", min: 1 },
+  followMarketOnFill: { type: "boolean" },
+  autoInitialPosition: { type: "boolean" },
+  initialPositionPolicy: {
+    type: "string",
+    values: ["auto", "reject", "approval"],
+  },
+  initialPositionMaxValue: { type: "number", min: 0 },
+  initialPositionEntry: {
+    type: "string",
+    values: ["market", "limit", "twap"],
+  },
+  initialPositionSlices: { type: "integer", min: 1 },
+  initialPositionIntervalSeconds: { type: "number", min: 0 },
+  initialPositionMaxSlippage: { type: "number", positive: true },
+  cancelAllOnStop: { type: "boolean" },
+  closeAllOnStop: { type: "boolean" },
+  anchorResetSteps: { type: "number", positive: true },
+  liquidationGuardDistance: { type: "number", positive: true },
+  liquidationGuardMarginRatio: { type: "number", positive: true },
+  liquidationGuardOpenWindow: { type: "integer", min: 0 },
+  liquidationGuardAddMargin: { type: "number", positive: true },
+  fundingShrinkRate: { type: "number", positive: true },
+  fundingShrinkWindow: { type: "integer", min: 0 },
+  fundingPauseRate: { type: "number", positive: true },
+};
+
+const ROOT_SCHEMA: Schema = {
+  mode: {
+    type: "string",
+    required: true,
+    values: ["real", "simulation", "paper"],
+  },
+};
+
+// 根级别的表与表数组 (各自有独立的字段规则)
+const ROOT_TABLES: Record<string, Schema> = {
+  logger: LOGGER_SCHEMA,
+  monitor: MONITOR_SCHEMA,
+  paper: PAPER_SCHEMA,
+  recorder: RECORDER_SCHEMA,
+  control: CONTROL_SCHEMA,
+  risk: RISK_SCHEMA,
+  default: DEFAULT_SCHEMA,
+};
+const ROOT_ARRAYS = ["exchanges", "strategies"];
+
+function isTable(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 两个字符串的编辑距离，用于给未知字段提示最接近的字段名
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        prev + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  const exact = known.find(k => k.toLowerCase() === lower);
+  if (exact) return exact;
+  return known
+    .map(k => ({ k, d: editDistance(lower, k.toLowerCase()) }))
+    .filter(c => c.d <= 2)
+    .sort((a, b) => a.d - b.d)[0]?.k;
+}
+
+/**
+ * 配置校验器：收集所有问题后一并返回，而不是遇到第一个问题就中止
+ */
+class ConfigChecker {
+  public issues: ConfigIssue[] = [];
+
+  public add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  /**
+   * 按规则校验表中的字段，并报告未知字段
+   * @param known 除 schema 外允许出现的字段 (由调用方单独校验)
+   */
+  public checkTable(
+    table: Record<string, any>,
+    schema: Schema,
+    path: string,
+    known: string[] = []
+  ): void {
+    const keys = [...Object.keys(schema), ...known];
+    for (const key of Object.keys(table)) {
+      if (keys.includes(key)) continue;
+      const suggestion = suggestKey(key, keys);
+      this.add(
+        this.join(path, key),
+        `未知字段${suggestion ? `，是否应为 ${suggestion}?` : ""}`
+      );
+    }
+    for (const [key, rule] of Object.entries(schema)) {
+      this.checkField(table[key], rule, this.join(path, key));
+    }
+  }
+
+  public join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  private checkField(value: unknown, rule: FieldRule, path: string): void {
+    if (value === undefined) {
+      if (rule.required) this.add(path, "缺少必填字段");
+      return;
+    }
+
+    switch (rule.type) {
+      case "string":
+        if (typeof value !== "string") {
+          this.add(path, `应为字符串，实际为 ${JSON.stringify(value)}`);
+        } else if (rule.values && !rule.values.includes(value)) {
+          this.add(
+            path,
+            `无效的取值 "${value}" (可选: ${rule.values.join(", ")})`
+          );
+        }
+        return;
+      case "boolean":
+        if (typeof value !== "boolean") {
+          this.add(path, `应为 true 或 false，实际为 ${JSON.stringify(value)}`);
+        }
+        return;
+      case "number":
+      case "integer":
+        this.checkNumber(value, rule, path);
+        return;
+      case "table":
+        if (!isTable(value)) this.add(path, "应为表 (TOML table)");
+        return;
+      case "numberArray":
+        if (!Array.isArray(value) || value.length === 0) {
+          this.add(path, "应为非空的数值数组");
+          return;
+        }
+        value.forEach((v, i) =>
+          this.checkNumber(
+            v,
+            { type: "number", positive: true },
+            `${path}[${i}]`
+          )
+        );
+        return;
+      case "numberRecord":
+      case "stringRecord":
+        if (!isTable(value)) {
+          this.add(path, "应为表 (TOML table)");
+          return;
+        }
+        for (const [key, v] of Object.entries(value)) {
+          const itemPath = `${path}["${key}"]`;
+          if (rule.type === "stringRecord") {
+            if (typeof v !== "string") this.add(itemPath, "应为字符串");
+          } else {
+            this.checkNumber(v, { type: "number", positive: true }, itemPath);
+          }
+        }
+        return;
+    }
+  }
+
+  private checkNumber(value: unknown, rule: FieldRule, path: string): void {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.add(path, `应为数值，实际为 ${JSON.stringify(value)}`);
+      return;
+    }
+    if (rule.type === "integer" && !Number.isInteger(value)) {
+      this.add(path, `应为整数，实际为 ${value}`);
+    }
+    if (rule.positive && value <= 0) {
+      this.add(path, `必须大于 0，实际为 ${value}`);
+    }
+    if (rule.min !== undefined && value < rule.min) {
+      this.add(path, `不能小于 ${rule.min}，实际为 ${value}`);
+    }
+  }
+}
+
+/**
+ * 校验解析后的配置 (类型、取值范围、字段间约束、重复策略与未知字段)
+ * @returns 所有问题 (无问题时为空数组)
+ */
+export function validateConfig(raw: unknown): ConfigIssue[] {
+  const checker = new ConfigChecker();
+  if (!isTable(raw)) {
+    checker.add("", "配置文件内容应为 TOML 表");
+    return checker.issues;
+  }
+
+  checker.checkTable(raw, ROOT_SCHEMA, "", [
+    ...Object.keys(ROOT_TABLES),
+    ...ROOT_ARRAYS,
+  ]);
+  for (const [key, schema] of Object.entries(ROOT_TABLES)) {
+    if (raw[key] === undefined) {
+      if (key === "default") checker.add(key, "缺少 [default] 配置段");
+      continue;
+    }
+    if (!isTable(raw[key])) {
+      checker.add(key, `应为 [${key}] 配置段`);
+      continue;
+    }
+    checker.checkTable(raw[key], schema, key);
+  }
+
+  if (raw.control?.enable !== true) {
+    if (raw.default?.initial_position_policy === "approval") {
+      checker.add(
+        "default.initial_position_policy",
+        "approval 需要启用 [control] 控制接口审批建仓"
+      );
+    }
+    if (Array.isArray(raw.strategies)) {
+      raw.strategies.forEach((strat: any, i: number) => {
+        if (strat?.initialPositionPolicy === "approval") {
+          checker.add(
+            `strategies[${i}].initialPositionPolicy`,
+            "approval 需要启用 [control] 控制接口审批建仓"
+          );
+        }
+      });
+    }
+  }
+
+  if (raw.risk?.enable === true) {
+    const limits = [
+      "max_drawdown_percent",
+      "max_daily_loss",
+      "max_margin_ratio",
+    ];
+    if (limits.every(key => raw.risk[key] === undefined)) {
+      checker.add("risk", `需要配置 ${limits.join(" / ")} 中至少一项`);
+    }
+    if (raw.control?.enable !== true) {
+      checker.add(
+        "risk.enable",
+        "账户风控触发后需要通过 [control] 控制接口重置，请同时启用"
+      );
+    }
+  }
+
+  const { funding_shrink_rate, funding_pause_rate } = raw.default || {};
+  if (
+    typeof funding_shrink_rate === "number" &&
+    typeof funding_pause_rate === "number" &&
+    funding_pause_rate < funding_shrink_rate
+  ) {
+    checker.add(
+      "default.funding_pause_rate",
+      `funding_pause_rate (${funding_pause_rate}) 不能小于 funding_shrink_rate (${funding_shrink_rate})`
+    );
+  }
+
+  checkExchanges(checker, raw.exchanges, raw.mode);
+  checkStrategies(checker, raw.strategies, raw.default || {});
+  return checker.issues;
+}
+
+function checkExchanges(
+  checker: ConfigChecker,
+  exchanges: unknown,
+  mode: unknown
+): void {
+  // 纸面交易不连接交易所
+  const needsExchange = mode !== "paper";
+  if (exchanges === undefined) {
+    if (needsExchange) checker.add("exchanges", "缺少 [[exchanges]] 配置");
+    return;
+  }
+  if (!Array.isArray(exchanges) || !exchanges.every(isTable)) {
+    checker.add("exchanges", "应为 [[exchanges]] 表数组");
+    return;
+  }
+
+  const supported = getSupportedExchanges();
+  exchanges.forEach((exchange, i) => {
+    const path = `exchanges[${i}]`;
+    checker.checkTable(exchange, EXCHANGE_SCHEMA, path);
+    if (
+      typeof exchange.name === "string" &&
+      !supported.includes(exchange.name)
+    ) {
+      checker.add(
+        `${path}.name`,
+        `不支持的交易所 "${exchange.name}" (支持: ${supported.join(", ")})`
+      );
+    }
+  });
+  if (needsExchange && !exchanges.some(e => e.enable === true)) {
+    checker.add("exchanges", "没有 enable = true 的交易所");
+  }
+}
+
+function checkStrategies(
+  checker: ConfigChecker,
+  strategies: unknown,
+  defaults: Record<string, any>
+): void {
+  if (!Array.isArray(strategies) || strategies.length === 0) {
+    checker.add("strategies", "至少需要一个 [[strategies]] 配置");
+    return;
+  }
+  if (!strategies.every(isTable)) {
+    checker.add("strategies", "应为 [[strategies]] 表数组");
+    return;
+  }
+
+  // 策略 ID -> 首次出现的位置
+  const seen: Record<string, string> = {};
+  strategies.forEach((strat, i) => {
+    const path = `strategies[${i}]`;
+    checker.checkTable(strat, STRATEGY_SCHEMA, path);
+    checkStrategyRules(checker, strat, path);
+
+    // 覆盖资金费率阈值时按与 [default] 合并后的值检查
+    if (
+      strat.fundingShrinkRate !== undefined ||
+      strat.fundingPauseRate !== undefined
+    ) {
+      const shrinkRate =
+        strat.fundingShrinkRate ?? defaults.funding_shrink_rate;
+      const pauseRate = strat.fundingPauseRate ?? defaults.funding_pause_rate;
+      if (
+        typeof shrinkRate === "number" &&
+        typeof pauseRate === "number" &&
+        pauseRate < shrinkRate
+      ) {
+        checker.add(
+          `${path}.fundingPauseRate`,
+          `fundingPauseRate (${pauseRate}) 不能小于 fundingShrinkRate (${shrinkRate}) (含 [default] 中的配置)`
+        );
+      }
+    }
+
+    if (
+      strat.enable === false ||
+      typeof strat.symbol !== "string" ||
+      typeof strat.direction !== "string"
+    ) {
+      return;
+    }
+    const id = getStrategyId(strat as any);
+    if (seen[id]) {
+      checker.add(
+        `${path}.${strat.id ? "id" : "symbol"}`,
+        `策略 ID "${id}" 与 ${seen[id]} 重复 (同一交易对同方向的多个策略需配置不同的 id)`
+      );
+    } else {
+      seen[id] = path;
+    }
+  });
+}
+
+/**
+ * 策略字段间的约束 (字段类型错误时跳过相关检查，避免重复报告)
+ */
+function checkStrategyRules(
+  checker: ConfigChecker,
+  strat: Record<string, any>,
+  path: string
+): void {
+  const num = (key: string): number | undefined =>
+    typeof strat[key] === "number" ? strat[key] : undefined;
+  const at = (key: string) => checker.join(path, key);
+
+  const lower = num("lowerPrice");
+  const upper = num("upperPrice");
+  if (lower !== undefined && upper !== undefined && lower >= upper) {
+    checker.add(
+      at("lowerPrice"),
+      `lowerPrice (${lower}) 必须小于 upperPrice (${upper})`
+    );
+  }
+
+  if (strat.gridType === GridType.ARITHMETIC) {
+    if (strat.priceStep === undefined && strat.gridCount === undefined) {
+      checker.add(at("priceStep"), "等差网格需要配置 priceStep 或 gridCount");
+    } else if (strat.priceStep !== undefined && strat.gridCount !== undefined) {
+      checker.add(at("gridCount"), "priceStep 与 gridCount 只能配置其一");
+    }
+    if (strat.adaptiveSpread === true) {
+      checker.add(at("adaptiveSpread"), "波动率自适应间距仅支持等比网格");
+    }
+  } else if (strat.gridSpread === undefined) {
+    checker.add(at("gridSpread"), "等比网格需要配置 gridSpread");
+  }
+
+  if (strat.adaptiveSpread === true) {
+    const minSpread = num("minSpread");
+    const maxSpread = num("maxSpread");
+    if (strat.minSpread === undefined) {
+      checker.add(at("minSpread"), "波动率自适应间距需要配置 minSpread");
+    }
+    if (strat.maxSpread === undefined) {
+      checker.add(at("maxSpread"), "波动率自适应间距需要配置 maxSpread");
+    }
+    if (
+      minSpread !== undefined &&
+      maxSpread !== undefined &&
+      minSpread > maxSpread
+    ) {
+      checker.add(
+        at("minSpread"),
+        `minSpread (${minSpread}) 不能大于 maxSpread (${maxSpread})`
+      );
+    }
+  }
+  if (typeof strat.volatilityTimeframe === "string") {
+    try {
+      timeframeToMs(strat.volatilityTimeframe);
+    } catch (e: any) {
+      checker.add(at("volatilityTimeframe"), `${e.message} (例如 15m、1h、1d)`);
+    }
+  }
+
+  const upLimit = num("trailingUpLimit");
+  if (upLimit !== undefined && upper !== undefined && upLimit <= upper) {
+    checker.add(
+      at("trailingUpLimit"),
+      `trailingUpLimit (${upLimit}) 必须大于 upperPrice (${upper})`
+    );
+  }
+  const downLimit = num("trailingDownLimit");
+  if (downLimit !== undefined && lower !== undefined && downLimit >= lower) {
+    checker.add(
+      at("trailingDownLimit"),
+      `trailingDownLimit (${downLimit}) 必须小于 lowerPrice (${lower})`
+    );
+  }
+
+  const stopLoss = num("stopLossPrice");
+  if (stopLoss !== undefined) {
+    if (strat.direction === GridDirection.NEUTRAL) {
+      checker.add(
+        at("stopLossPrice"),
+        "NEUTRAL 网格不支持 stopLossPrice，请使用 maxLoss / maxLossPercent"
+      );
+    } else if (
+      strat.direction === GridDirection.LONG &&
+      upper !== undefined &&
+      stopLoss >= upper
+    ) {
+      checker.add(
+        at("stopLossPrice"),
+        `LONG 网格的 stopLossPrice (${stopLoss}) 必须小于 upperPrice (${upper})`
+      );
+    } else if (
+      strat.direction === GridDirection.SHORT &&
+      lower !== undefined &&
+      stopLoss <= lower
+    ) {
+      checker.add(
+        at("stopLossPrice"),
+        `SHORT 网格的 stopLossPrice (${stopLoss}) 必须大于 lowerPrice (${lower})`
+      );
+    }
+  }
+
+  // 各数量模式需要的参数
+  const required: Partial<Record<QuantityMode, string>> = {
+    [QuantityMode.NOTIONAL]: "notionalPerGrid",
+    [QuantityMode.LINEAR]: "pyramidStep",
+    [QuantityMode.GEOMETRIC]: "pyramidRatio",
+    [QuantityMode.TABLE]: "quantityTable",
+  };
+  const field = required[strat.quantityMode as QuantityMode];
+  if (field && strat[field] === undefined) {
+    checker.add(at(field), `${strat.quantityMode} 数量模式需要配置 ${field}`);
+  }
+}
+
+/**
+ * 校验启用策略的交易对是否存在于交易所已加载的市场中
+ * @param markets 交易所 loadMarkets 后的市场表 (交易对 -> 市场信息)
+ */
+export function validateSymbols(
+  strategies: { symbol: string; enable?: boolean }[],
+  markets: Record<string, any>
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  strategies.forEach((strat, i) => {
+    if (strat.enable === false || markets[strat.symbol]) return;
+    issues.push({
+      path: `strategies[${i}].symbol`,
+      message: `交易所中不存在交易对 "${strat.symbol}" (合约格式例如 SOL/USDT:USDT)`,
+    });
+  });
+  return issues;
+}
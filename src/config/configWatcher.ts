@@ -0,0 +1,70 @@
+import fs from "fs";
+import { Logger, logger } from "../utils/logger";
+
+/**
+ * 配置文件监听器：文件修改时间变化后回调 (轮询检测，兼容编辑器先删后写的保存方式)
+ * 连续保存在防抖时间内只触发一次，回调执行期间的修改在结束后再触发一次
+ */
+export class ConfigWatcher {
+  private configPath: string;
+  private onChange: () => Promise<void>;
+  private logger: Logger;
+  private debounceMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private pending: boolean = false;
+
+  constructor(
+    configPath: string,
+    onChange: () => Promise<void>,
+    log: Logger = logger,
+    debounceMs: number = 500
+  ) {
+    this.configPath = configPath;
+    this.onChange = onChange;
+    this.logger = log;
+    this.debounceMs = debounceMs;
+  }
+
+  public start(): void {
+    fs.watchFile(this.configPath, { interval: 1000 }, (curr, prev) => {
+      // 文件被删除时 mtime 为 0，等待重新写入
+      if (curr.mtimeMs === 0 || curr.mtimeMs === prev.mtimeMs) return;
+      this.schedule();
+    });
+    this.logger.info(`[ConfigWatcher] 监听配置文件变更: ${this.configPath}`);
+  }
+
+  public stop(): void {
+    fs.unwatchFile(this.configPath);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.trigger();
+    }, this.debounceMs);
+  }
+
+  private async trigger(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    this.running = true;
+    try {
+      await this.onChange();
+    } catch (error: any) {
+      this.logger.error(`[ConfigWatcher] 处理配置变更失败: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+    if (this.pending) {
+      this.pending = false;
+      this.trigger();
+    }
+  }
+}
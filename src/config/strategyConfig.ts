@@ -0,0 +1,68 @@
+import { DefaultGridConfig } from "../types/config";
+import { GridConfig } from "../types/grid";
+
+/**
+ * 策略唯一标识：未配置 id 时使用 {symbol}_{direction}
+ * (与旧版本的网格文件名、订单策略标签一致，升级后可直接沿用)
+ */
+export function getStrategyId(
+  strategy: Pick<GridConfig, "id" | "symbol" | "direction">
+): string {
+  return strategy.id || `${strategy.symbol}_${strategy.direction}`;
+}
+
+/**
+ * 合并策略配置与 [default]：策略未设置的通用行为字段使用默认值
+ */
+export function resolveStrategyConfig(
+  strategy: GridConfig,
+  defaults: DefaultGridConfig
+): GridConfig {
+  const id = getStrategyId(strategy);
+  return {
+    ...strategy,
+    id,
+    name: strategy.name || id,
+    enable: strategy.enable ?? true,
+    leverage: strategy.leverage ?? defaults.leverage,
+    marginMode: strategy.marginMode ?? defaults.margin_mode,
+    orderWindow: strategy.orderWindow ?? defaults.order_window,
+    followMarketOnFill:
+      strategy.followMarketOnFill ?? defaults.follow_market_on_fill,
+    autoInitialPosition:
+      strategy.autoInitialPosition ?? defaults.auto_initial_position,
+    initialPositionPolicy:
+      strategy.initialPositionPolicy ?? defaults.initial_position_policy,
+    initialPositionMaxValue:
+      strategy.initialPositionMaxValue ?? defaults.initial_position_max_value,
+    initialPositionEntry:
+      strategy.initialPositionEntry ?? defaults.initial_position_entry,
+    initialPositionSlices:
+      strategy.initialPositionSlices ?? defaults.initial_position_slices,
+    initialPositionIntervalSeconds:
+      strategy.initialPositionIntervalSeconds ??
+      defaults.initial_position_interval_seconds,
+    initialPositionMaxSlippage:
+      strategy.initialPositionMaxSlippage ??
+      defaults.initial_position_max_slippage,
+    cancelAllOnStop: strategy.cancelAllOnStop ?? defaults.cancel_all_on_stop,
+    closeAllOnStop: strategy.closeAllOnStop ?? defaults.close_all_on_stop,
+    anchorResetSteps: strategy.anchorResetSteps ?? defaults.anchor_reset_steps,
+    liquidationGuardDistance:
+      strategy.liquidationGuardDistance ?? defaults.liquidation_guard_distance,
+    liquidationGuardMarginRatio:
+      strategy.liquidationGuardMarginRatio ??
+      defaults.liquidation_guard_margin_ratio,
+    liquidationGuardOpenWindow:
+      strategy.liquidationGuardOpenWindow ??
+      defaults.liquidation_guard_open_window,
+    liquidationGuardAddMargin:
+      strategy.liquidationGuardAddMargin ??
+      defaults.liquidation_guard_add_margin,
+    fundingShrinkRate:
+      strategy.fundingShrinkRate ?? defaults.funding_shrink_rate,
+    fundingShrinkWindow:
+      strategy.fundingShrinkWindow ?? defaults.funding_shrink_window,
+    fundingPauseRate: strategy.fundingPauseRate ?? defaults.funding_pause_rate,
+  };
+}
@@ -0,0 +1,82 @@
+import { Logger, logger } from "../utils/logger";
+import { Clock, clock } from "../utils/clock";
+
+/**
+ * 等待人工审批的操作 (例如超过自动批准阈值的底仓构建)
+ */
+export interface ApprovalRequest {
+  id: string;
+  strategyId: string;
+  summary: string; // 审批内容说明
+  createdAt: number;
+}
+
+/**
+ * 审批队列：引擎提交请求后等待控制接口批准或拒绝，不依赖终端交互
+ */
+export class ApprovalQueue {
+  private logger: Logger;
+  private clock: Clock;
+  private pending: Map<
+    string,
+    { request: ApprovalRequest; resolve: (approved: boolean) => void }
+  > = new Map();
+  private nextId: number = 1;
+
+  constructor(log: Logger = logger, time: Clock = clock) {
+    this.logger = log;
+    this.clock = time;
+  }
+
+  /**
+   * 提交审批请求
+   * @returns 是否批准 (审批完成后返回)
+   */
+  public request(strategyId: string, summary: string): Promise<boolean> {
+    const request: ApprovalRequest = {
+      id: String(this.nextId++),
+      strategyId,
+      summary,
+      createdAt: this.clock.now(),
+    };
+    this.logger.warn(
+      `[Approval] [${strategyId}] 等待审批 #${request.id}: ${summary} (POST /approvals/${request.id}/approve 或 /reject)`
+    );
+    return new Promise(resolve => {
+      this.pending.set(request.id, { request, resolve });
+    });
+  }
+
+  /**
+   * 待审批的请求
+   */
+  public list(): ApprovalRequest[] {
+    return [...this.pending.values()].map(p => p.request);
+  }
+
+  /**
+   * 批准或拒绝审批请求
+   * @returns 请求是否存在
+   */
+  public resolve(id: string, approved: boolean): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) return false;
+    this.pending.delete(id);
+    this.logger.info(
+      `[Approval] [${entry.request.strategyId}] 审批 #${id} ${
+        approved ? "已批准" : "已拒绝"
+      }`
+    );
+    entry.resolve(approved);
+    return true;
+  }
+
+  /**
+   * 拒绝所有待审批的请求 (引擎停止时调用)
+   */
+  public rejectAll(): void {
+    for (const id of [...this.pending.keys()]) {
+      this.resolve(id, false);
+    }
+  }
+}
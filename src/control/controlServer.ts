@@ -0,0 +1,136 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { ControlConfig } from "../types/config";
+import { Logger, logger } from "../utils/logger";
+import { ApprovalQueue } from "./approvalQueue";
+
+/**
+ * 控制接口操作的对象 (BotEngine)
+ */
+export interface ControlTarget {
+  getApprovals(): ApprovalQueue;
+  getStrategyStatus(): object[];
+  resumeStrategy(id: string): Promise<boolean>;
+  getRiskStatus(): object | null;
+  resetRiskGuard(): Promise<boolean>;
+}
+
+/**
+ * HTTP 控制接口 (无需终端，适用于 systemd / docker 等后台运行)
+ * - GET  /approvals               待审批列表
+ * - POST /approvals/{id}/approve  批准
+ * - POST /approvals/{id}/reject   拒绝
+ * - GET  /strategies              策略状态 (盈亏、持仓账本、停止状态)
+ * - POST /strategies/{id}/resume  恢复已停止的策略
+ * - GET  /risk                    账户风控状态 (权益峰值、触发原因)
+ * - POST /risk/reset              重置已触发的账户风控并恢复交易
+ * 设置 token 后请求需携带 Authorization: Bearer {token}
+ */
+export class ControlServer {
+  private target: ControlTarget;
+  private config: ControlConfig;
+  private token?: string;
+  private logger: Logger;
+  private server: http.Server | null = null;
+
+  constructor(
+    target: ControlTarget,
+    config: ControlConfig,
+    token: string | undefined = process.env.CONTROL_TOKEN,
+    log: Logger = logger
+  ) {
+    this.target = target;
+    this.config = config;
+    this.token = token;
+    this.logger = log;
+  }
+
+  public async start(): Promise<void> {
+    const host = this.config.host || "127.0.0.1";
+    const server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, host, () => resolve());
+    });
+    this.server = server;
+    this.logger.info(
+      `[ControlServer] 控制接口已启动: http://${host}:${this.getPort()}`
+    );
+    if (!this.token) {
+      this.logger.warn(
+        "[ControlServer] 未设置 CONTROL_TOKEN，控制接口不校验身份，请勿对外监听"
+      );
+    }
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * 实际监听的端口 (配置 port = 0 时由系统分配)
+   */
+  public getPort(): number {
+    return (this.server?.address() as AddressInfo | null)?.port ?? 0;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    this.route(req)
+      .then(([status, body]) => this.reply(res, status, body))
+      .catch(error => this.reply(res, 500, { error: error.message }));
+  }
+
+  private async route(req: http.IncomingMessage): Promise<[number, any]> {
+    if (this.token && req.headers.authorization !== `Bearer ${this.token}`) {
+      return [401, { error: "unauthorized" }];
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const approvals = this.target.getApprovals();
+    if (req.method === "GET" && url.pathname === "/approvals") {
+      return [200, { approvals: approvals.list() }];
+    }
+    if (req.method === "GET" && url.pathname === "/strategies") {
+      return [200, { strategies: this.target.getStrategyStatus() }];
+    }
+    if (req.method === "GET" && url.pathname === "/risk") {
+      return [200, { risk: this.target.getRiskStatus() }];
+    }
+    if (req.method === "POST" && url.pathname === "/risk/reset") {
+      if (!(await this.target.resetRiskGuard())) {
+        return [404, { error: "risk guard not enabled or not tripped" }];
+      }
+      return [200, { reset: true }];
+    }
+
+    const match = /^\/approvals\/([^/]+)\/(approve|reject)$/.exec(
+      url.pathname
+    );
+    if (req.method === "POST" && match) {
+      const [, id, action] = match;
+      if (!approvals.resolve(id, action === "approve")) {
+        return [404, { error: `approval ${id} not found` }];
+      }
+      return [200, { id, approved: action === "approve" }];
+    }
+
+    const resume = /^\/strategies\/([^/]+)\/resume$/.exec(url.pathname);
+    if (req.method === "POST" && resume) {
+      const id = decodeURIComponent(resume[1]);
+      if (!(await this.target.resumeStrategy(id))) {
+        return [404, { error: `strategy ${id} not found or not halted` }];
+      }
+      return [200, { id, resumed: true }];
+    }
+
+    return [404, { error: "not found" }];
+  }
+
+  private reply(res: http.ServerResponse, status: number, body: any): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,212 @@
+import * as ccxt from "ccxt";
+import { ExchangeConfig } from "../../types/config";
+import {
+  ExchangeAdapter,
+  NormalizedErrorCode,
+  OrderAction,
+  OrderRequest,
+  PositionSide,
+} from "../../types/exchange";
+import { logger } from "../../utils/logger";
+
+// Binance 批量接口单次上限
+const BATCH_CREATE_LIMIT = 5;
+const BATCH_CANCEL_LIMIT = 10;
+
+/**
+ * Binance USDⓈ-M 永续合约适配器
+ */
+export class BinanceUsdmAdapter implements ExchangeAdapter {
+  public readonly name = "binanceusdm";
+  public readonly requiresPassword = false;
+
+  public createClient(config: ExchangeConfig): any {
+    return new ccxt.pro.binanceusdm({
+      apiKey: config.apiKey,
+      secret: config.secret,
+      enableRateLimit: true,
+      options: {
+        defaultType: "future",
+        adjustForTimeDifference: true,
+        newUpdates: true,
+        ...config.options,
+      },
+    });
+  }
+
+  public async setHedgeMode(client: any): Promise<void> {
+    try {
+      await client.setPositionMode(true);
+      logger.info("双向持仓模式 (Hedge Mode) 设置成功");
+    } catch (e: any) {
+      // -4059: No need to change position side.
+      if (
+        e.message.includes("-4059") ||
+        e.message.includes("No need to change")
+      ) {
+        logger.info("持仓模式已经是双向持仓，无需修改");
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  public async setLeverage(
+    client: any,
+    symbol: string,
+    leverage: number,
+    _positionSide: PositionSide
+  ): Promise<void> {
+    // Binance 的杠杆按交易对设置，多空共用
+    await client.setLeverage(leverage, symbol);
+  }
+
+  public async addMargin(
+    client: any,
+    symbol: string,
+    positionSide: PositionSide,
+    amount: number
+  ): Promise<void> {
+    await client.addMargin(symbol, amount, {
+      positionSide: positionSide.toUpperCase(),
+    });
+  }
+
+  /**
+   * Binance Hedge Mode 映射规则说明:
+   * 1. positionSide 参数指定持仓方向 ('LONG' / 'SHORT')
+   * 2. side 参数为真实买卖方向：开多/平空为 'buy'，开空/平多为 'sell'
+   * 3. Post Only: timeInForce 设为 'GTX'
+   */
+  public buildOrderRequest(
+    symbol: string,
+    type: "limit" | "market",
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number | undefined,
+    postOnly: boolean,
+    clientOrderId?: string
+  ): OrderRequest {
+    const isBuy =
+      (positionSide === "long" && action === "open") ||
+      (positionSide === "short" && action === "close");
+    const params: Record<string, any> = {
+      positionSide: positionSide === "long" ? "LONG" : "SHORT",
+    };
+    if (postOnly) {
+      params.timeInForce = "GTX";
+    }
+    if (clientOrderId) {
+      // CCXT 映射为 Binance 的 newClientOrderId
+      params.clientOrderId = clientOrderId;
+    }
+    return {
+      symbol,
+      type,
+      side: isBuy ? "buy" : "sell",
+      amount,
+      price,
+      params,
+    };
+  }
+
+  public getOrderPositionSide(order: any): PositionSide {
+    const positionSide = order.info?.positionSide || order.info?.ps;
+    if (positionSide === "LONG") return "long";
+    if (positionSide === "SHORT") return "short";
+    return order.side === "buy" ? "long" : "short";
+  }
+
+  public getOrderAction(order: any): OrderAction {
+    const positionSide = this.getOrderPositionSide(order);
+    if (positionSide === "long") {
+      return order.side === "buy" ? "open" : "close";
+    }
+    return order.side === "sell" ? "open" : "close";
+  }
+
+  public async createOrders(
+    client: any,
+    requests: OrderRequest[]
+  ): Promise<any[]> {
+    const results: any[] = [];
+    for (let i = 0; i < requests.length; i += BATCH_CREATE_LIMIT) {
+      const chunk = requests.slice(i, i + BATCH_CREATE_LIMIT);
+      const orders = await client.createOrders(chunk);
+      results.push(...orders);
+    }
+    return results;
+  }
+
+  public async cancelOrders(
+    client: any,
+    ids: string[],
+    symbol: string
+  ): Promise<void> {
+    for (let i = 0; i < ids.length; i += BATCH_CANCEL_LIMIT) {
+      await client.cancelOrders(ids.slice(i, i + BATCH_CANCEL_LIMIT), symbol);
+    }
+  }
+
+  /**
+   * Binance 没有闪电平仓接口，按持仓逐个方向发送市价平仓单
+   */
+  public async flashClosePositions(client: any, symbol: string): Promise<void> {
+    const positions = await client.fetchPositions([symbol]);
+    const openPositions = positions.filter(
+      (p: any) => p.symbol === symbol && p.contracts > 0
+    );
+    if (openPositions.length === 0) {
+      throw new Error("No position to close");
+    }
+    for (const position of openPositions) {
+      const side: PositionSide = position.side === "short" ? "short" : "long";
+      const request = this.buildOrderRequest(
+        symbol,
+        "market",
+        side,
+        "close",
+        position.contracts,
+        undefined,
+        false
+      );
+      await client.createOrder(
+        request.symbol,
+        request.type,
+        request.side,
+        request.amount,
+        undefined,
+        request.params
+      );
+    }
+  }
+
+  public normalizeError(error: any): NormalizedErrorCode | null {
+    const message: string = error?.message || "";
+    // -5022: Post Only order will be rejected
+    if (message.includes("-5022") || message.includes("Post Only")) {
+      return "POST_ONLY_REJECTED";
+    }
+    // -2022: ReduceOnly Order is rejected (无可平仓位)
+    if (
+      message.includes("-2022") ||
+      message.includes("ReduceOnly Order is rejected") ||
+      message.includes("No position")
+    ) {
+      return "NO_POSITION";
+    }
+    // -4116: ClientOrderId is duplicated
+    if (
+      error?.name === "DuplicateOrderId" ||
+      message.includes("-4116") ||
+      /ClientOrderId is duplicated/i.test(message)
+    ) {
+      return "DUPLICATE_CLIENT_ORDER_ID";
+    }
+    if (error?.name === "RequestTimeout") {
+      return "TIMEOUT";
+    }
+    return null;
+  }
+}
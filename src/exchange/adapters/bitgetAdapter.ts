@@ -0,0 +1,169 @@
+import * as ccxt from "ccxt";
+import { ExchangeConfig } from "../../types/config";
+import {
+  ExchangeAdapter,
+  NormalizedErrorCode,
+  OrderAction,
+  OrderRequest,
+  PositionSide,
+} from "../../types/exchange";
+import { logger } from "../../utils/logger";
+
+/**
+ * Bitget USDT 永续合约适配器
+ */
+export class BitgetAdapter implements ExchangeAdapter {
+  public readonly name = "bitget";
+  public readonly requiresPassword = true;
+
+  public createClient(config: ExchangeConfig): any {
+    return new ccxt.pro.bitget({
+      apiKey: config.apiKey,
+      secret: config.secret,
+      password: config.password,
+      enableRateLimit: true,
+      options: {
+        defaultType: "swap", // 设置为合约模式
+        adjustForTimeDifference: true,
+        newUpdates: true, // 启用增量更新模式，这对 watchOrders 至关重要
+        ...config.options,
+      },
+    });
+  }
+
+  public async setHedgeMode(client: any): Promise<void> {
+    try {
+      // Bitget setPositionMode(true) 为双向持仓
+      await client.setPositionMode(true);
+      logger.info("双向持仓模式 (Hedge Mode) 设置成功");
+    } catch (e: any) {
+      // 如果报错内容提示已经是该模式，则忽略
+      if (
+        e.message.includes("already") ||
+        e.message.includes("not modified")
+      ) {
+        logger.info("持仓模式已经是双向持仓，无需修改");
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  public async setLeverage(
+    client: any,
+    symbol: string,
+    leverage: number,
+    positionSide: PositionSide
+  ): Promise<void> {
+    // 逐仓双向持仓模式下多空杠杆分别设置 (holdSide)，全仓模式下对整个交易对生效
+    await client.setLeverage(leverage, symbol, { holdSide: positionSide });
+  }
+
+  public async addMargin(
+    client: any,
+    symbol: string,
+    positionSide: PositionSide,
+    amount: number
+  ): Promise<void> {
+    await client.addMargin(symbol, amount, { holdSide: positionSide });
+  }
+
+  /**
+   * Bitget Hedge Mode (双向持仓) 映射规则说明:
+   * 1. side 参数代表持仓方向 (Position Side):
+   *    - 操作多头仓位 (Long Position): side 永远是 'buy'
+   *    - 操作空头仓位 (Short Position): side 永远是 'sell'
+   * 2. tradeSide 参数代表开平仓方向:
+   *    - 开仓: 'open'
+   *    - 平仓: 'close'
+   * 3. Post Only: 强制 Maker，使用 timeInForce: 'post_only'
+   */
+  public buildOrderRequest(
+    symbol: string,
+    type: "limit" | "market",
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number | undefined,
+    postOnly: boolean,
+    clientOrderId?: string
+  ): OrderRequest {
+    const params: Record<string, any> = { tradeSide: action };
+    if (postOnly) {
+      params.timeInForce = "post_only";
+    }
+    if (clientOrderId) {
+      // CCXT 映射为 Bitget 的 clientOid
+      params.clientOrderId = clientOrderId;
+    }
+    return {
+      symbol,
+      type,
+      side: positionSide === "long" ? "buy" : "sell",
+      amount,
+      price,
+      params,
+    };
+  }
+
+  public getOrderPositionSide(order: any): PositionSide {
+    // Bitget 的 posSide 字段通常在 o.info 中
+    const posSide = order.info?.posSide;
+    if (posSide === "long" || posSide === "short") {
+      return posSide;
+    }
+    return order.side === "buy" ? "long" : "short";
+  }
+
+  public getOrderAction(order: any): OrderAction {
+    const tradeSide = order.info?.tradeSide;
+    if (tradeSide === "open" || tradeSide === "close") {
+      return tradeSide;
+    }
+    return order.reduceOnly ? "close" : "open";
+  }
+
+  public async createOrders(
+    client: any,
+    requests: OrderRequest[]
+  ): Promise<any[]> {
+    // Bitget 批量下单接口
+    return client.createOrders(requests);
+  }
+
+  public async cancelOrders(
+    client: any,
+    ids: string[],
+    symbol: string
+  ): Promise<void> {
+    // Bitget 批量撤单接口：cancelOrders(ids, symbol)
+    await client.cancelOrders(ids, symbol);
+  }
+
+  public async flashClosePositions(client: any, symbol: string): Promise<void> {
+    // Bitget 闪电平仓接口映射
+    await client.privatePostMixOrderFlashClosePositions({
+      symbol: client.market(symbol).id,
+    });
+  }
+
+  public normalizeError(error: any): NormalizedErrorCode | null {
+    const message: string = error?.message || "";
+    if (message.includes("Post only order") || message.includes("post_only")) {
+      return "POST_ONLY_REJECTED";
+    }
+    if (message.includes("22002") || message.includes("No position")) {
+      return "NO_POSITION";
+    }
+    if (
+      error?.name === "DuplicateOrderId" ||
+      (/duplicate/i.test(message) && /clientOid/i.test(message))
+    ) {
+      return "DUPLICATE_CLIENT_ORDER_ID";
+    }
+    if (error?.name === "RequestTimeout") {
+      return "TIMEOUT";
+    }
+    return null;
+  }
+}
@@ -0,0 +1,29 @@
+import { ExchangeAdapter } from "../../types/exchange";
+import { BitgetAdapter } from "./bitgetAdapter";
+import { BinanceUsdmAdapter } from "./binanceUsdmAdapter";
+
+// 已支持的交易所适配器注册表 (key 为 [[exchanges]] 中的 name)
+const ADAPTERS: Record<string, () => ExchangeAdapter> = {
+  bitget: () => new BitgetAdapter(),
+  binanceusdm: () => new BinanceUsdmAdapter(),
+};
+
+/**
+ * 获取已支持的交易所名称列表
+ */
+export function getSupportedExchanges(): string[] {
+  return Object.keys(ADAPTERS);
+}
+
+/**
+ * 根据交易所名称创建适配器
+ */
+export function createExchangeAdapter(name: string): ExchangeAdapter {
+  const factory = ADAPTERS[name];
+  if (!factory) {
+    throw new Error(
+      `不支持的交易所: ${name} (支持: ${getSupportedExchanges().join(", ")})`
+    );
+  }
+  return factory();
+}
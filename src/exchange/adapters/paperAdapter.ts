@@ -0,0 +1,112 @@
+import { ExchangeConfig, PaperConfig } from "../../types/config";
+import {
+  ExchangeAdapter,
+  NormalizedErrorCode,
+  OrderAction,
+  OrderRequest,
+  PositionSide,
+} from "../../types/exchange";
+import { PaperExchange } from "../paper/paperExchange";
+
+/**
+ * 纸面交易适配器 (mode = "paper")
+ * 订单参数使用 positionSide / tradeSide / postOnly 描述双向持仓动作
+ */
+export class PaperAdapter implements ExchangeAdapter {
+  public readonly name = "paper";
+  public readonly requiresPassword = false;
+
+  private paperConfig: PaperConfig;
+  private startPrices: Record<string, number>;
+
+  constructor(paperConfig: PaperConfig, startPrices: Record<string, number>) {
+    this.paperConfig = paperConfig;
+    this.startPrices = startPrices;
+  }
+
+  public createClient(_config?: ExchangeConfig): PaperExchange {
+    return new PaperExchange(this.paperConfig, this.startPrices);
+  }
+
+  public async setHedgeMode(client: any): Promise<void> {
+    await client.setPositionMode(true);
+  }
+
+  public async setLeverage(
+    client: any,
+    symbol: string,
+    leverage: number,
+    _positionSide: PositionSide
+  ): Promise<void> {
+    await client.setLeverage(leverage, symbol);
+  }
+
+  public async addMargin(
+    client: any,
+    symbol: string,
+    _positionSide: PositionSide,
+    amount: number
+  ): Promise<void> {
+    await client.addMargin(symbol, amount);
+  }
+
+  public buildOrderRequest(
+    symbol: string,
+    type: "limit" | "market",
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number | undefined,
+    postOnly: boolean,
+    clientOrderId?: string
+  ): OrderRequest {
+    const isBuy = (positionSide === "long") === (action === "open");
+    return {
+      symbol,
+      type,
+      side: isBuy ? "buy" : "sell",
+      amount,
+      price,
+      params: { positionSide, tradeSide: action, postOnly, clientOrderId },
+    };
+  }
+
+  public getOrderPositionSide(order: any): PositionSide {
+    return order.info.positionSide;
+  }
+
+  public getOrderAction(order: any): OrderAction {
+    return order.info.tradeSide;
+  }
+
+  public async createOrders(
+    client: any,
+    requests: OrderRequest[]
+  ): Promise<any[]> {
+    return client.createOrders(requests);
+  }
+
+  public async cancelOrders(
+    client: any,
+    ids: string[],
+    symbol: string
+  ): Promise<void> {
+    await client.cancelOrders(ids, symbol);
+  }
+
+  public async flashClosePositions(client: any, symbol: string): Promise<void> {
+    await client.flashClosePositions(symbol);
+  }
+
+  public normalizeError(error: any): NormalizedErrorCode | null {
+    const message: string = error?.message || "";
+    if (message.includes("Post only")) return "POST_ONLY_REJECTED";
+    if (message.includes("No position")) return "NO_POSITION";
+    if (message.includes("duplicate clientOrderId")) {
+      return "DUPLICATE_CLIENT_ORDER_ID";
+    }
+    // 纸面交易不会超时，这里识别的是回放日志中记录的 CCXT 超时错误
+    if (error?.name === "RequestTimeout") return "TIMEOUT";
+    return null;
+  }
+}
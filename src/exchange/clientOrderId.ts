@@ -0,0 +1,100 @@
+import { OrderAction, PositionSide } from "../types/exchange";
+
+/**
+ * 网格订单的 clientOrderId 编码
+ * 格式: g{策略标签}-{L|S}{刻度索引}{o|c}-{代次}，例如 g1k9x0a-L12o-3
+ * - 策略标签: 策略唯一标识的哈希 (6 位 base36)，用于识别本机器人各策略的订单
+ * - 代次: 同一刻度同一动作每次重新挂单时递增并持久化，重启后继续递增，避免与历史订单 ID 冲突；
+ *   超时重试 (包括重启后) 沿用同一代次，由交易所去重
+ * 总长度不超过 36 个字符 (Binance newClientOrderId 上限)；旧版本带会话段的 ID 仍可解析
+ */
+export interface GridClientOrderId {
+  strategyTag: string;
+  positionSide: PositionSide;
+  levelIndex: number;
+  action: OrderAction;
+  generation: number;
+}
+
+// 旧版本格式在刻度与代次之间多一个会话段 (启动时间)
+const CLIENT_ORDER_ID_PATTERN =
+  /^g([0-9a-z]{6})-([LS])(\d+)([oc])(?:-[0-9a-z]+)?-([0-9a-z]+)$/;
+
+/**
+ * 计算策略标签 (FNV-1a 32 位哈希)
+ * @param strategyKey 策略唯一标识，例如 SOL/USDT:USDT_LONG
+ */
+export function getStrategyTag(strategyKey: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < strategyKey.length; i++) {
+    hash ^= strategyKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36).padStart(7, "0").slice(-6);
+}
+
+export function buildClientOrderId(id: GridClientOrderId): string {
+  return [
+    `g${id.strategyTag}`,
+    `${id.positionSide === "long" ? "L" : "S"}${id.levelIndex}${
+      id.action === "open" ? "o" : "c"
+    }`,
+    id.generation.toString(36),
+  ].join("-");
+}
+
+/**
+ * 解析 clientOrderId，非网格订单 (手动单、其它程序的订单) 返回 null
+ */
+export function parseClientOrderId(
+  clientOrderId: string | undefined | null
+): GridClientOrderId | null {
+  const match = CLIENT_ORDER_ID_PATTERN.exec(clientOrderId || "");
+  if (!match) return null;
+  return {
+    strategyTag: match[1],
+    positionSide: match[2] === "L" ? "long" : "short",
+    levelIndex: parseInt(match[3]),
+    action: match[4] === "o" ? "open" : "close",
+    generation: parseInt(match[5], 36),
+  };
+}
+
+/**
+ * 底仓限价阶梯挂单的 clientOrderId 编码
+ * 格式: g{策略标签}-{L|S}e{阶梯序号}-{代次}，例如 g1k9x0a-Le1-2
+ * 不对应网格刻度，parseClientOrderId 不识别，成交不触发网格联动
+ */
+export interface EntryClientOrderId {
+  strategyTag: string;
+  positionSide: PositionSide;
+  sliceIndex: number;
+  generation: number;
+}
+
+const ENTRY_CLIENT_ORDER_ID_PATTERN =
+  /^g([0-9a-z]{6})-([LS])e(\d+)-([0-9a-z]+)$/;
+
+export function buildEntryClientOrderId(id: EntryClientOrderId): string {
+  return [
+    `g${id.strategyTag}`,
+    `${id.positionSide === "long" ? "L" : "S"}e${id.sliceIndex}`,
+    id.generation.toString(36),
+  ].join("-");
+}
+
+/**
+ * 解析底仓阶梯挂单的 clientOrderId，其它订单返回 null
+ */
+export function parseEntryClientOrderId(
+  clientOrderId: string | undefined | null
+): EntryClientOrderId | null {
+  const match = ENTRY_CLIENT_ORDER_ID_PATTERN.exec(clientOrderId || "");
+  if (!match) return null;
+  return {
+    strategyTag: match[1],
+    positionSide: match[2] === "L" ? "long" : "short",
+    sliceIndex: parseInt(match[3]),
+    generation: parseInt(match[4], 36),
+  };
+}
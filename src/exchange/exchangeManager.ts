@@ -1,43 +1,79 @@
 import * as ccxt from "ccxt";
 import { ConfigLoader } from "../config/configLoader";
 import { logger } from "../utils/logger";
+import { ExchangeAdapter, ExchangeConnection } from "../types/exchange";
+import { createExchangeAdapter } from "./adapters";
+import { PaperAdapter } from "./adapters/paperAdapter";
+import { DEFAULT_PAPER_CONFIG } from "./paper/paperExchange";
+import { AppConfig, PaperConfig } from "../types/config";
+import { JournalRecorder } from "../replay/journalRecorder";
 
 /**
  * 交易所管理类，负责初始化连接和持仓模式设置
  */
-export class ExchangeManager {
+export class ExchangeManager implements ExchangeConnection {
   private static instance: ExchangeManager;
   // CCXT Pro 的实例类型可以通过 InstanceType 获取，或者直接使用 any 简化
   public client: any;
+  // 当前交易所的适配器，封装各交易所的下单/撤单/平仓差异
+  public adapter: ExchangeAdapter;
 
   private constructor() {
     const config = ConfigLoader.getInstance().getConfig();
-    const exchangeConfig = config.exchanges.find(e => e.name === "bitget");
 
-    if (!exchangeConfig) {
-      throw new Error("未在配置中找到 Bitget 交易所配置");
+    if (config.mode === "paper") {
+      // 纸面交易模式：使用本地撮合引擎，无需网络与 API Key
+      this.adapter = ExchangeManager.createPaperAdapter(config);
+      this.client = this.adapter.createClient({ name: "paper", enable: true });
+      logger.info("已开启本地纸面交易模式 (Paper Trading)");
+    } else {
+      // 使用第一个启用的交易所配置
+      const exchangeConfig = config.exchanges.find(e => e.enable);
+
+      if (!exchangeConfig) {
+        throw new Error("未在配置中找到启用的交易所配置");
+      }
+
+      this.adapter = createExchangeAdapter(exchangeConfig.name);
+      // 初始化 CCXT Pro 实例
+      this.client = this.adapter.createClient(exchangeConfig);
+
+      // 处理模拟盘 URL
+      if (config.mode === "simulation") {
+        this.client.setSandboxMode(true);
+        logger.info(`已开启 ${exchangeConfig.name} 模拟盘模式`);
+      }
+    }
+
+    // 会话记录：记录所有推送与 REST 响应，供事后确定性回放
+    if (config.recorder?.enable) {
+      const recorder = new JournalRecorder(
+        config.recorder.dir || "journal",
+        this.adapter.name,
+        this.client.precisionMode,
+        config
+      );
+      this.client = recorder.wrap(this.client);
+      logger.info(`[Recorder] 会话记录已开启: ${recorder.getFilePath()}`);
     }
+  }
 
-    // 初始化 CCXT Pro 实例
-    // 使用 new ccxt.pro.bitget() 创建实例
-    this.client = new ccxt.pro.bitget({
-      apiKey: exchangeConfig.apiKey,
-      secret: exchangeConfig.secret,
-      password: exchangeConfig.password,
-      enableRateLimit: true,
-      options: {
-        defaultType: "swap", // 设置为合约模式
-        adjustForTimeDifference: true,
-        newUpdates: true, // 启用增量更新模式，这对 watchOrders 至关重要
-        ...exchangeConfig.options,
-      },
-    });
-
-    // 处理模拟盘 URL
-    if (config.mode === "simulation") {
-      this.client.setSandboxMode(true);
-      logger.info("已开启 Bitget 模拟盘模式");
+  /**
+   * 构建纸面交易适配器，未配置起始价格的交易对取策略区间中点
+   */
+  private static createPaperAdapter(config: AppConfig): PaperAdapter {
+    const paperConfig: PaperConfig = {
+      ...DEFAULT_PAPER_CONFIG,
+      ...config.paper,
+    };
+    const startPrices: Record<string, number> = {};
+    for (const strat of config.strategies) {
+      if (startPrices[strat.symbol] !== undefined) continue;
+      startPrices[strat.symbol] =
+        paperConfig.start_prices?.[strat.symbol] ??
+        (strat.upperPrice + strat.lowerPrice) / 2;
     }
+    return new PaperAdapter(paperConfig, startPrices);
   }
 
   public static getInstance(): ExchangeManager {
@@ -52,7 +88,7 @@ export class ExchangeManager {
    */
   public async initConnection(): Promise<void> {
     try {
-      logger.info("正在连接 Bitget 交易所...");
+      logger.info(`正在连接 ${this.adapter.name} 交易所...`);
 
       // 1. 加载市场
       await this.client.loadMarkets();
@@ -60,20 +96,10 @@ export class ExchangeManager {
 
       // 2. 检查并设置持仓模式为双向持仓 (Hedge Mode)
       try {
-        // Bitget setPositionMode(true) 为双向持仓
-        await this.client.setPositionMode(true);
-        logger.info("双向持仓模式 (Hedge Mode) 设置成功");
+        await this.adapter.setHedgeMode(this.client);
       } catch (e: any) {
-        // 如果报错内容提示已经是该模式，则忽略
-        if (
-          e.message.includes("already") ||
-          e.message.includes("not modified")
-        ) {
-          logger.info("持仓模式已经是双向持仓，无需修改");
-        } else {
-          logger.error(`设置持仓模式失败: ${e.message}`);
-          throw e;
-        }
+        logger.error(`设置持仓模式失败: ${e.message}`);
+        throw e;
       }
 
       // 3. 验证连接 (获取余额)
@@ -107,20 +133,9 @@ export class ExchangeManager {
     // 取决于 precisionMode。但通常 safe way 是看 precision.price
     // 如果是 bitget，通常是小数形式的 tickSize
     // 为了稳健，我们可以检查一下
-    const pricePrecision = market.precision.price;
-
-    if (typeof pricePrecision === "number") {
-      const mode = this.client.precisionMode;
-      // CCXT constants are not exported in types, so we cast or use values
-      // TICK_SIZE = 4, DECIMAL_PLACES = 2, SIGNIFICANT_DIGITS = 3
-      if (mode === (ccxt as any).TICK_SIZE) {
-        return pricePrecision;
-      } else if (mode === (ccxt as any).DECIMAL_PLACES) {
-        return Math.pow(10, -pricePrecision);
-      } else if (mode === (ccxt as any).SIGNIFICANT_DIGITS) {
-        // 这种情况比较少见用于 crypto spot/swap price
-        return 0.00000001; // Fallback
-      }
+    const pricePrecision = this.precisionToStep(market.precision.price);
+    if (pricePrecision !== null) {
+      return pricePrecision;
     }
 
     // 如果上面都没匹配，尝试直接读 info (Bitget 原生字段)
@@ -132,4 +147,32 @@ export class ExchangeManager {
     // Fallback default
     return 0.00000001;
   }
+
+  /**
+   * 获取下单数量最小步长 (无法识别时返回 0，即不按步长取整)
+   */
+  public getAmountStep(symbol: string): number {
+    const market = this.getMarket(symbol);
+    return this.precisionToStep(market.precision.amount) ?? 0;
+  }
+
+  /**
+   * 按 precisionMode 将 CCXT 精度转换为最小步长
+   */
+  private precisionToStep(precision: any): number | null {
+    if (typeof precision !== "number") return null;
+
+    const mode = this.client.precisionMode;
+    // CCXT constants are not exported in types, so we cast or use values
+    // TICK_SIZE = 4, DECIMAL_PLACES = 2, SIGNIFICANT_DIGITS = 3
+    if (mode === (ccxt as any).TICK_SIZE) {
+      return precision;
+    } else if (mode === (ccxt as any).DECIMAL_PLACES) {
+      return Math.pow(10, -precision);
+    } else if (mode === (ccxt as any).SIGNIFICANT_DIGITS) {
+      // 这种情况比较少见用于 crypto spot/swap price
+      return 0.00000001; // Fallback
+    }
+    return null;
+  }
 }
@@ -1,26 +1,158 @@
+import * as fs from "fs";
+import * as path from "path";
 import { ExchangeManager } from "./exchangeManager";
-import { GridDirection } from "../types/grid";
-import { logger } from "../utils/logger";
+import { GridDirection, GridOrderTarget, StrategyRef } from "../types/grid";
+import { Logger, logger } from "../utils/logger";
+import { writeFileAtomic } from "../utils/atomicFile";
+import { getStrategyId } from "../config/strategyConfig";
+import { DEFAULT_STATE_DIR } from "../logic/gridContext";
+import {
+  ExchangeConnection,
+  OrderRequest,
+  PositionSide,
+} from "../types/exchange";
+import {
+  buildClientOrderId,
+  buildEntryClientOrderId,
+  getStrategyTag,
+  parseClientOrderId,
+  parseEntryClientOrderId,
+} from "./clientOrderId";
 
 /**
  * 订单执行引擎
- * 专门处理 Bitget 合约在双向持仓模式下的下单逻辑
+ * 处理合约在双向持仓模式下的下单逻辑，交易所差异由 ExchangeAdapter 屏蔽
  */
 export class OrderExecutor {
-  private exchange: ExchangeManager;
-  // 本地订单缓存：StratKey -> Set<OrderID>
+  private exchange: ExchangeConnection;
+  private logger: Logger;
+  // 本地订单缓存：策略 ID -> Set<OrderID>
   // 用于辅助 syncActiveOrders，防止在并发极高时重复挂单
   private localOrderCache: Record<string, Set<string>> = {};
+  // 每个 策略+刻度+动作 最近一次使用的 clientOrderId 与代次
+  private issuedIds: Record<string, { id: string; generation: number }> = {};
+  // 已发出但交易所尚未明确响应 (超时或进程中断) 的 clientOrderId，重试时沿用以便交易所去重
+  private unconfirmedIds: Set<string> = new Set();
+  // 代次与未确认 ID 的持久化文件，重启后继续使用
+  private idFilePath: string;
 
-  constructor() {
-    this.exchange = ExchangeManager.getInstance();
+  /**
+   * @param exchange 交易所连接 (默认使用全局 ExchangeManager)
+   * @param log 日志实例 (默认使用全局 logger)
+   * @param stateDir clientOrderId 代次记录所在目录
+   */
+  constructor(
+    exchange: ExchangeConnection = ExchangeManager.getInstance(),
+    log: Logger = logger,
+    stateDir: string = DEFAULT_STATE_DIR
+  ) {
+    this.exchange = exchange;
+    this.logger = log;
+    this.idFilePath = path.join(stateDir, "client_order_ids.json");
+    this.loadIssuedIds();
+  }
+
+  /**
+   * 判断订单是否属于指定策略 (通过 clientOrderId 中的策略标签识别)
+   */
+  public isStrategyOrder(order: any, strategy: StrategyRef): boolean {
+    const parsed = parseClientOrderId(order.clientOrderId);
+    return (
+      parsed !== null &&
+      parsed.strategyTag === getStrategyTag(getStrategyId(strategy))
+    );
+  }
+
+  /**
+   * 判断订单是否为指定策略的底仓阶梯挂单
+   */
+  public isEntryOrder(order: any, strategy: StrategyRef): boolean {
+    const parsed = parseEntryClientOrderId(order.clientOrderId);
+    return (
+      parsed !== null &&
+      parsed.strategyTag === getStrategyTag(getStrategyId(strategy))
+    );
+  }
+
+  /**
+   * 为底仓阶梯挂单分配 clientOrderId (每次建仓使用新的代次)
+   * @param sliceIndex 阶梯序号
+   */
+  public nextEntryClientOrderId(
+    strategy: StrategyRef,
+    sliceIndex: number
+  ): string {
+    const cacheKey = getStrategyId(strategy);
+    const positionSide = this.getPositionSide(strategy.direction);
+    const key = `${cacheKey}_entry${sliceIndex}_${positionSide}`;
+    const issued = this.issuedIds[key];
+    const generation = issued ? issued.generation + 1 : 0;
+    const id = buildEntryClientOrderId({
+      strategyTag: getStrategyTag(cacheKey),
+      positionSide,
+      sliceIndex,
+      generation,
+    });
+    this.issuedIds[key] = { id, generation };
+    this.saveIssuedIds();
+    return id;
+  }
+
+  /**
+   * 为目标挂单分配 clientOrderId
+   * 上次下单超时且未确认时沿用同一 ID，否则使用新的代次
+   */
+  private nextClientOrderId(
+    strategy: StrategyRef,
+    target: GridOrderTarget
+  ): string {
+    const cacheKey = getStrategyId(strategy);
+    const positionSide = this.getTargetPositionSide(
+      strategy.direction,
+      target
+    );
+    const key = `${cacheKey}_${target.levelIndex}_${positionSide}_${target.action}`;
+    const issued = this.issuedIds[key];
+    if (issued && this.unconfirmedIds.has(issued.id)) {
+      return issued.id;
+    }
+
+    const generation = issued ? issued.generation + 1 : 0;
+    const id = buildClientOrderId({
+      strategyTag: getStrategyTag(cacheKey),
+      positionSide,
+      levelIndex: target.levelIndex,
+      action: target.action,
+      generation,
+    });
+    this.issuedIds[key] = { id, generation };
+    return id;
   }
 
   /**
-   * 获取策略缓存 Key
+   * 策略方向 -> 持仓方向
    */
-  private getCacheKey(symbol: string, direction: GridDirection): string {
-    return `${symbol}_${direction}`;
+  private getPositionSide(direction: GridDirection): PositionSide {
+    return direction === GridDirection.LONG ? "long" : "short";
+  }
+
+  /**
+   * 策略方向 -> 可能出现的持仓方向 (中性网格两侧都有)
+   */
+  public getPositionSides(direction: GridDirection): PositionSide[] {
+    return direction === GridDirection.NEUTRAL
+      ? ["long", "short"]
+      : [this.getPositionSide(direction)];
+  }
+
+  /**
+   * 目标挂单的持仓方向 (目标未指定时由策略方向决定)
+   */
+  private getTargetPositionSide(
+    direction: GridDirection,
+    target: GridOrderTarget
+  ): PositionSide {
+    return target.positionSide || this.getPositionSide(direction);
   }
 
   /**
@@ -30,70 +162,56 @@ export class OrderExecutor {
    * @param amount 下单数量
    * @param direction 策略方向 (LONG/SHORT)
    * @param action 操作类型 (open/close)
+   * @param clientOrderId 自定义订单 ID
    */
   public async placeGridOrder(
     symbol: string,
     price: number,
     amount: number,
     direction: GridDirection,
-    action: "open" | "close"
+    action: "open" | "close",
+    clientOrderId?: string
   ) {
-    /**
-     * Bitget Hedge Mode (双向持仓) 映射规则说明:
-     * 1. side 参数代表持仓方向 (Position Side):
-     *    - 操作多头仓位 (Long Position): side 永远是 'buy'
-     *    - 操作空头仓位 (Short Position): side 永远是 'sell'
-     * 2. tradeSide 参数代表开平仓方向:
-     *    - 开仓: 'open'
-     *    - 平仓: 'close'
-     * 3. Post Only: 强制 Maker，使用 timeInForce: 'post_only'
-     */
-
-    let side: "buy" | "sell";
-    if (direction === GridDirection.LONG) {
-      side = "buy";
-    } else {
-      side = "sell";
-    }
-
-    const params = {
-      tradeSide: action,
-      timeInForce: "post_only", // 确保是 Maker 挂单
-    };
+    const adapter = this.exchange.adapter;
+    const request = adapter.buildOrderRequest(
+      symbol,
+      "limit",
+      this.getPositionSide(direction),
+      action,
+      amount,
+      price,
+      true, // 确保是 Maker 挂单
+      clientOrderId
+    );
 
     try {
-      logger.info(
+      this.logger.info(
         `[OrderExecutor] 尝试挂单: ${symbol} | 方向: ${direction} | 动作: ${action} | 价格: ${price} | 数量: ${amount}`
       );
 
       const order = await this.exchange.client.createOrder(
-        symbol,
-        "limit",
-        side,
-        amount,
-        price,
-        params
+        request.symbol,
+        request.type,
+        request.side,
+        request.amount,
+        request.price,
+        request.params
       );
 
-      logger.info(`[OrderExecutor] 挂单成功: ID ${order.id}`);
+      this.logger.info(`[OrderExecutor] 挂单成功: ID ${order.id}`);
       return order;
     } catch (error: any) {
+      const code = adapter.normalizeError(error);
       // 捕获 Post Only 导致的立即成交取消错误
-      if (
-        error.message.includes("Post only order") ||
-        error.message.includes("post_only")
-      ) {
-        logger.warn(
+      if (code === "POST_ONLY_REJECTED") {
+        this.logger.warn(
           `[OrderExecutor] Post Only 挂单被取消 (价格可能已穿过): ${error.message}`
         );
         return null;
       }
-      logger.error(`[OrderExecutor] 下单失败: ${error.message}`);
+      this.logger.error(`[OrderExecutor] 下单失败: ${error.message}`);
       // 抛出特定错误码，以便上层逻辑处理
-      if (
-        error.message.includes("22002") ||
-        error.message.includes("No position to close")
-      ) {
+      if (code === "NO_POSITION") {
         error.code = "NO_POSITION";
       }
       throw error;
@@ -109,42 +227,139 @@ export class OrderExecutor {
     amount: number
   ) {
     // 市价单，假设是开仓 (Initial Position)
-    // Bitget Hedge Mode 需要 tradeSide
-    const params = {
-      tradeSide: "open",
-    };
+    const request = this.exchange.adapter.buildOrderRequest(
+      symbol,
+      "market",
+      side === "buy" ? "long" : "short",
+      "open",
+      amount,
+      undefined,
+      false
+    );
 
     try {
-      logger.info(
+      this.logger.info(
         `[OrderExecutor] 执行市价建仓: ${symbol} | Side: ${side} | 数量: ${amount}`
       );
       const order = await this.exchange.client.createOrder(
-        symbol,
-        "market",
-        side,
-        amount,
+        request.symbol,
+        request.type,
+        request.side,
+        request.amount,
         undefined, // Price undefined for market
-        params
+        request.params
       );
-      logger.info(`[OrderExecutor] 市价建仓成功: ID ${order.id}`);
+      this.logger.info(`[OrderExecutor] 市价建仓成功: ID ${order.id}`);
       return order;
     } catch (error: any) {
-      logger.error(`[OrderExecutor] 市价建仓失败: ${error.message}`);
+      this.logger.error(`[OrderExecutor] 市价建仓失败: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * 撤销指定交易对的所有活跃订单
+   * 市价平掉指定方向的部分仓位 (用于网格平移时处理移出刻度上的持仓)
+   */
+  public async placeMarketClose(
+    symbol: string,
+    positionSide: PositionSide,
+    amount: number
+  ) {
+    const request = this.exchange.adapter.buildOrderRequest(
+      symbol,
+      "market",
+      positionSide,
+      "close",
+      amount,
+      undefined,
+      false
+    );
+
+    try {
+      this.logger.info(
+        `[OrderExecutor] 执行市价平仓: ${symbol} | 持仓方向: ${positionSide} | 数量: ${amount}`
+      );
+      const order = await this.exchange.client.createOrder(
+        request.symbol,
+        request.type,
+        request.side,
+        request.amount,
+        undefined,
+        request.params
+      );
+      this.logger.info(`[OrderExecutor] 市价平仓成功: ID ${order.id}`);
+      return order;
+    } catch (error: any) {
+      this.logger.error(`[OrderExecutor] 市价平仓失败: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * 撤销指定策略的挂单 (只处理本策略 clientOrderId 标记的订单，保留手动单与其它程序的订单)
+   */
+  public async cancelStrategyOrders(strategy: StrategyRef) {
+    const { symbol } = strategy;
+    const strategyId = getStrategyId(strategy);
+    try {
+      const openOrders = await this.exchange.client.fetchOpenOrders(symbol);
+      const ids = openOrders
+        .filter((o: any) => this.isStrategyOrder(o, strategy))
+        .map((o: any) => o.id);
+      if (ids.length === 0) return;
+
+      this.logger.info(
+        `[OrderExecutor] 正在撤销 [${strategyId}] 的 ${ids.length} 笔网格挂单...`
+      );
+      await this.exchange.adapter.cancelOrders(
+        this.exchange.client,
+        ids,
+        symbol
+      );
+      this.logger.info(`[OrderExecutor] [${strategyId}] 网格挂单已撤销`);
+    } catch (error: any) {
+      this.logger.error(`[OrderExecutor] 撤销订单失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 撤销指定策略遗留的底仓阶梯挂单 (建仓过程中进程中断时留下)
+   */
+  public async cancelEntryOrders(strategy: StrategyRef) {
+    const { symbol } = strategy;
+    const strategyId = getStrategyId(strategy);
+    try {
+      const openOrders = await this.exchange.client.fetchOpenOrders(symbol);
+      const ids = openOrders
+        .filter((o: any) => this.isEntryOrder(o, strategy))
+        .map((o: any) => o.id);
+      if (ids.length === 0) return;
+
+      this.logger.warn(
+        `[OrderExecutor] 撤销 [${strategyId}] 上次运行遗留的 ${ids.length} 笔底仓建仓挂单`
+      );
+      await this.exchange.adapter.cancelOrders(
+        this.exchange.client,
+        ids,
+        symbol
+      );
+    } catch (error: any) {
+      this.logger.error(
+        `[OrderExecutor] 撤销底仓建仓挂单失败: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * 撤销指定交易对的所有活跃订单 (包括非本程序的订单)
    */
   public async cancelAllOrders(symbol: string) {
     try {
-      logger.info(`[OrderExecutor] 正在撤销 ${symbol} 的所有挂单...`);
-      // Bitget 支持批量撤单，ccxt 封装了 cancelAllOrders
+      this.logger.info(`[OrderExecutor] 正在撤销 ${symbol} 的所有挂单...`);
       await this.exchange.client.cancelAllOrders(symbol);
-      logger.info(`[OrderExecutor] ${symbol} 所有挂单已撤销`);
+      this.logger.info(`[OrderExecutor] ${symbol} 所有挂单已撤销`);
     } catch (error: any) {
-      logger.error(`[OrderExecutor] 撤销订单失败: ${error.message}`);
+      this.logger.error(`[OrderExecutor] 撤销订单失败: ${error.message}`);
       // 撤单失败通常不阻塞后续逻辑，记录错误即可
     }
   }
@@ -155,35 +370,36 @@ export class OrderExecutor {
    */
   public async flashClosePositions(symbol: string) {
     try {
-      logger.info(`[OrderExecutor] 正在对 ${symbol} 执行闪电平仓...`);
-      // Bitget 闪电平仓接口映射
-      await this.exchange.client.privatePostMixOrderFlashClosePositions({
-        symbol: this.exchange.getMarket(symbol).id,
-      });
-      logger.info(`[OrderExecutor] ${symbol} 闪电平仓指令已发送`);
+      this.logger.info(`[OrderExecutor] 正在对 ${symbol} 执行闪电平仓...`);
+      await this.exchange.adapter.flashClosePositions(
+        this.exchange.client,
+        symbol
+      );
+      this.logger.info(`[OrderExecutor] ${symbol} 闪电平仓指令已发送`);
     } catch (error: any) {
       // 如果报错是因为本来就没仓位，可以忽略
-      if (error.message.includes("No position")) {
-        logger.info(`[OrderExecutor] ${symbol} 无需平仓 (无活跃仓位)`);
+      if (this.exchange.adapter.normalizeError(error) === "NO_POSITION") {
+        this.logger.info(`[OrderExecutor] ${symbol} 无需平仓 (无活跃仓位)`);
       } else {
-        logger.error(`[OrderExecutor] 闪电平仓失败: ${error.message}`);
+        this.logger.error(`[OrderExecutor] 闪电平仓失败: ${error.message}`);
       }
     }
   }
 
   /**
    * 同步活跃订单：精细化同步，优先使用 editOrder 减少 API 调用
-   * @param symbol 交易对
-   * @param direction 策略方向
+   * @param strategy 策略 (交易对、方向与唯一标识)
    * @param targetLevels 目标挂单刻度
+   * @returns 同步后本策略的活跃挂单 (同步失败时返回 null)
    */
   public async syncActiveOrders(
-    symbol: string,
-    direction: GridDirection,
-    targetLevels: { price: number; amount: number; action: "open" | "close" }[]
-  ) {
+    strategy: StrategyRef,
+    targetLevels: GridOrderTarget[]
+  ): Promise<any[] | null> {
+    const adapter = this.exchange.adapter;
+    const { symbol, direction } = strategy;
     try {
-      const cacheKey = this.getCacheKey(symbol, direction);
+      const cacheKey = getStrategyId(strategy);
       if (!this.localOrderCache[cacheKey]) {
         this.localOrderCache[cacheKey] = new Set();
       }
@@ -191,16 +407,18 @@ export class OrderExecutor {
       // 1. 获取当前所有挂单
       const openOrders = await this.exchange.client.fetchOpenOrders(symbol);
 
-      // 2. 筛选出属于当前策略方向的订单
-      // 在 Bitget API 响应中，posSide 明确标识了持仓方向 ('long' 或 'short')
-      const currentStrategyOrders = openOrders.filter((o: any) => {
-        const targetPosSide =
-          direction === GridDirection.LONG ? "long" : "short";
-        // 兼容处理：Bitget 的 posSide 字段通常在 o.info 中
-        const orderPosSide =
-          o.info.posSide || (o.side === "buy" ? "long" : "short");
-        return orderPosSide === targetPosSide;
-      });
+      // 2. 筛选出属于当前策略的订单 (clientOrderId 标记)，手动单与其它程序的订单不做处理
+      const posSides = this.getPositionSides(direction);
+      const currentStrategyOrders = openOrders.filter(
+        (o: any) =>
+          this.isStrategyOrder(o, strategy) &&
+          posSides.includes(adapter.getOrderPositionSide(o))
+      );
+      let confirmed = false;
+      for (const o of currentStrategyOrders) {
+        if (this.unconfirmedIds.delete(o.clientOrderId)) confirmed = true;
+      }
+      if (confirmed) this.saveIssuedIds();
 
       // 2.5 同步本地缓存（移除那些已经不在 fetchOpenOrders 里的订单）
       const remoteIds = new Set(currentStrategyOrders.map((o: any) => o.id));
@@ -211,25 +429,41 @@ export class OrderExecutor {
       }
 
       // 3. 增量同步逻辑
-      const ordersToKeep: any[] = [];
-      const targetsToPlace: any[] = [];
+      // 部分成交的订单始终保留，避免撤单后留下没有平仓单覆盖的持仓
+      const ordersToKeep: any[] = currentStrategyOrders.filter(
+        (o: any) => parseFloat(o.filled) > 0
+      );
+      const targetsToPlace: GridOrderTarget[] = [];
 
       for (const target of targetLevels) {
         const existingOrder = currentStrategyOrders.find((o: any) => {
+          const parsed = parseClientOrderId(o.clientOrderId)!;
           const priceMatch =
             Math.abs(parseFloat(o.price) - target.price) < 0.00000001;
-          const actionMatch = o.info.tradeSide === target.action;
-          return priceMatch && actionMatch;
+          // 数量变化 (平仓单按实际成交量调整) 时重新挂单，部分成交的订单不调整
+          const amountMatch =
+            parseFloat(o.filled) > 0 ||
+            Math.abs(parseFloat(o.amount) - target.amount) < 0.00000001;
+          return (
+            priceMatch &&
+            amountMatch &&
+            parsed.levelIndex === target.levelIndex &&
+            parsed.action === target.action &&
+            parsed.positionSide ===
+              this.getTargetPositionSide(direction, target)
+          );
         });
         if (existingOrder) {
-          ordersToKeep.push(existingOrder);
+          if (!ordersToKeep.includes(existingOrder)) {
+            ordersToKeep.push(existingOrder);
+          }
         } else {
           targetsToPlace.push(target);
         }
       }
 
       // 4. 准备批量操作队列
-      const batchCreates: any[] = [];
+      const batchCreates: OrderRequest[] = [];
       const ordersToCancel: string[] = [];
 
       // 所有不在“保留列表”中的旧单都需要撤销
@@ -242,26 +476,33 @@ export class OrderExecutor {
 
       // 所有“待下单”的目标都需要批量创建
       for (const target of targetsToPlace) {
-        batchCreates.push({
-          symbol: symbol,
-          type: "limit",
-          side: direction === GridDirection.LONG ? "buy" : "sell",
-          amount: target.amount,
-          price: target.price,
-          params: { tradeSide: target.action, timeInForce: "post_only" },
-        });
+        batchCreates.push(
+          adapter.buildOrderRequest(
+            symbol,
+            "limit",
+            this.getTargetPositionSide(direction, target),
+            target.action,
+            target.amount,
+            target.price,
+            true,
+            this.nextClientOrderId(strategy, target)
+          )
+        );
       }
 
-      // 5. 执行批量撤单 (Bitget 批量接口)
+      // 5. 执行批量撤单
       if (ordersToCancel.length > 0) {
-        logger.info(
+        this.logger.info(
           `[OrderExecutor] 批量撤销订单: ${ordersToCancel.length} 笔`
         );
         try {
-          // Bitget 批量撤单接口：cancelOrders(ids, symbol)
-          await this.exchange.client.cancelOrders(ordersToCancel, symbol);
+          await adapter.cancelOrders(
+            this.exchange.client,
+            ordersToCancel,
+            symbol
+          );
         } catch (e: any) {
-          logger.warn(
+          this.logger.warn(
             `[OrderExecutor] 批量撤单失败，回退到循环单笔: ${e.message}`
           );
           for (const id of ordersToCancel) {
@@ -270,34 +511,158 @@ export class OrderExecutor {
         }
       }
 
-      // 6. 执行批量创建 (Bitget Batch Create)
+      // 6. 执行批量创建
+      let createdOrders: any[] = [];
       if (batchCreates.length > 0) {
-        logger.info(`[OrderExecutor] 批量创建订单: ${batchCreates.length} 笔`);
-        try {
-          const newOrders = await this.exchange.client.createOrders(
-            batchCreates
-          );
-          // 将新创建的订单 ID 加入缓存
-          if (Array.isArray(newOrders)) {
-            for (const o of newOrders) {
-              this.localOrderCache[cacheKey].add(o.id);
-            }
-          }
-        } catch (e: any) {
-          logger.error(`[OrderExecutor] 批量创建失败: ${e.message}`);
-          // 捕获“无仓位”等特定错误并上抛
-          if (
-            e.message.includes("22002") ||
-            e.message.includes("No position to close")
-          ) {
-            const err: any = new Error(e.message);
-            err.code = "NO_POSITION";
-            throw err;
+        this.logger.info(`[OrderExecutor] 批量创建订单: ${batchCreates.length} 笔`);
+        createdOrders = await this.createOrdersWithRetry(
+          cacheKey,
+          batchCreates
+        );
+      }
+      return [...ordersToKeep, ...createdOrders];
+    } catch (error: any) {
+      // 无仓位错误需要上抛给 BotEngine 禁用平仓挂单后重试
+      if (error.code === "NO_POSITION") {
+        throw error;
+      }
+      this.logger.error(`[OrderExecutor] 同步订单失败: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * 批量创建订单
+   * 超时后使用相同的 clientOrderId 重试一次，已创建的订单会被交易所以重复 ID 拒绝
+   * @returns 确认创建成功的订单 (超时或重复时结果未知，返回空数组)
+   */
+  private async createOrdersWithRetry(
+    cacheKey: string,
+    requests: OrderRequest[]
+  ): Promise<any[]> {
+    const adapter = this.exchange.adapter;
+    const clientIds: string[] = requests
+      .map(r => r.params.clientOrderId)
+      .filter(id => !!id);
+    // 发出前记录为未确认，进程在请求途中退出时重启后仍沿用同一 ID
+    clientIds.forEach(id => this.unconfirmedIds.add(id));
+    this.saveIssuedIds();
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      let results: any;
+      try {
+        results = await adapter.createOrders(this.exchange.client, requests);
+      } catch (e: any) {
+        const code = adapter.normalizeError(e);
+        if (code === "TIMEOUT") {
+          if (attempt < 2) {
+            this.logger.warn(
+              `[OrderExecutor] 批量创建超时，使用相同 clientOrderId 重试: ${e.message}`
+            );
+            continue;
           }
+          this.logger.error(
+            `[OrderExecutor] 批量创建重试仍超时，下次同步将沿用相同 clientOrderId: ${e.message}`
+          );
+          return [];
+        }
+
+        this.confirmIds(clientIds);
+        if (code === "DUPLICATE_CLIENT_ORDER_ID") {
+          this.logger.info(
+            `[OrderExecutor] 订单已由超时前的请求创建 (clientOrderId 重复): ${e.message}`
+          );
+          return [];
         }
+
+        this.logger.error(`[OrderExecutor] 批量创建失败: ${e.message}`);
+        // 捕获“无仓位”等特定错误并上抛
+        if (code === "NO_POSITION") throw this.noPositionError(e.message);
+        return [];
       }
+
+      this.confirmIds(clientIds);
+      if (!Array.isArray(results)) return [];
+      // 批量结果逐笔返回，失败的订单没有 ID (status = rejected)
+      const newOrders = results.filter(
+        (o: any) => o?.id && o.status !== "rejected"
+      );
+      // 将新创建的订单 ID 加入缓存
+      for (const o of newOrders) {
+        this.localOrderCache[cacheKey].add(o.id);
+      }
+      this.handleRejectedOrders(
+        results.filter((o: any) => !newOrders.includes(o))
+      );
+      return newOrders;
+    }
+    return [];
+  }
+
+  /**
+   * 记录批量结果中被拒绝的订单，其中有“无仓位”错误时上抛 (已创建的订单已加入缓存)
+   */
+  private handleRejectedOrders(rejected: any[]): void {
+    let noPosition: string | null = null;
+    for (const o of rejected) {
+      const message = o?.info?.errorMsg || o?.info?.msg || "unknown error";
+      const code = this.exchange.adapter.normalizeError({ message });
+      if (code === "DUPLICATE_CLIENT_ORDER_ID") {
+        this.logger.info(
+          `[OrderExecutor] 订单已由超时前的请求创建 (clientOrderId 重复): ${o?.clientOrderId}`
+        );
+        continue;
+      }
+      this.logger.error(
+        `[OrderExecutor] 订单创建失败 (${o?.clientOrderId}): ${message}`
+      );
+      if (code === "NO_POSITION") noPosition = message;
+    }
+    if (noPosition !== null) throw this.noPositionError(noPosition);
+  }
+
+  /**
+   * 交易所已明确响应 (成功或拒绝)，之后重新挂单使用新的代次
+   */
+  private confirmIds(clientIds: string[]): void {
+    clientIds.forEach(id => this.unconfirmedIds.delete(id));
+    this.saveIssuedIds();
+  }
+
+  private loadIssuedIds(): void {
+    if (!fs.existsSync(this.idFilePath)) return;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.idFilePath, "utf-8"));
+      this.issuedIds = data.issued || {};
+      this.unconfirmedIds = new Set(data.unconfirmed || []);
+    } catch (error: any) {
+      this.logger.error(
+        `[OrderExecutor] 读取 clientOrderId 记录失败，代次从 0 开始: ${error.message}`
+      );
+    }
+  }
+
+  private saveIssuedIds(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.idFilePath), { recursive: true });
+      writeFileAtomic(
+        this.idFilePath,
+        JSON.stringify(
+          { issued: this.issuedIds, unconfirmed: [...this.unconfirmedIds] },
+          null,
+          2
+        )
+      );
     } catch (error: any) {
-      logger.error(`[OrderExecutor] 同步订单失败: ${error.message}`);
+      this.logger.error(
+        `[OrderExecutor] 保存 clientOrderId 记录失败: ${error.message}`
+      );
     }
   }
+
+  private noPositionError(message: string): Error {
+    const err: any = new Error(message);
+    err.code = "NO_POSITION";
+    return err;
+  }
 }
@@ -0,0 +1,724 @@
+import { PaperConfig } from "../../types/config";
+import { PositionSide } from "../../types/exchange";
+import { logger } from "../../utils/logger";
+import { clock } from "../../utils/clock";
+import { PriceFeed, RandomWalkFeed, ReplayFeed } from "./priceFeed";
+
+// 与 ccxt 的 precisionMode 常量保持一致 (TICK_SIZE = 4)
+const TICK_SIZE_MODE = 4;
+// 维持保证金率，用于估算强平价格
+const MAINTENANCE_MARGIN_RATE = 0.005;
+const EPSILON = 1e-9;
+
+export const DEFAULT_PAPER_CONFIG: PaperConfig = {
+  initial_balance: 10000,
+  maker_fee: 0.0002,
+  taker_fee: 0.0006,
+  tick_size: 0.01,
+  amount_step: 0.01,
+  feed: "random_walk",
+  tick_interval_ms: 1000,
+  volatility: 0.0005,
+};
+
+interface PaperPosition {
+  symbol: string;
+  side: PositionSide;
+  contracts: number;
+  entryPrice: number;
+  realizedPnl: number;
+}
+
+interface OrderWaiter {
+  key: string;
+  resolve: (orders: any[]) => void;
+}
+
+/**
+ * 本地纸面交易所 (进程内撮合引擎)
+ * 模拟 BotEngine / OrderExecutor 使用的 ccxt 客户端接口，
+ * 使用随机游走或回放价格撮合 Post Only 限价单，并维护双向持仓与手续费
+ */
+export class PaperExchange {
+  public readonly id = "paper";
+  public readonly precisionMode = TICK_SIZE_MODE;
+  public readonly has: Record<string, boolean> = {
+    createOrders: true,
+    cancelOrders: true,
+    fetchClosedOrders: true,
+    fetchLeverage: true,
+    fetchMyTrades: true,
+    watchOrders: true,
+    watchTicker: true,
+  };
+  public markets: Record<string, any> = {};
+
+  private config: PaperConfig;
+  private startPrices: Record<string, number>;
+  private cash: number;
+  private hedgeMode: boolean = false;
+  private orders: Map<string, any> = new Map();
+  private trades: any[] = [];
+  private positions: Map<string, PaperPosition> = new Map();
+  private prices: Map<string, number> = new Map();
+  private leverages: Record<string, number> = {};
+  private marginModes: Record<string, string> = {};
+  private timers: NodeJS.Timeout[] = [];
+  private orderSeq: number = 0;
+
+  // watchOrders 增量推送：更新日志 + 各订阅者游标
+  private orderLog: { seq: number; order: any }[] = [];
+  private orderLogSeq: number = 0;
+  private orderCursors: Map<string, number> = new Map();
+  private orderWaiters: OrderWaiter[] = [];
+  private tickerWaiters: Record<string, ((ticker: any) => void)[]> = {};
+
+  /**
+   * @param config 纸面交易配置 (feed = "manual" 时价格由外部通过 pushPrice 驱动)
+   * @param startPrices 各交易对的起始价格 (同时决定可交易的交易对)
+   */
+  constructor(config: PaperConfig, startPrices: Record<string, number>) {
+    this.config = config;
+    this.startPrices = startPrices;
+    this.cash = config.initial_balance;
+  }
+
+  // ========== 市场数据 ==========
+
+  public async loadMarkets(): Promise<Record<string, any>> {
+    for (const symbol of Object.keys(this.startPrices)) {
+      if (this.markets[symbol]) continue;
+
+      const [pair, settle] = symbol.split(":");
+      const [base, quote] = pair.split("/");
+      this.markets[symbol] = {
+        id: `${base}${quote}`,
+        symbol,
+        base,
+        quote,
+        settle: settle || quote,
+        type: "swap",
+        contract: true,
+        linear: true,
+        contractSize: 1,
+        precision: {
+          price: this.config.tick_size,
+          amount: this.config.amount_step,
+        },
+        limits: { amount: { min: this.config.amount_step } },
+        info: {},
+      };
+      this.prices.set(symbol, this.roundPrice(this.startPrices[symbol]));
+
+      if (this.config.feed !== "manual") {
+        this.startFeed(symbol);
+      }
+    }
+    return this.markets;
+  }
+
+  public market(symbol: string): any {
+    const market = this.markets[symbol];
+    if (!market) {
+      throw new Error(`paper does not have market symbol ${symbol}`);
+    }
+    return market;
+  }
+
+  public setSandboxMode(_enabled: boolean): void {
+    // 纸面交易无需切换环境
+  }
+
+  public async setPositionMode(hedged: boolean): Promise<void> {
+    this.hedgeMode = hedged;
+  }
+
+  public async setLeverage(leverage: number, symbol: string): Promise<void> {
+    this.market(symbol);
+    this.leverages[symbol] = leverage;
+  }
+
+  public async setMarginMode(marginMode: string, symbol: string): Promise<void> {
+    this.market(symbol);
+    this.marginModes[symbol] = marginMode;
+  }
+
+  public async addMargin(symbol: string, _amount: number): Promise<void> {
+    this.market(symbol);
+    // 强平价按杠杆估算，不模拟逐仓保证金
+    throw new Error(`paper does not support addMargin: ${symbol}`);
+  }
+
+  public async fetchLeverage(symbol: string): Promise<any> {
+    this.market(symbol);
+    const leverage = this.getLeverage(symbol);
+    return {
+      symbol,
+      marginMode: this.marginModes[symbol] || "cross",
+      longLeverage: leverage,
+      shortLeverage: leverage,
+      info: {},
+    };
+  }
+
+  public async fetchTicker(symbol: string): Promise<any> {
+    return this.buildTicker(symbol);
+  }
+
+  public async watchTicker(symbol: string): Promise<any> {
+    this.market(symbol);
+    return new Promise(resolve => {
+      if (!this.tickerWaiters[symbol]) {
+        this.tickerWaiters[symbol] = [];
+      }
+      this.tickerWaiters[symbol].push(resolve);
+    });
+  }
+
+  /**
+   * 推送新价格并撮合挂单 (定时器与回测共用)
+   */
+  public pushPrice(symbol: string, price: number): void {
+    this.market(symbol);
+    this.prices.set(symbol, this.roundPrice(price));
+    this.matchOrders(symbol);
+
+    const waiters = this.tickerWaiters[symbol] || [];
+    this.tickerWaiters[symbol] = [];
+    const ticker = this.buildTicker(symbol);
+    for (const resolve of waiters) {
+      resolve(ticker);
+    }
+  }
+
+  /**
+   * 停止价格推送定时器
+   */
+  public async close(): Promise<void> {
+    for (const timer of this.timers) {
+      clearInterval(timer);
+    }
+    this.timers = [];
+  }
+
+  // ========== 账户 ==========
+
+  public async fetchBalance(): Promise<any> {
+    let unrealized = 0;
+    let used = 0;
+    for (const position of this.positions.values()) {
+      if (position.contracts <= EPSILON) continue;
+      unrealized += this.getUnrealizedPnl(position);
+      used += this.getInitialMargin(position);
+    }
+    for (const order of this.orders.values()) {
+      if (order.status === "open" && order.info.tradeSide === "open") {
+        used += this.getOrderMargin(order);
+      }
+    }
+
+    const total = this.cash + unrealized;
+    const free = total - used;
+    return {
+      USDT: { free, used, total },
+      free: { USDT: free },
+      used: { USDT: used },
+      total: { USDT: total },
+      info: {},
+    };
+  }
+
+  public async fetchPositions(symbols?: string[]): Promise<any[]> {
+    const result: any[] = [];
+    for (const position of this.positions.values()) {
+      if (symbols && symbols.length > 0 && !symbols.includes(position.symbol)) {
+        continue;
+      }
+      result.push(this.buildPosition(position));
+    }
+    return result;
+  }
+
+  // ========== 订单 ==========
+
+  public async createOrder(
+    symbol: string,
+    type: "limit" | "market",
+    side: "buy" | "sell",
+    amount: number,
+    price?: number,
+    params: Record<string, any> = {}
+  ): Promise<any> {
+    this.market(symbol);
+    const positionSide: PositionSide =
+      params.positionSide || (side === "buy" ? "long" : "short");
+    const tradeSide: "open" | "close" = params.tradeSide || "open";
+    const expectedSide =
+      (positionSide === "long") === (tradeSide === "open") ? "buy" : "sell";
+    if (side !== expectedSide) {
+      throw new Error(
+        `paper invalid order side: ${side} for ${positionSide} ${tradeSide}`
+      );
+    }
+
+    const qty = this.roundAmount(amount);
+    if (qty <= 0) {
+      throw new Error(`paper invalid order amount: ${amount}`);
+    }
+
+    const clientOrderId: string | undefined = params.clientOrderId;
+    if (clientOrderId) {
+      for (const o of this.orders.values()) {
+        if (o.status === "open" && o.clientOrderId === clientOrderId) {
+          throw new Error(`paper duplicate clientOrderId: ${clientOrderId}`);
+        }
+      }
+    }
+
+    const last = this.prices.get(symbol)!;
+    const limitPrice = type === "limit" ? this.roundPrice(price!) : last;
+
+    if (tradeSide === "close") {
+      const available =
+        this.getPosition(symbol, positionSide).contracts -
+        this.getPendingCloseAmount(symbol, positionSide);
+      if (qty > available + EPSILON) {
+        throw new Error(
+          `No position to close (paper): ${symbol} ${positionSide} 可平 ${available}`
+        );
+      }
+    } else {
+      const balance = await this.fetchBalance();
+      const required = (qty * limitPrice) / this.getLeverage(symbol);
+      if (required > balance.free.USDT + EPSILON) {
+        throw new Error(
+          `paper insufficient balance: required ${required}, free ${balance.free.USDT}`
+        );
+      }
+    }
+
+    const crosses =
+      type === "limit" &&
+      ((side === "buy" && limitPrice >= last) ||
+        (side === "sell" && limitPrice <= last));
+    if (crosses && params.postOnly) {
+      throw new Error(
+        `Post only order would take liquidity (paper): ${side} @ ${limitPrice}, last ${last}`
+      );
+    }
+
+    const timestamp = this.now();
+    const order: any = {
+      id: String(++this.orderSeq),
+      clientOrderId,
+      symbol,
+      type,
+      side,
+      price: limitPrice,
+      amount: qty,
+      filled: 0,
+      remaining: qty,
+      average: undefined,
+      status: "open",
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+      lastTradeTimestamp: undefined,
+      reduceOnly: tradeSide === "close",
+      postOnly: !!params.postOnly,
+      fee: { cost: 0, currency: "USDT" },
+      info: { positionSide, tradeSide },
+    };
+    this.orders.set(order.id, order);
+
+    if (type === "market" || crosses) {
+      // 吃单：以最新价立即成交
+      this.fillOrder(order, last, this.config.taker_fee);
+    } else {
+      this.emitOrderUpdate(order);
+    }
+    return { ...order, info: { ...order.info } };
+  }
+
+  /**
+   * 批量下单：逐笔处理，与 CCXT 一致按请求顺序返回每笔结果，
+   * 失败的订单返回 status = "rejected"，错误信息在 info.errorMsg 中
+   */
+  public async createOrders(requests: any[]): Promise<any[]> {
+    const results: any[] = [];
+    for (const r of requests) {
+      try {
+        results.push(
+          await this.createOrder(
+            r.symbol,
+            r.type,
+            r.side,
+            r.amount,
+            r.price,
+            r.params
+          )
+        );
+      } catch (e: any) {
+        results.push({
+          id: undefined,
+          clientOrderId: r.params?.clientOrderId,
+          symbol: r.symbol,
+          type: r.type,
+          side: r.side,
+          price: r.price,
+          amount: r.amount,
+          status: "rejected",
+          info: {
+            positionSide: r.params?.positionSide,
+            tradeSide: r.params?.tradeSide,
+            errorMsg: e.message,
+          },
+        });
+      }
+    }
+    return results;
+  }
+
+  public async cancelOrder(id: string, symbol?: string): Promise<any> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== "open" || (symbol && order.symbol !== symbol)) {
+      throw new Error(`paper order not found: ${id}`);
+    }
+    order.status = "canceled";
+    this.emitOrderUpdate(order);
+    return { ...order, info: { ...order.info } };
+  }
+
+  public async cancelOrders(ids: string[], symbol?: string): Promise<any[]> {
+    const results: any[] = [];
+    for (const id of ids) {
+      results.push(await this.cancelOrder(id, symbol));
+    }
+    return results;
+  }
+
+  public async cancelAllOrders(symbol?: string): Promise<any[]> {
+    const ids = (await this.fetchOpenOrders(symbol)).map(o => o.id);
+    return this.cancelOrders(ids, symbol);
+  }
+
+  public async fetchOrder(id: string): Promise<any> {
+    const order = this.orders.get(id);
+    if (!order) throw new Error(`paper order not found: ${id}`);
+    return { ...order, info: { ...order.info } };
+  }
+
+  public async fetchOpenOrders(symbol?: string): Promise<any[]> {
+    return this.queryOrders(o => o.status === "open", symbol);
+  }
+
+  public async fetchClosedOrders(
+    symbol?: string,
+    since?: number
+  ): Promise<any[]> {
+    return this.queryOrders(
+      o =>
+        o.status !== "open" &&
+        (since === undefined ||
+          (o.lastTradeTimestamp || o.timestamp) >= since),
+      symbol
+    );
+  }
+
+  public async fetchMyTrades(symbol?: string, since?: number): Promise<any[]> {
+    return this.trades
+      .filter(
+        t =>
+          (!symbol || t.symbol === symbol) &&
+          (since === undefined || t.timestamp >= since)
+      )
+      .map(t => ({ ...t }));
+  }
+
+  /**
+   * 订单推送 (newUpdates 语义：每个订阅者只收到上次调用之后的更新)
+   */
+  public async watchOrders(symbol?: string): Promise<any[]> {
+    const key = symbol || "*";
+    const pending = this.collectOrderUpdates(key);
+    if (pending.length > 0) {
+      return pending;
+    }
+    return new Promise(resolve => {
+      this.orderWaiters.push({ key, resolve });
+    });
+  }
+
+  /**
+   * 闪电平仓：以市价平掉指定交易对所有方向的仓位
+   */
+  public async flashClosePositions(symbol: string): Promise<void> {
+    const open = [...this.positions.values()].filter(
+      p => p.symbol === symbol && p.contracts > EPSILON
+    );
+    if (open.length === 0) {
+      throw new Error(`No position to close (paper): ${symbol}`);
+    }
+    for (const position of open) {
+      await this.createOrder(
+        symbol,
+        "market",
+        position.side === "long" ? "sell" : "buy",
+        position.contracts,
+        undefined,
+        { positionSide: position.side, tradeSide: "close" }
+      );
+    }
+  }
+
+  // ========== 内部实现 ==========
+
+  private startFeed(symbol: string): void {
+    let feed: PriceFeed;
+    if (this.config.feed === "replay") {
+      const file = this.config.replay_files?.[symbol];
+      if (!file) {
+        throw new Error(`未配置 ${symbol} 的回放数据文件 (paper.replay_files)`);
+      }
+      feed = ReplayFeed.fromCsv(file);
+    } else {
+      feed = new RandomWalkFeed(
+        this.prices.get(symbol)!,
+        this.config.volatility
+      );
+    }
+
+    const timer = setInterval(() => {
+      const price = feed.next();
+      if (price === null) {
+        clearInterval(timer);
+        logger.warn(`[PaperExchange] [${symbol}] 回放数据已耗尽，价格停止更新`);
+        return;
+      }
+      this.pushPrice(symbol, price);
+    }, this.config.tick_interval_ms);
+    this.timers.push(timer);
+  }
+
+  private matchOrders(symbol: string): void {
+    const price = this.prices.get(symbol)!;
+    // touch: 价格触及挂单价即成交；through: 价格需穿过挂单价至少一个 tick
+    const through =
+      this.config.fill_model === "through" ? this.config.tick_size : 0;
+    for (const order of this.orders.values()) {
+      if (order.status !== "open" || order.symbol !== symbol) continue;
+      const touched =
+        (order.side === "buy" && price <= order.price - through + EPSILON) ||
+        (order.side === "sell" && price >= order.price + through - EPSILON);
+      if (touched) {
+        this.fillOrder(order, order.price, this.config.maker_fee);
+      }
+    }
+  }
+
+  private fillOrder(order: any, fillPrice: number, feeRate: number): void {
+    const { positionSide, tradeSide } = order.info;
+    const position = this.getPosition(order.symbol, positionSide);
+    let qty = order.remaining;
+    if (tradeSide === "close") {
+      qty = Math.min(qty, position.contracts);
+    }
+
+    const fee = qty * fillPrice * feeRate;
+    if (tradeSide === "open") {
+      const totalCost =
+        position.entryPrice * position.contracts + fillPrice * qty;
+      position.contracts = this.roundAmount(position.contracts + qty);
+      position.entryPrice = totalCost / position.contracts;
+    } else {
+      const pnl =
+        positionSide === "long"
+          ? (fillPrice - position.entryPrice) * qty
+          : (position.entryPrice - fillPrice) * qty;
+      position.realizedPnl += pnl;
+      this.cash += pnl;
+      position.contracts = this.roundAmount(position.contracts - qty);
+      if (position.contracts <= EPSILON) {
+        position.contracts = 0;
+        position.entryPrice = 0;
+      }
+    }
+    this.cash -= fee;
+
+    const timestamp = this.now();
+    order.filled = this.roundAmount(order.filled + qty);
+    order.remaining = 0;
+    order.average = fillPrice;
+    order.status = "closed";
+    order.lastTradeTimestamp = timestamp;
+    order.fee = { cost: order.fee.cost + fee, currency: "USDT", rate: feeRate };
+
+    this.trades.push({
+      id: `${order.id}-${this.trades.length + 1}`,
+      order: order.id,
+      clientOrderId: order.clientOrderId,
+      symbol: order.symbol,
+      side: order.side,
+      price: fillPrice,
+      amount: qty,
+      cost: qty * fillPrice,
+      takerOrMaker: feeRate === this.config.maker_fee ? "maker" : "taker",
+      fee: { cost: fee, currency: "USDT", rate: feeRate },
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+      info: { positionSide, tradeSide },
+    });
+    this.emitOrderUpdate(order);
+  }
+
+  private emitOrderUpdate(order: any): void {
+    this.orderLog.push({
+      seq: ++this.orderLogSeq,
+      order: { ...order, info: { ...order.info } },
+    });
+
+    const waiters = this.orderWaiters;
+    this.orderWaiters = [];
+    for (const waiter of waiters) {
+      const updates = this.collectOrderUpdates(waiter.key);
+      if (updates.length > 0) {
+        waiter.resolve(updates);
+      } else {
+        this.orderWaiters.push(waiter);
+      }
+    }
+
+    // 全局订阅者已消费的日志可以丢弃
+    const consumed = this.orderCursors.get("*");
+    if (consumed !== undefined) {
+      this.orderLog = this.orderLog.filter(e => e.seq > consumed);
+    }
+  }
+
+  private collectOrderUpdates(key: string): any[] {
+    const cursor = this.orderCursors.get(key) || 0;
+    const entries = this.orderLog.filter(
+      e => e.seq > cursor && (key === "*" || e.order.symbol === key)
+    );
+    this.orderCursors.set(key, this.orderLogSeq);
+    return entries.map(e => e.order);
+  }
+
+  private queryOrders(predicate: (o: any) => boolean, symbol?: string): any[] {
+    const result: any[] = [];
+    for (const order of this.orders.values()) {
+      if (symbol && order.symbol !== symbol) continue;
+      if (predicate(order)) {
+        result.push({ ...order, info: { ...order.info } });
+      }
+    }
+    return result;
+  }
+
+  private getPosition(symbol: string, side: PositionSide): PaperPosition {
+    const key = `${symbol}:${side}`;
+    let position = this.positions.get(key);
+    if (!position) {
+      position = { symbol, side, contracts: 0, entryPrice: 0, realizedPnl: 0 };
+      this.positions.set(key, position);
+    }
+    return position;
+  }
+
+  private getPendingCloseAmount(symbol: string, side: PositionSide): number {
+    let pending = 0;
+    for (const order of this.orders.values()) {
+      if (
+        order.status === "open" &&
+        order.symbol === symbol &&
+        order.info.positionSide === side &&
+        order.info.tradeSide === "close"
+      ) {
+        pending += order.remaining;
+      }
+    }
+    return pending;
+  }
+
+  private getLeverage(symbol: string): number {
+    return this.leverages[symbol] || 1;
+  }
+
+  private getUnrealizedPnl(position: PaperPosition): number {
+    const mark = this.prices.get(position.symbol)!;
+    return position.side === "long"
+      ? (mark - position.entryPrice) * position.contracts
+      : (position.entryPrice - mark) * position.contracts;
+  }
+
+  private getInitialMargin(position: PaperPosition): number {
+    return (
+      (position.entryPrice * position.contracts) /
+      this.getLeverage(position.symbol)
+    );
+  }
+
+  private getOrderMargin(order: any): number {
+    return (order.remaining * order.price) / this.getLeverage(order.symbol);
+  }
+
+  private buildTicker(symbol: string): any {
+    this.market(symbol);
+    const last = this.prices.get(symbol)!;
+    const timestamp = this.now();
+    return {
+      symbol,
+      last,
+      close: last,
+      bid: last,
+      ask: last,
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+    };
+  }
+
+  private buildPosition(position: PaperPosition): any {
+    const mark = this.prices.get(position.symbol)!;
+    const leverage = this.getLeverage(position.symbol);
+    const initialMargin = this.getInitialMargin(position);
+    const unrealizedPnl = this.getUnrealizedPnl(position);
+    const liquidationPrice =
+      position.contracts > EPSILON
+        ? position.side === "long"
+          ? position.entryPrice * (1 - 1 / leverage + MAINTENANCE_MARGIN_RATE)
+          : position.entryPrice * (1 + 1 / leverage - MAINTENANCE_MARGIN_RATE)
+        : undefined;
+    return {
+      symbol: position.symbol,
+      side: position.side,
+      contracts: position.contracts,
+      contractSize: 1,
+      entryPrice: position.entryPrice,
+      markPrice: mark,
+      notional: position.contracts * mark,
+      leverage,
+      marginMode: this.marginModes[position.symbol] || "cross",
+      initialMargin,
+      maintenanceMargin: position.contracts * mark * MAINTENANCE_MARGIN_RATE,
+      unrealizedPnl,
+      realizedPnl: position.realizedPnl,
+      liquidationPrice,
+      percentage: initialMargin > 0 ? (unrealizedPnl / initialMargin) * 100 : 0,
+      timestamp: this.now(),
+      info: {},
+    };
+  }
+
+  private roundPrice(price: number): number {
+    const tick = this.config.tick_size;
+    return parseFloat((Math.round(price / tick) * tick).toFixed(10));
+  }
+
+  private roundAmount(amount: number): number {
+    const step = this.config.amount_step;
+    return parseFloat((Math.round(amount / step) * step).toFixed(10));
+  }
+
+  private now(): number {
+    return clock.now();
+  }
+}
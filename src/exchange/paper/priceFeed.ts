@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * 纸面交易价格源
+ */
+export interface PriceFeed {
+  /**
+   * 获取下一个价格，数据耗尽时返回 null
+   */
+  next(): number | null;
+}
+
+/**
+ * 随机游走价格源 (几何布朗运动，无漂移)
+ */
+export class RandomWalkFeed implements PriceFeed {
+  private price: number;
+  private volatility: number;
+
+  constructor(startPrice: number, volatility: number) {
+    this.price = startPrice;
+    this.volatility = volatility;
+  }
+
+  public next(): number {
+    // Box-Muller 生成标准正态分布随机数
+    const u = 1 - Math.random();
+    const v = Math.random();
+    const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+    this.price = this.price * (1 + this.volatility * z);
+    return this.price;
+  }
+}
+
+/**
+ * CSV 回放价格源
+ */
+export class ReplayFeed implements PriceFeed {
+  private prices: number[];
+  private cursor: number = 0;
+
+  constructor(prices: number[]) {
+    this.prices = prices;
+  }
+
+  /**
+   * 从 CSV 文件加载价格序列
+   * 文件首行为表头，价格取 price 列，不存在时取 close 列
+   */
+  public static fromCsv(filePath: string): ReplayFeed {
+    const fullPath = path.resolve(process.cwd(), filePath);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`回放数据文件不存在: ${fullPath}`);
+    }
+
+    const lines = fs
+      .readFileSync(fullPath, "utf8")
+      .split("\n")
+      .map(line => line.trim())
+      .filter(line => line !== "" && !line.startsWith("#"));
+    const header = lines[0].toLowerCase().split(",");
+    let column = header.indexOf("price");
+    if (column === -1) column = header.indexOf("close");
+    if (column === -1) {
+      throw new Error(`回放数据文件缺少 price/close 列: ${fullPath}`);
+    }
+
+    const prices = lines
+      .slice(1)
+      .map(line => parseFloat(line.split(",")[column]))
+      .filter(p => !isNaN(p));
+    return new ReplayFeed(prices);
+  }
+
+  public next(): number | null {
+    if (this.cursor >= this.prices.length) return null;
+    return this.prices[this.cursor++];
+  }
+}
@@ -2,6 +2,8 @@ import { ConfigLoader } from "./config/configLoader";
 import { logger } from "./utils/logger";
 import { BotEngine } from "./logic/botEngine";
 import { EquityMonitor } from "./utils/equityMonitor";
+import { ConfigWatcher } from "./config/configWatcher";
+import { ControlServer } from "./control/controlServer";
 
 async function main() {
   try {
@@ -11,26 +13,54 @@ async function main() {
 
     // 1. 加载配置
     const configLoader = ConfigLoader.getInstance();
-    configLoader.loadConfig();
+    const config = configLoader.loadConfig();
 
     // 2. 启动机器人引擎
     const engine = new BotEngine();
 
+    // 控制接口 (建仓审批等) 需在引擎启动前运行
+    const control = config.control?.enable
+      ? new ControlServer(engine, config.control)
+      : null;
+    await control?.start();
+
+    // 配置热更新：新配置校验失败或应用失败时继续使用当前配置
+    const watcher = new ConfigWatcher(
+      configLoader.getConfigPath(),
+      async () => {
+        logger.info("[Main] 检测到配置文件变更，正在热更新...");
+        try {
+          const next = configLoader.readConfig();
+          await engine.applyConfig(next);
+          configLoader.useConfig(next);
+        } catch (error: any) {
+          logger.error(
+            `[Main] 配置热更新失败，继续使用当前配置: ${error.message}`
+          );
+        }
+      }
+    );
+
     // 捕获进程信号以优雅退出
     process.on("SIGINT", async () => {
       logger.info("[Main] 接收到 SIGINT 信号，正在停止机器人...");
+      watcher.stop();
       await engine.stop();
+      await control?.stop();
       process.exit(0);
     });
 
     process.on("SIGTERM", async () => {
       logger.info("[Main] 接收到 SIGTERM 信号，正在停止机器人...");
+      watcher.stop();
       await engine.stop();
+      await control?.stop();
       process.exit(0);
     });
 
     // 3. 运行引擎
     await engine.start();
+    watcher.start();
 
     // 4. 启动权益监控
     const monitor = new EquityMonitor();
@@ -3,17 +3,92 @@ import { ExchangeManager } from "../exchange/exchangeManager";
 import { OrderExecutor } from "../exchange/orderExecutor";
 import { GridContext } from "./gridContext";
 import { ConfigLoader } from "../config/configLoader";
-import { logger } from "../utils/logger";
-import { GridDirection } from "../types/grid";
+import {
+  ConfigValidationError,
+  validateSymbols,
+} from "../config/configValidator";
+import {
+  getStrategyId,
+  resolveStrategyConfig,
+} from "../config/strategyConfig";
+import { Logger, logger } from "../utils/logger";
+import {
+  ExitAction,
+  GridConfig,
+  GridDirection,
+  GridOrderTarget,
+} from "../types/grid";
+import { Clock, clock } from "../utils/clock";
+import { AppConfig } from "../types/config";
+import {
+  ExchangeConnection,
+  LeverageSettings,
+  PositionSide,
+} from "../types/exchange";
+import { FillReconciler, isOrderFilled } from "./fillReconciler";
+import { timeframeToMs, VolatilityEstimator } from "./volatilityEstimator";
+import { InitialPositionBuilder } from "./initialPositionBuilder";
+import { RiskGuard } from "./riskGuard";
+import {
+  FundingRate,
+  getAdverseRate,
+  findSettledRate,
+  getFundingPayment,
+  parseFundingRate,
+} from "./fundingRate";
+import {
+  getPositionRisk,
+  needsLiquidationGuard,
+  PositionRisk,
+} from "./liquidationGuard";
+import { ApprovalQueue } from "../control/approvalQueue";
+import {
+  getStrategyTag,
+  parseClientOrderId,
+} from "../exchange/clientOrderId";
 import * as readline from "readline";
 
+/**
+ * 引擎依赖与选项，未提供的依赖使用全局单例
+ */
+export interface BotEngineOptions {
+  stateDir?: string; // 网格文件存放目录 (默认 temp/，回测时使用独立目录)
+  exchange?: ExchangeConnection; // 交易所连接 (默认 ExchangeManager)
+  executor?: OrderExecutor; // 订单执行器 (默认基于 exchange 创建)
+  config?: AppConfig; // 应用配置 (默认 ConfigLoader 已加载的配置)
+  approvals?: ApprovalQueue; // 建仓审批队列 (默认新建，由控制接口审批)
+  riskGuard?: RiskGuard; // 账户风控 (默认按 [risk] 配置创建，未启用时不检查)
+  logger?: Logger;
+  clock?: Clock;
+}
+
+/**
+ * 达到的持仓上限 (current 为达到时本策略或所有策略的持仓数值)
+ */
+interface InventoryCap {
+  name:
+    | "maxPosition"
+    | "maxNotional"
+    | "maxFilledLevels"
+    | "max_total_notional";
+  limit: number;
+  current: number;
+}
+
 /**
  * BotEngine 核心引擎
  * 负责管理网格策略的生命周期，处理 WebSocket 事件驱动逻辑
  */
 export class BotEngine {
-  private exchange: ExchangeManager;
+  private exchange: ExchangeConnection;
   private executor: OrderExecutor;
+  private config: AppConfig;
+  // 启用的策略 (已合并 [default] 中的通用配置)
+  private strategies: GridConfig[];
+  // 已设置到交易所的保证金模式与杠杆 (交易对 -> 设置)，热更新时与新配置比较
+  private leverageSettings: Record<string, LeverageSettings> = {};
+  private logger: Logger;
+  private clock: Clock;
   private gridContexts: GridContext[] = [];
   private isRunning: boolean = false;
   // 记录每个策略当前的锚点索引 (Anchor Index)
@@ -22,13 +97,36 @@ export class BotEngine {
   private lastAnchorResetTime: Record<string, number> = {};
   // 记录每个策略是否因为“无仓位”而暂时禁用了平仓挂单
   private isCloseDisabled: Record<string, boolean> = {};
+  // 记录每个策略接近强平、限制开仓挂单的持仓方向
+  private liquidationGuards: Record<string, Set<PositionSide>> = {};
+  // 记录每个策略因资金费率不利而限制的开仓挂单格数 (按持仓方向，0 为暂停开仓)
+  private fundingWindows: Record<
+    string,
+    Partial<Record<PositionSide, number>>
+  > = {};
+  // 各交易对最近一次查询的资金费率
+  private fundingRates: Record<string, FundingRate> = {};
+  // 记录每个策略当前达到的持仓上限 (暂停开仓挂单)
+  private inventoryCaps: Record<string, InventoryCap | null> = {};
   // 策略互斥锁，防止并发同步导致的重复挂单
   private stratLocks: Record<string, Mutex> = {};
-
-  // 辅助函数：生成策略的唯一标识 Key
-  private getStratKey(symbol: string, direction: GridDirection): string {
-    return `${symbol}_${direction}`;
-  }
+  // 成交对账器：去重 WebSocket 与 REST 对账发现的成交
+  private reconciler: FillReconciler;
+  // 对账互斥锁，防止重连对账与定时对账并发执行
+  private reconcileLock: Mutex = new Mutex();
+  // 波动率估算器：自适应间距模式使用
+  private volatility: VolatilityEstimator;
+  // 底仓构建器与建仓审批队列
+  private positionBuilder: InitialPositionBuilder;
+  private approvals: ApprovalQueue;
+  // 账户风控 (未启用 [risk] 时为 null)，触发后所有策略停止交易直到重置
+  private risk: RiskGuard | null;
+  // 正在运行价格监听 / 自适应间距协程的策略 (热更新时避免重复启动)
+  private tickerLoops: Set<GridContext> = new Set();
+  private adaptiveLoops: Set<GridContext> = new Set();
+  // 热更新互斥锁，连续修改配置时依次应用
+  private reloadLock: Mutex = new Mutex();
+  private options: BotEngineOptions;
 
   /**
    * 获取或创建策略锁
@@ -40,9 +138,61 @@ export class BotEngine {
     return this.stratLocks[stratKey];
   }
 
-  constructor() {
-    this.exchange = ExchangeManager.getInstance();
-    this.executor = new OrderExecutor();
+  /**
+   * 建仓审批队列 (供控制接口使用)
+   */
+  public getApprovals(): ApprovalQueue {
+    return this.approvals;
+  }
+
+  constructor(options: BotEngineOptions = {}) {
+    this.options = options;
+    this.exchange = options.exchange || ExchangeManager.getInstance();
+    this.config = options.config || ConfigLoader.getInstance().getConfig();
+    this.strategies = this.resolveStrategies(this.config);
+    this.logger = options.logger || logger;
+    this.clock = options.clock || clock;
+    this.executor =
+      options.executor ||
+      new OrderExecutor(this.exchange, this.logger, options.stateDir);
+    this.reconciler = new FillReconciler(
+      this.exchange,
+      this.logger,
+      this.clock
+    );
+    this.volatility = new VolatilityEstimator(
+      this.exchange,
+      this.logger,
+      this.clock
+    );
+    this.positionBuilder = new InitialPositionBuilder(
+      this.exchange,
+      this.executor,
+      this.logger,
+      this.clock
+    );
+    this.approvals =
+      options.approvals || new ApprovalQueue(this.logger, this.clock);
+    this.risk =
+      options.riskGuard ||
+      (this.config.risk?.enable
+        ? new RiskGuard(
+            this.exchange,
+            this.config.risk,
+            this.logger,
+            this.clock,
+            options.stateDir
+          )
+        : null);
+  }
+
+  /**
+   * 启用的策略 (合并 [default] 中的通用配置)
+   */
+  private resolveStrategies(config: AppConfig): GridConfig[] {
+    return config.strategies
+      .map(s => resolveStrategyConfig(s, config.default))
+      .filter(s => s.enable);
   }
 
   /**
@@ -62,13 +212,20 @@ export class BotEngine {
   }
 
   /**
-   * 检查并自动构建底仓
+   * 检查并自动构建底仓：超过自动批准阈值时按 initial_position_policy 处理，
+   * 按 initial_position_entry 分批建仓 (不依赖终端交互)
    */
   private async checkAndBuildInitialPosition(ctx: GridContext): Promise<void> {
-    const appConfig = ConfigLoader.getInstance().getConfig();
-    if (!appConfig.default.auto_initial_position) return;
-
     const config = ctx.getConfig();
+    if (!config.autoInitialPosition) return;
+
+    // NEUTRAL 以启动价为空仓基准线，两侧都从开仓单开始，不需要底仓
+    if (config.direction === GridDirection.NEUTRAL) {
+      this.logger.info(
+        `[BotEngine] [${config.id}] [AutoInit] NEUTRAL 网格以空仓基准线启动，无需建立底仓`
+      );
+      return;
+    }
 
     // Check existing position
     try {
@@ -82,14 +239,14 @@ export class BotEngine {
       );
 
       if (existingPosition && existingPosition.contracts > 0) {
-        logger.info(
-          `[BotEngine] [${config.symbol}] [AutoInit] 检测到已有 ${targetSide} 仓位 (${existingPosition.contracts})，跳过自动建仓`
+        this.logger.info(
+          `[BotEngine] [${config.id}] [AutoInit] 检测到已有 ${targetSide} 仓位 (${existingPosition.contracts})，跳过自动建仓`
         );
         return;
       }
     } catch (e: any) {
-      logger.warn(
-        `[BotEngine] [${config.symbol}] [AutoInit] 检查持仓失败，跳过自动建仓: ${e.message}`
+      this.logger.warn(
+        `[BotEngine] [${config.id}] [AutoInit] 检查持仓失败，跳过自动建仓: ${e.message}`
       );
       return;
     }
@@ -98,29 +255,32 @@ export class BotEngine {
     const currentPrice = ticker.last;
 
     // Calculate required position
+    // 按 GridContext 生成的刻度逐格累计 (等比/等差网格的刻度分布不同)，
+    // 每格按其平仓单对应开仓刻度的计划数量计算
     const levels = ctx.getLevels();
+    const positionSide = ctx.getPositionSides()[0];
+    let requiredLevels = 0;
     let requiredQty = 0;
 
-    if (config.direction === GridDirection.LONG) {
+    for (const level of levels) {
       // LONG: 价格 > 当前价的部分需要有持仓才能挂卖单
-      for (const level of levels) {
-        if (level.price > currentPrice) {
-          requiredQty += config.quantityPerGrid;
-        }
-      }
-    } else {
       // SHORT: 价格 < 当前价的部分需要有空单持仓才能挂买单(平空)
-      for (const level of levels) {
-        if (level.price < currentPrice) {
-          requiredQty += config.quantityPerGrid;
-        }
+      const needsPosition =
+        config.direction === GridDirection.LONG
+          ? level.price > currentPrice
+          : level.price < currentPrice;
+      if (needsPosition) {
+        requiredLevels++;
+        requiredQty += ctx.getCloseAmount(level.index, positionSide);
       }
     }
 
+    // 消除浮点累加误差
+    requiredQty = Math.round(requiredQty * 1e8) / 1e8;
     if (requiredQty <= 0) return;
 
-    logger.info(
-      `[BotEngine] [${config.symbol}] [AutoInit] 需建仓数量: ${requiredQty}`
+    this.logger.info(
+      `[BotEngine] [${config.id}] [AutoInit] 需建仓数量: ${requiredQty} (${ctx.getGridType()} 网格，${requiredLevels} 格)`
     );
 
     // Check Equity
@@ -131,39 +291,51 @@ export class BotEngine {
 
     const leverage = config.leverage || 1;
     const positionValue = requiredQty * currentPrice;
-    // 阈值: (权益 * 杠杆) / 2
-    const threshold = (equity * leverage) / 2;
+    // 自动批准阈值，默认 (权益 * 杠杆) / 2
+    const threshold =
+      config.initialPositionMaxValue ?? (equity * leverage) / 2;
 
     if (positionValue > threshold) {
-      logger.warn(
-        `[BotEngine] [${
-          config.symbol
-        }] [AutoInit] 警告: 所需仓位价值 (${positionValue.toFixed(
-          2
-        )}) 超过账户权益*杠杆的一半 (${threshold.toFixed(2)})`
-      );
-      const confirm = await this.askConfirmation(
-        `确认要继续市价建仓吗? 数量: ${requiredQty}, 预计花费: ${positionValue.toFixed(
-          2
-        )} USDT`
+      const summary = `建仓数量 ${requiredQty}，预计价值 ${positionValue.toFixed(
+        2
+      )} USDT 超过自动批准阈值 ${threshold.toFixed(2)} USDT`;
+      const policy = config.initialPositionPolicy || "reject";
+      this.logger.warn(
+        `[BotEngine] [${config.id}] [AutoInit] ${summary} (initial_position_policy = ${policy})`
       );
-      if (!confirm) {
-        logger.info(`[BotEngine] 用户取消建仓，停止运行`);
-        process.exit(0);
+      if (policy === "reject") {
+        throw new Error(
+          `[${config.id}] ${summary}，已拒绝建仓 (可调整 initial_position_max_value 或 initial_position_policy)`
+        );
+      }
+      if (
+        policy === "approval" &&
+        !(await this.approvals.request(config.id!, summary))
+      ) {
+        throw new Error(`[${config.id}] 建仓未获批准`);
       }
     }
 
-    // Execute Market Order
-    logger.info(
-      `[BotEngine] [${config.symbol}] [AutoInit] 正在执行市价建仓...`
-    );
     try {
-      const side = config.direction === GridDirection.LONG ? "buy" : "sell";
-      await this.executor.placeMarketOrder(config.symbol, side, requiredQty);
-      logger.info(`[BotEngine] [${config.symbol}] [AutoInit] 市价建仓完成`);
+      const built = await this.positionBuilder.build(
+        `[${config.id}]`,
+        config,
+        requiredQty,
+        currentPrice,
+        {
+          entry: config.initialPositionEntry || "market",
+          slices: config.initialPositionSlices ?? 5,
+          intervalMs: (config.initialPositionIntervalSeconds ?? 60) * 1000,
+          maxSlippage: config.initialPositionMaxSlippage ?? 0.005,
+        }
+      );
+      if (built.amount > 0) {
+        ctx.recordTrade(positionSide, "open", built.amount, built.averagePrice);
+      }
+      this.logger.info(`[BotEngine] [${config.id}] [AutoInit] 建仓完成`);
     } catch (e: any) {
-      logger.error(
-        `[BotEngine] [${config.symbol}] [AutoInit] 建仓失败: ${e.message}`
+      this.logger.error(
+        `[BotEngine] [${config.id}] [AutoInit] 建仓失败: ${e.message}`
       );
       throw e;
     }
@@ -174,379 +346,1212 @@ export class BotEngine {
    */
   public async start(): Promise<void> {
     try {
-      logger.info("[BotEngine] 正在启动引擎...");
+      this.logger.info("[BotEngine] 正在启动引擎...");
+
+      for (const strat of this.config.strategies) {
+        if (strat.enable === false) {
+          this.logger.info(
+            `[BotEngine] [${getStrategyId(strat)}] 策略未启用，跳过`
+          );
+        }
+      }
 
       // 1. 初始化交易所连接
       await this.exchange.initConnection();
+      this.validateStrategies(this.config, this.strategies);
+      await this.applyLeverageSettings(
+        this.getLeverageSettings(this.strategies)
+      );
 
       // 2. 加载网格配置
-      const config = ConfigLoader.getInstance().getConfig();
-
       // 为每个启用的策略初始化 GridContext
-      for (const strat of config.strategies) {
-        // 获取 Tick Size
-        const tickSize = this.exchange.getTickSize(strat.symbol);
-        logger.info(`[BotEngine] [${strat.symbol}] Tick Size: ${tickSize}`);
-
-        const ctx = new GridContext(strat);
-        await ctx.initialize(tickSize);
-        this.gridContexts.push(ctx);
-
-        // 检查并自动构建底仓
-        await this.checkAndBuildInitialPosition(ctx);
-
-        // 初始挂单同步
-        await this.initialPositioning(ctx);
+      // 上次运行记录的订单 ID (交易对 -> 订单 ID)，用于找回停机期间的成交
+      const trackedOrderIds: Record<string, string[]> = {};
+      for (const strat of this.strategies) {
+        trackedOrderIds[strat.symbol] = [
+          ...(trackedOrderIds[strat.symbol] || []),
+          ...(await this.startStrategy(strat)),
+        ];
       }
 
+      // 与交易所核对上次运行的挂单，补充处理停机期间的成交
+      await this.recoverOfflineFills(trackedOrderIds);
+
       this.isRunning = true;
-      logger.info("[BotEngine] 引擎启动成功，开始监听市场事件...");
+      this.logger.info("[BotEngine] 引擎启动成功，开始监听市场事件...");
       // 3. 启动事件监听循环 (不阻塞)
       this.watchOrdersLoop();
+      // 定时 REST 对账，补充 WebSocket 遗漏的成交
+      this.reconcileLoop();
+      // 账户风控：定时检查权益回撤、当日亏损与保证金率
+      this.riskLoop();
+      // 强平保护：定时检查各策略持仓方向的强平距离与保证金率
+      this.positionLoop();
+      // 资金费率：记录资金费用，费率不利时限制开仓
+      this.fundingLoop();
       // 为每个策略启动独立的并行价格监听协程
       for (const ctx of this.gridContexts) {
-        this.watchTickerLoop(ctx).catch(e => {
-          logger.error(
-            `[BotEngine] [${ctx.getConfig().symbol}] 价格监听协程崩溃: ${
-              e.message
-            }`
-          );
-        });
+        this.startStrategyLoops(ctx);
       }
     } catch (error: any) {
-      logger.error(`[BotEngine] 启动失败: ${error.message}`);
+      this.logger.error(`[BotEngine] 启动失败: ${error.message}`);
       throw error;
     }
   }
 
   /**
-   * 初始挂单：根据当前价格挂出第一组单
+   * 初始化单个策略：加载网格、恢复状态、自动建仓并挂出第一组单
+   * @returns 上次运行记录的订单 ID (用于找回停机期间的成交)
    */
-  private async initialPositioning(ctx: GridContext): Promise<void> {
-    const config = ctx.getConfig();
-    const ticker = await this.exchange.client.fetchTicker(config.symbol);
-    const currentPrice = ticker.last;
-
-    logger.info(
-      `[BotEngine] [${config.symbol}] 初始价格: ${currentPrice}，正在寻找初始锚点...`
+  private async startStrategy(strat: GridConfig): Promise<string[]> {
+    // 获取 Tick Size
+    const tickSize = this.exchange.getTickSize(strat.symbol);
+    this.logger.info(
+      `[BotEngine] [${strat.id}] 策略: ${strat.name} | Tick Size: ${tickSize}`
     );
 
-    const nearest = ctx.getNearestLevels(currentPrice);
-    if (!nearest) {
-      logger.warn(`[BotEngine] [${config.symbol}] 初始价格超出网格范围`);
-      return;
+    const ctx = new GridContext(strat, this.options.stateDir, this.logger);
+    await ctx.initialize(tickSize, this.exchange.getAmountStep(strat.symbol));
+    await this.confirmConfigChange(ctx);
+    this.gridContexts.push(ctx);
+    this.restoreState(ctx);
+    const trackedOrderIds = ctx.getTrackedOrderIds();
+    // 上次建仓中断时遗留的阶梯挂单 (已成交部分计入交易所持仓)
+    await this.executor.cancelEntryOrders(strat);
+
+    const tripped = this.risk?.getState().tripped;
+    if (tripped) {
+      this.logger.warn(
+        `[BotEngine] [${strat.id}] 账户风控已于 ${new Date(
+          tripped.time
+        ).toISOString()} 触发 (${tripped.reason})，不恢复交易；可通过控制接口 POST /risk/reset 重置`
+      );
+      return trackedOrderIds;
+    }
+    const halted = ctx.getState().halted;
+    if (halted) {
+      this.logger.warn(
+        `[BotEngine] [${strat.id}] 策略已于 ${new Date(
+          halted.time
+        ).toISOString()} 停止 (${halted.reason})，不恢复交易；可通过控制接口 POST /strategies/${strat.id}/resume 恢复`
+      );
+      return trackedOrderIds;
     }
 
-    // 初始锚点设为当前最接近的下边界索引
-    const stratKey = this.getStratKey(config.symbol, config.direction);
-    this.anchorIndices[stratKey] = nearest[0].index;
-    await this.refreshGridOrdersByAnchor(ctx);
+    try {
+      // 检查并自动构建底仓
+      await this.checkAndBuildInitialPosition(ctx);
+
+      // 初始挂单同步
+      await this.initialPositioning(ctx);
+    } catch (error) {
+      // 建仓被拒绝等情况下不保留未启动的策略 (热更新新增策略失败时其它策略照常运行)
+      this.gridContexts = this.gridContexts.filter(c => c !== ctx);
+      throw error;
+    }
+    return trackedOrderIds;
   }
 
   /**
-   * 核心逻辑：基于锚点索引 (Anchor Index) 刷新挂单
+   * 启动策略的监听协程 (已在运行的不重复启动，配置不需要时协程自行退出)
    */
-  private async refreshGridOrdersByAnchor(ctx: GridContext): Promise<void> {
-    const config = ctx.getConfig();
-    const stratKey = this.getStratKey(config.symbol, config.direction);
-
-    // 使用互斥锁确保同一策略不会并发执行同步
-    const release = await this.getLock(stratKey).acquire();
-
-    try {
-      let retrySync = true;
-      while (retrySync) {
-        retrySync = false;
-        const anchorIndex = this.anchorIndices[stratKey];
-        const levels = ctx.getLevels();
-
-        if (anchorIndex === undefined) break;
+  private startStrategyLoops(ctx: GridContext): void {
+    if (!this.tickerLoops.has(ctx)) {
+      this.tickerLoops.add(ctx);
+      this.watchTickerLoop(ctx)
+        .catch(e => {
+          this.logger.error(
+            `[BotEngine] [${ctx.getId()}] 价格监听协程崩溃: ${e.message}`
+          );
+        })
+        .finally(() => this.tickerLoops.delete(ctx));
+    }
+    if (!this.adaptiveLoops.has(ctx)) {
+      this.adaptiveLoops.add(ctx);
+      this.adaptiveSpreadLoop(ctx).finally(() =>
+        this.adaptiveLoops.delete(ctx)
+      );
+    }
+  }
 
-        // 1. 计算挂单窗口
-        const appConfig = ConfigLoader.getInstance().getConfig();
-        const windowSize = appConfig.default.order_window || 1;
-        const targets = [];
+  /**
+   * 策略是否仍在运行 (引擎停止或热更新移除策略后监听协程退出)
+   */
+  private isActive(ctx: GridContext): boolean {
+    return this.isRunning && this.gridContexts.includes(ctx);
+  }
 
-        // 下方挂单窗口 (买单区)
-        for (let i = 1; i <= windowSize; i++) {
-          const idx = anchorIndex - i;
-          if (idx < 0) break;
+  /**
+   * 策略是否停止交易 (策略退出规则触发或账户风控触发)
+   */
+  private isHalted(ctx: GridContext): boolean {
+    return !!ctx.getState().halted || !!this.risk?.isTripped();
+  }
 
-          targets.push({
-            price: levels[idx].price,
-            amount: config.quantityPerGrid,
-            action:
-              config.direction === GridDirection.LONG
-                ? ("open" as const)
-                : ("close" as const),
-          });
-        }
+  /**
+   * 是否需要监听价格：锚点重置 (自动建仓模式下禁用)、网格追踪、波动率估算与退出规则
+   */
+  private needsTicker(config: GridConfig): boolean {
+    return (
+      !config.autoInitialPosition ||
+      !!(config.trailingUp || config.trailingDown) ||
+      !!config.adaptiveSpread ||
+      this.hasExitRules(config)
+    );
+  }
 
-        // 上方挂单窗口 (卖单区)
-        for (let i = 1; i <= windowSize; i++) {
-          const idx = anchorIndex + i;
-          if (idx >= levels.length) break;
+  private hasExitRules(config: GridConfig): boolean {
+    return (
+      config.stopLossPrice !== undefined ||
+      config.maxLoss !== undefined ||
+      config.maxLossPercent !== undefined ||
+      config.takeProfit !== undefined ||
+      (config.rangeExit !== undefined && config.rangeExit !== "hold")
+    );
+  }
 
-          const isLongClose = config.direction === GridDirection.LONG;
-          if (isLongClose && this.isCloseDisabled[stratKey]) {
-            continue;
-          }
+  /**
+   * 校验策略 ID 唯一 (ID 决定网格文件与订单策略标签，重复会导致策略互相接管订单)，
+   * 以及交易对存在于交易所已加载的市场中
+   */
+  private validateStrategies(config: AppConfig, strategies: GridConfig[]) {
+    const seen = new Set<string>();
+    for (const strat of strategies) {
+      if (seen.has(strat.id!)) {
+        throw new Error(
+          `策略 ID 重复: ${strat.id}，同一交易对同方向的多个策略需配置不同的 id`
+        );
+      }
+      seen.add(strat.id!);
+    }
 
-          targets.push({
-            price: levels[idx].price,
-            amount: config.quantityPerGrid,
-            action: isLongClose ? ("close" as const) : ("open" as const),
-          });
-        }
+    const symbolIssues = validateSymbols(
+      config.strategies,
+      this.exchange.client.markets || {}
+    );
+    if (symbolIssues.length > 0) {
+      throw new ConfigValidationError(
+        ConfigLoader.getInstance().getConfigPath(),
+        symbolIssues
+      );
+    }
+  }
 
-        // 下方挂单窗口中的平仓单 (SHORT 策略) 过滤
-        for (let i = 0; i < targets.length; i++) {
-          const t = targets[i];
-          if (
-            config.direction === GridDirection.SHORT &&
-            t.action === "close"
-          ) {
-            if (this.isCloseDisabled[stratKey]) {
-              targets.splice(i, 1);
-              i--;
-            }
-          }
+  /**
+   * 汇总各交易对的保证金模式与多空杠杆，同一交易对的多个策略配置冲突时拒绝启动
+   */
+  private getLeverageSettings(
+    strategies: GridConfig[]
+  ): Record<string, LeverageSettings> {
+    const settings: Record<string, LeverageSettings> = {};
+    for (const strat of strategies) {
+      const target = (settings[strat.symbol] = settings[strat.symbol] || {});
+      const { marginMode, leverage } = strat;
+
+      if (marginMode) {
+        if (target.marginMode && target.marginMode !== marginMode) {
+          throw new Error(
+            `[${strat.symbol}] 保证金模式配置冲突 (${target.marginMode} / ${marginMode})，拒绝启动`
+          );
         }
-
-        logger.info(
-          `[BotEngine] [${config.symbol}] [${config.direction}] 锚点: ${anchorIndex} (${levels[anchorIndex].price}) | 执行同步...`
-        );
-
-        try {
-          await this.executor.syncActiveOrders(
-            config.symbol,
-            config.direction,
-            targets
+        target.marginMode = marginMode;
+      }
+      if (!leverage) continue;
+      for (const side of this.executor.getPositionSides(strat.direction)) {
+        const key = side === "long" ? "longLeverage" : "shortLeverage";
+        const current = target[key];
+        if (current !== undefined && current !== leverage) {
+          throw new Error(
+            `[${strat.symbol}] ${side} 杠杆配置冲突 (${current} / ${leverage})，拒绝启动`
           );
-        } catch (error: any) {
-          if (error.code === "NO_POSITION") {
-            logger.warn(
-              `[BotEngine] [${config.symbol}] [${config.direction}] 检测到无仓位平仓报错，暂时禁用平仓挂单并重试`
-            );
-            this.isCloseDisabled[stratKey] = true;
-            retrySync = true; // 循环重试，避免递归导致的死锁
-          } else {
-            throw error;
-          }
         }
+        target[key] = leverage;
       }
-    } finally {
-      release();
     }
+    return settings;
   }
 
   /**
-   * WebSocket 订单监听循环
+   * 设置各交易对的保证金模式与多空杠杆，并回读确认已生效
    */
-  private async watchOrdersLoop(): Promise<void> {
-    logger.info("[BotEngine] 启动 watchOrders 监听任务...");
+  private async applyLeverageSettings(
+    settings: Record<string, LeverageSettings>
+  ): Promise<void> {
+    const client = this.exchange.client;
+    for (const [symbol, target] of Object.entries(settings)) {
+      if (target.marginMode) {
+        await client.setMarginMode(target.marginMode, symbol);
+      }
+      const sides: [PositionSide, number | undefined][] = [
+        ["long", target.longLeverage],
+        ["short", target.shortLeverage],
+      ];
+      for (const [side, leverage] of sides) {
+        if (leverage === undefined) continue;
+        await this.exchange.adapter.setLeverage(client, symbol, leverage, side);
+      }
+      this.leverageSettings[symbol] = target;
+      this.logger.info(
+        `[BotEngine] [${symbol}] 保证金模式: ${
+          target.marginMode || "未配置"
+        } | 杠杆: long ${target.longLeverage ?? "-"} / short ${
+          target.shortLeverage ?? "-"
+        }`
+      );
+      await this.verifyLeverageSettings(symbol, target);
+    }
+  }
 
-    // 显式激活每个 symbol 的订单订阅
-    for (const ctx of this.gridContexts) {
-      const symbol = ctx.getConfig().symbol;
-      this.exchange.client.watchOrders(symbol).catch((e: any) => {
-        logger.error(`[BotEngine] 订阅 ${symbol} 订单失败: ${e.message}`);
-      });
+  /**
+   * 回读交易所的保证金模式与杠杆，与配置不一致时拒绝启动
+   */
+  private async verifyLeverageSettings(
+    symbol: string,
+    target: LeverageSettings
+  ): Promise<void> {
+    const client = this.exchange.client;
+    if (!client.has?.fetchLeverage) {
+      this.logger.warn(
+        `[BotEngine] [${symbol}] 交易所不支持 fetchLeverage，跳过杠杆设置校验`
+      );
+      return;
     }
 
-    while (this.isRunning) {
-      try {
-        // 监听订单更新
-        const orders = await this.exchange.client.watchOrders();
+    const actual: LeverageSettings = await client.fetchLeverage(symbol);
+    const mismatches: string[] = [];
+    const fields: (keyof LeverageSettings)[] = [
+      "marginMode",
+      "longLeverage",
+      "shortLeverage",
+    ];
+    for (const field of fields) {
+      if (target[field] !== undefined && actual[field] !== target[field]) {
+        mismatches.push(`${field}: ${actual[field]} (期望 ${target[field]})`);
+      }
+    }
+    if (mismatches.length > 0) {
+      throw new Error(
+        `[${symbol}] 杠杆设置未生效 (${mismatches.join("; ")})，拒绝启动`
+      );
+    }
+  }
 
-        if (!orders || orders.length === 0) continue;
+  /**
+   * 网格配置变更：没有本策略挂单与持仓时直接应用；
+   * 否则需在终端中确认，非交互环境下拒绝启动
+   */
+  private async confirmConfigChange(ctx: GridContext): Promise<void> {
+    const changes = ctx.getConfigChanges();
+    if (changes.length === 0) return;
 
-        for (const order of orders) {
-          // 增加调试日志，捕获所有状态变更
-          logger.info(
-            `[Debug] 收到订单推送: ${order.symbol} | ID: ${order.id} | 状态: ${order.status} | 成交量: ${order.filled}/${order.amount}`
-          );
+    const config = ctx.getConfig();
+    const label = `[${config.id}]`;
+    const openOrders = await this.exchange.client.fetchOpenOrders(
+      config.symbol
+    );
+    const orderCount = openOrders.filter((o: any) =>
+      this.executor.isStrategyOrder(o, config)
+    ).length;
+    const positions = await this.exchange.client.fetchPositions([
+      config.symbol,
+    ]);
+    const sides: string[] = ctx.getPositionSides();
+    const contracts = positions
+      .filter(
+        (p: any) => p.symbol === config.symbol && sides.includes(p.side)
+      )
+      .reduce((sum: number, p: any) => sum + (p.contracts || 0), 0);
+
+    if (orderCount > 0 || contracts > 0) {
+      const message = `${label} 网格配置已变更 (${changes.join(
+        "; "
+      )})，当前仍有 ${orderCount} 笔网格挂单、${contracts} 持仓`;
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          `${message}，拒绝启动。请先撤单平仓，或在终端中启动并确认`
+        );
+      }
+      this.logger.warn(`[BotEngine] ${message}`);
+      const confirm = await this.askConfirmation(
+        "确认按新配置重新生成网格吗? 旧网格文件将被备份"
+      );
+      if (!confirm) {
+        throw new Error(`${label} 用户拒绝应用新的网格配置`);
+      }
+    }
+
+    this.logger.warn(
+      `[BotEngine] ${label} 应用新的网格配置: ${changes.join("; ")}`
+    );
+    ctx.applyConfigChange();
+  }
+
+  /**
+   * 从网格状态文件恢复锚点、平仓禁用与锚点重置时间
+   */
+  private restoreState(ctx: GridContext): void {
+    const config = ctx.getConfig();
+    const state = ctx.getState();
+    if (
+      state.anchorIndex === null ||
+      state.anchorIndex >= ctx.getLevels().length
+    ) {
+      return;
+    }
 
-          // 处理已成交 (filled) 或 部分成交且已关闭 的订单
-          const isFilled = order.status === "filled";
-          const isPartiallyFilledClosed =
-            order.status === "closed" && order.filled > 0;
+    const stratKey = ctx.getId();
+    this.anchorIndices[stratKey] = state.anchorIndex;
+    this.isCloseDisabled[stratKey] = state.closeDisabled;
+    this.lastAnchorResetTime[stratKey] = state.lastAnchorResetTime;
+    this.logger.info(
+      `[BotEngine] [${config.id}] 恢复上次运行状态: 锚点 ${state.anchorIndex} | 平仓禁用: ${state.closeDisabled}`
+    );
+  }
 
-          if (!isFilled && !isPartiallyFilledClosed) continue;
+  /**
+   * 持久化策略运行状态
+   */
+  private saveState(ctx: GridContext): void {
+    const stratKey = ctx.getId();
+    ctx.updateState({
+      anchorIndex: this.anchorIndices[stratKey] ?? null,
+      closeDisabled: !!this.isCloseDisabled[stratKey],
+      lastAnchorResetTime: this.lastAnchorResetTime[stratKey] || 0,
+    });
+  }
 
-          // 1. 查找该 symbol 下的所有相关策略 (联动响应)
-          const relatedContexts = this.gridContexts.filter(
-            c => c.getConfig().symbol === order.symbol
-          );
-          if (relatedContexts.length === 0) continue;
-
-          logger.info(
-            `[BotEngine] 确认成交: ${order.symbol} | ${order.side} | 价格: ${
-              order.average || order.price
-            } | 状态: ${order.status} | 联动刷新策略数: ${
-              relatedContexts.length
-            }`
-          );
+  /**
+   * 核对上次运行记录的订单：已结束且有成交的按成交处理，仍在挂单的补记部分成交
+   * @param trackedOrderIds 交易对 -> 上次运行记录的订单 ID
+   */
+  private async recoverOfflineFills(
+    trackedOrderIds: Record<string, string[]>
+  ): Promise<void> {
+    for (const [symbol, ids] of Object.entries(trackedOrderIds)) {
+      if (ids.length === 0) continue;
 
-          // 2. 确定锚定参考价
-          const appConfig = ConfigLoader.getInstance().getConfig();
-          let referencePrice = order.price;
+      try {
+        const openOrders = await this.exchange.client.fetchOpenOrders(symbol);
+        const openById = new Map<string, any>(
+          openOrders.map((o: any) => [o.id, o])
+        );
 
-          // 如果开启了跟随市价，则尝试获取最新 Ticker 价格作为锚定基准
-          if (appConfig.default.follow_market_on_fill) {
-            try {
-              const ticker = await this.exchange.client.fetchTicker(
-                order.symbol
-              );
-              referencePrice = ticker.last;
-              logger.info(
-                `[BotEngine] [${order.symbol}] 开启成交联动跟随，锚定基准: 成交价 ${order.price} -> 最新价 ${referencePrice}`
-              );
-            } catch (e) {
-              logger.warn(
-                `[BotEngine] 获取最新价失败，回退到成交价锚定: ${order.price}`
-              );
+        for (const id of ids) {
+          const openOrder = openById.get(id);
+          if (openOrder) {
+            const ownerCtx = this.findOwnerContext(openOrder);
+            if (ownerCtx && openOrder.filled > 0) {
+              this.recordOrderFill(ownerCtx, openOrder);
             }
+            continue;
           }
 
-          // 3. 并发刷新所有相关策略
-          await Promise.all(
-            relatedContexts.map(async ctx => {
-              const config = ctx.getConfig();
-              const stratKey = this.getStratKey(
-                config.symbol,
-                config.direction
-              );
-
-              const nearest = ctx.getNearestLevels(referencePrice);
-              if (nearest) {
-                const newAnchor =
-                  Math.abs(nearest[0].price - referencePrice) <
-                  Math.abs(nearest[1].price - referencePrice)
-                    ? nearest[0].index
-                    : nearest[1].index;
-
-                // 更新锚点（引入利润保护约束）
-                const oldAnchor = this.anchorIndices[stratKey];
-                let finalAnchor = newAnchor;
-
-                // 只有触发成交的那个策略才需要利润保护约束（防止 0 利润挂单）
-                const isTriggeringStrat =
-                  (order.side === "buy" &&
-                    config.direction === GridDirection.LONG) ||
-                  (order.side === "sell" &&
-                    config.direction === GridDirection.SHORT);
-
-                if (isTriggeringStrat) {
-                  const filledNearest = ctx.getNearestLevels(order.price);
-                  if (filledNearest) {
-                    const filledIdx =
-                      Math.abs(filledNearest[0].price - order.price) <
-                      Math.abs(filledNearest[1].price - order.price)
-                        ? filledNearest[0].index
-                        : filledNearest[1].index;
-
-                    // 获取订单的 tradeSide (开/平)
-                    const tradeSide = order.info.tradeSide;
-
-                    if (tradeSide === "open") {
-                      if (config.direction === GridDirection.LONG) {
-                        // 开多后，锚点不能低于买入位，确保平多单在上方
-                        finalAnchor = Math.max(newAnchor, filledIdx);
-                      } else {
-                        // 开空后，锚点不能高于卖出位，确保平空单在下方
-                        finalAnchor = Math.min(newAnchor, filledIdx);
-                      }
-                    }
-                  }
-                }
-
-                this.anchorIndices[stratKey] = finalAnchor;
-
-                // 只有当锚点确实发生了位移，或者正是成交方，才执行同步操作
-                if (newAnchor !== oldAnchor || isTriggeringStrat) {
-                  logger.info(
-                    `[BotEngine] [${config.symbol}] [${config.direction}] 联动更新锚点: ${oldAnchor} -> ${newAnchor}`
-                  );
-
-                  // 如果有成交，说明可能产生了新仓位，重置平仓禁用状态
-                  if (isTriggeringStrat && this.isCloseDisabled[stratKey]) {
-                    this.isCloseDisabled[stratKey] = false;
-                  }
-
-                  await this.refreshGridOrdersByAnchor(ctx);
-                }
-              }
-            })
+          let order: any;
+          try {
+            order = await this.exchange.client.fetchOrder(id, symbol);
+          } catch (error: any) {
+            this.logger.warn(
+              `[BotEngine] [${symbol}] 查询上次运行的订单 ${id} 失败，跳过: ${error.message}`
+            );
+            continue;
+          }
+          if (!isOrderFilled(order) || !this.reconciler.markHandled(order)) {
+            continue;
+          }
+          this.logger.warn(
+            `[BotEngine] [${symbol}] 发现停机期间的成交: ID ${order.id} | clientOrderId: ${order.clientOrderId} | 数量: ${order.filled}`
           );
+          await this.handleFilledOrder(order);
         }
       } catch (error: any) {
-        logger.error(`[BotEngine] watchOrders 异常: ${error.message}`);
-        // 避免死循环瞬间消耗 CPU，等待一秒后重试
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        this.logger.error(
+          `[BotEngine] [${symbol}] 核对上次运行的订单失败: ${error.message}`
+        );
       }
     }
   }
 
   /**
-   * 并行价格监听循环：每个策略独立运行，实现积极锚点追随
+   * 初始挂单：根据当前价格挂出第一组单 (已恢复锚点时沿用上次的锚点)
    */
-  private async watchTickerLoop(ctx: GridContext): Promise<void> {
-    const appConfig = ConfigLoader.getInstance().getConfig();
-    // 如果开启了自动建仓模式，则禁用锚点重置特性
-    if (appConfig.default.auto_initial_position) {
-      logger.info(
-        `[BotEngine] [${
-          ctx.getConfig().symbol
-        }] 自动建仓模式已开启，禁用锚点重置监听`
+  private async initialPositioning(ctx: GridContext): Promise<void> {
+    const config = ctx.getConfig();
+    const stratKey = ctx.getId();
+    if (this.anchorIndices[stratKey] !== undefined) {
+      this.logger.info(
+        `[BotEngine] [${config.id}] 沿用上次的锚点 ${
+          this.anchorIndices[stratKey]
+        }，与交易所挂单同步...`
       );
+      await this.refreshGridOrdersByAnchor(ctx);
       return;
     }
 
-    const config = ctx.getConfig();
-    const stratKey = this.getStratKey(config.symbol, config.direction);
+    const ticker = await this.exchange.client.fetchTicker(config.symbol);
+    const currentPrice = ticker.last;
 
-    while (this.isRunning) {
-      try {
-        const ticker = await this.exchange.client.watchTicker(config.symbol);
-        const currentPrice = ticker.last;
+    this.logger.info(
+      `[BotEngine] [${config.id}] 初始价格: ${currentPrice}，正在寻找初始锚点...`
+    );
 
-        const anchorIdx = this.anchorIndices[stratKey];
-        if (anchorIdx === undefined) continue;
+    let nearest = ctx.getNearestLevels(currentPrice);
+    if (!nearest && (await this.trailGrid(ctx, currentPrice))) {
+      nearest = ctx.getNearestLevels(currentPrice);
+    }
+    if (!nearest) {
+      this.logger.warn(`[BotEngine] [${config.id}] 初始价格超出网格范围`);
+      return;
+    }
 
-        const levels = ctx.getLevels();
-        const anchorPrice = levels[anchorIdx].price;
-        const gridDiff = levels[1].price - levels[0].price;
+    // 初始锚点设为当前最接近的下边界索引
+    this.anchorIndices[stratKey] = nearest[0].index;
+    // NEUTRAL 以启动价所在刻度为空仓基准线，下方开多、上方开空
+    if (
+      config.direction === GridDirection.NEUTRAL &&
+      ctx.getState().baselineIndex === null
+    ) {
+      ctx.updateState({ baselineIndex: nearest[0].index });
+      this.logger.info(
+        `[BotEngine] [${config.id}] [NEUTRAL] 空仓基准线: 刻度 ${nearest[0].index} (${nearest[0].price})`
+      );
+    }
+    await this.refreshGridOrdersByAnchor(ctx);
+  }
 
-        /**
-         * 积极追随逻辑：
-         * 防止价格在网格间隙中大幅波动而没有触发订单（例如跳空或订单未成交）。
-         *
-         * 修正：
-         * 1. 动态计算当前价格附近的 gridDiff (等比网格中，高价位的 gridDiff 比低价位大)。
-         * 2. 增加阈值到 2.0 倍 gridDiff，避免在网格边缘频繁震荡。
-         * 3. 增加时间冷却 (Cooldown)，避免短时间内连续重置。
-         */
+  /**
+   * 追踪模式：价格离开网格区间时整体平移网格
+   * 先撤销本策略的挂单并记录撤单前的成交，平移刻度后按配置处理移出刻度上的持仓，锚点随刻度重新编号
+   * @returns 是否发生了平移 (由调用方重新定位锚点并刷新挂单)
+   */
+  private async trailGrid(
+    ctx: GridContext,
+    currentPrice: number
+  ): Promise<boolean> {
+    const shift = ctx.getTrailShift(currentPrice);
+    if (shift === 0) return false;
 
-        // 动态获取当前锚点附近的网格间距
-        let currentGridDiff = 0;
-        if (anchorIdx < levels.length - 1) {
-          currentGridDiff =
-            levels[anchorIdx + 1].price - levels[anchorIdx].price;
-        } else if (anchorIdx > 0) {
-          currentGridDiff =
-            levels[anchorIdx].price - levels[anchorIdx - 1].price;
-        } else {
-          // Fallback (极少情况)
-          currentGridDiff = levels[1].price - levels[0].price;
+    const config = ctx.getConfig();
+    const stratKey = ctx.getId();
+    const label = `[${config.id}]`;
+    const release = await this.getLock(stratKey).acquire();
+
+    try {
+      await this.cancelAndRecordFills(ctx);
+      const dropped = ctx.shiftLevels(shift);
+      const levels = ctx.getLevels();
+      this.logger.info(
+        `[BotEngine] ${label} 价格 ${currentPrice} 离开网格区间，网格${
+          shift > 0 ? "上移" : "下移"
+        } ${Math.abs(shift)} 格，新刻度范围: [${levels[0].price}, ${
+          levels[levels.length - 1].price
+        }]`
+      );
+
+      const anchor = this.anchorIndices[stratKey];
+      if (anchor !== undefined) {
+        this.anchorIndices[stratKey] = Math.min(
+          Math.max(anchor - shift, 0),
+          levels.length - 1
+        );
+      }
+      this.saveState(ctx);
+
+      // 移出刻度上的持仓：close 市价平掉，keep 留在账户中不再由网格管理
+      const policy = config.trailingInventory || "keep";
+      for (const { positionSide, amount } of dropped) {
+        if (policy === "keep") {
+          this.logger.warn(
+            `[BotEngine] ${label} 移出网格的 ${positionSide} 持仓 ${amount} 保留在账户中，不再由网格管理`
+          );
+          ctx.releasePosition(positionSide, amount);
+          continue;
+        }
+        this.logger.warn(
+          `[BotEngine] ${label} 移出网格的 ${positionSide} 持仓 ${amount}，执行市价平仓`
+        );
+        try {
+          await this.executor.placeMarketClose(
+            config.symbol,
+            positionSide,
+            amount
+          );
+          ctx.recordTrade(positionSide, "close", amount, currentPrice);
+        } catch (e: any) {
+          this.logger.error(
+            `[BotEngine] ${label} 移出网格的持仓平仓失败，仓位保留在账户中: ${e.message}`
+          );
+          ctx.releasePosition(positionSide, amount);
+        }
+      }
+    } finally {
+      release();
+    }
+    return true;
+  }
+
+  /**
+   * 波动率自适应间距循环：每根 K 线周期估算一次 ATR，间距变化超过滞回阈值时重建网格
+   */
+  private async adaptiveSpreadLoop(ctx: GridContext): Promise<void> {
+    while (this.isActive(ctx)) {
+      // 每轮重新读取配置，热更新关闭自适应间距后退出
+      const config = ctx.getConfig();
+      if (!config.adaptiveSpread || this.isHalted(ctx)) return;
+      const timeframe = config.volatilityTimeframe || "1h";
+      const period = config.volatilityPeriod ?? 14;
+      const intervalMs = timeframeToMs(timeframe);
+
+      try {
+        const atrRatio = await this.volatility.estimate(
+          config.symbol,
+          timeframe,
+          period
+        );
+        const spread =
+          atrRatio === null ? null : ctx.getAdaptiveSpread(atrRatio);
+        if (spread !== null) {
+          this.logger.info(
+            `[BotEngine] [${config.id}] 波动率 ATR/价格: ${atrRatio!.toFixed(6)}，网格间距 ${ctx.getSpread()} -> ${spread}`
+          );
+          await this.rebuildGrid(ctx, `按间距 ${spread} `, () =>
+            ctx.respace(spread)
+          );
+        }
+      } catch (error: any) {
+        this.logger.error(
+          `[BotEngine] [${config.id}] 自适应间距更新失败: ${error.message}`
+        );
+      }
+      await this.clock.sleep(intervalMs);
+    }
+  }
+
+  /**
+   * 撤销本策略挂单并以撤单后的最终状态记录成交 (刻度重新编号前调用，持仓记录完整后再迁移)
+   */
+  private async cancelAndRecordFills(ctx: GridContext): Promise<void> {
+    const config = ctx.getConfig();
+    const openOrders = (
+      await this.exchange.client.fetchOpenOrders(config.symbol)
+    ).filter((o: any) => this.executor.isStrategyOrder(o, config));
+    await this.executor.cancelStrategyOrders(config);
+
+    for (const order of openOrders) {
+      try {
+        const final = await this.exchange.client.fetchOrder(
+          order.id,
+          config.symbol
+        );
+        this.recordOrderFill(ctx, final);
+        // 已结束的订单不再由 WebSocket 推送按旧刻度触发联动
+        if (isOrderFilled(final) && this.reconciler.markHandled(final)) {
+          ctx.forgetOrder(final.id);
+        }
+      } catch (e: any) {
+        this.logger.warn(
+          `[BotEngine] [${config.id}] 查询撤销的订单 ${order.id} 失败: ${e.message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 重建网格 (自适应间距变化、热更新修改刻度参数)：撤销本策略挂单并记录撤单前的成交，
+   * 将持仓迁移到新刻度后以当前价格重新定位锚点并挂单
+   * @param reason 日志中的重建说明
+   * @param rebuild 重新生成刻度
+   */
+  private async rebuildGrid(
+    ctx: GridContext,
+    reason: string,
+    rebuild: () => void
+  ): Promise<void> {
+    const config = ctx.getConfig();
+    const stratKey = ctx.getId();
+    const release = await this.getLock(stratKey).acquire();
+
+    try {
+      await this.cancelAndRecordFills(ctx);
+      rebuild();
+      const levels = ctx.getLevels();
+      this.logger.info(
+        `[BotEngine] [${config.id}] 网格已${reason}重建: ${levels.length} 个刻度 [${levels[0].price}, ${
+          levels[levels.length - 1].price
+        }]`
+      );
+
+      const ticker = await this.exchange.client.fetchTicker(config.symbol);
+      const nearest = ctx.getNearestLevels(ticker.last);
+      const anchor = this.anchorIndices[stratKey];
+      if (nearest) {
+        this.anchorIndices[stratKey] = nearest[0].index;
+      } else if (anchor !== undefined) {
+        this.anchorIndices[stratKey] = Math.min(anchor, levels.length - 1);
+      }
+      this.saveState(ctx);
+    } finally {
+      release();
+    }
+    await this.refreshGridOrdersByAnchor(ctx);
+  }
+
+  /**
+   * 核心逻辑：基于锚点索引 (Anchor Index) 刷新挂单
+   */
+  private async refreshGridOrdersByAnchor(ctx: GridContext): Promise<void> {
+    const config = ctx.getConfig();
+    const stratKey = ctx.getId();
+
+    // 使用互斥锁确保同一策略不会并发执行同步
+    const release = await this.getLock(stratKey).acquire();
+
+    try {
+      // 已停止的策略或账户风控触发后不再挂单
+      if (this.isHalted(ctx)) return;
+
+      let retrySync = true;
+      while (retrySync) {
+        retrySync = false;
+        const anchorIndex = this.anchorIndices[stratKey];
+        const levels = ctx.getLevels();
+
+        if (anchorIndex === undefined) break;
+
+        // 1. 计算挂单窗口
+        const windowSize = config.orderWindow || 1;
+        let targets: GridOrderTarget[] = [];
+
+        // 刻度上的持仓动作由策略方向决定，开仓单按刻度的计划数量，平仓单按对应开仓刻度的实际成交量
+        const buildTarget = (
+          idx: number,
+          side: "buy" | "sell"
+        ): GridOrderTarget => {
+          const { positionSide, action } = ctx.getOrderIntent(idx, side);
+          return {
+            levelIndex: idx,
+            price: levels[idx].price,
+            amount:
+              action === "open"
+                ? ctx.getLevelQuantity(idx)
+                : ctx.getCloseAmount(idx, positionSide),
+            action,
+            positionSide,
+          };
+        };
+
+        // 下方挂单窗口 (买单区)
+        for (let i = 1; i <= windowSize; i++) {
+          const idx = anchorIndex - i;
+          if (idx < 0) break;
+          targets.push(buildTarget(idx, "buy"));
+        }
+
+        // 上方挂单窗口 (卖单区)
+        for (let i = 1; i <= windowSize; i++) {
+          const idx = anchorIndex + i;
+          if (idx >= levels.length) break;
+          targets.push(buildTarget(idx, "sell"));
+        }
+
+        // 无仓位时过滤平仓单 (LONG 在上方，SHORT 在下方，NEUTRAL 两侧都可能有)
+        if (this.isCloseDisabled[stratKey]) {
+          targets = targets.filter(t => t.action !== "close");
+        }
+
+        // 接近强平或资金费率不利的持仓方向只保留离锚点最近的几格开仓单 (0 格即暂停开仓)
+        targets = targets.filter(t => {
+          if (t.action !== "open" || !t.positionSide) return true;
+          const openWindow = this.getOpenWindowLimit(ctx, t.positionSide);
+          return (
+            openWindow === undefined ||
+            Math.abs(t.levelIndex - anchorIndex) <= openWindow
+          );
+        });
+
+        // 达到持仓上限后暂停开仓挂单，平仓单照常挂出
+        targets = this.applyInventoryCaps(ctx, targets, anchorIndex);
+
+        this.logger.info(
+          `[BotEngine] [${config.id}] 锚点: ${anchorIndex} (${levels[anchorIndex].price}) | 执行同步...`
+        );
+
+        try {
+          const activeOrders = await this.executor.syncActiveOrders(
+            config,
+            targets
+          );
+          if (activeOrders) ctx.setActiveOrders(activeOrders);
+        } catch (error: any) {
+          if (error.code === "NO_POSITION") {
+            this.logger.warn(
+              `[BotEngine] [${config.id}] 检测到无仓位平仓报错，暂时禁用平仓挂单并重试`
+            );
+            this.isCloseDisabled[stratKey] = true;
+            retrySync = true; // 循环重试，避免递归导致的死锁
+          } else {
+            throw error;
+          }
+        }
+      }
+      this.saveState(ctx);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 持仓方向的开仓挂单格数限制 (强平保护与资金费率规则中较严格的一个，无限制时为 undefined)
+   */
+  private getOpenWindowLimit(
+    ctx: GridContext,
+    side: PositionSide
+  ): number | undefined {
+    const id = ctx.getId();
+    const limits: number[] = [];
+    if (this.liquidationGuards[id]?.has(side)) {
+      limits.push(ctx.getConfig().liquidationGuardOpenWindow ?? 0);
+    }
+    const funding = this.fundingWindows[id]?.[side];
+    if (funding !== undefined) limits.push(funding);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
+  /**
+   * 持仓上限：从离锚点最近的开仓单开始保留，直到持仓加上开仓单将超过本策略的
+   * maxPosition / maxNotional / maxFilledLevels 或所有策略的 max_total_notional
+   */
+  private applyInventoryCaps(
+    ctx: GridContext,
+    targets: GridOrderTarget[],
+    anchorIndex: number
+  ): GridOrderTarget[] {
+    const config = ctx.getConfig();
+    const id = ctx.getId();
+    const { maxPosition, maxNotional, maxFilledLevels } = config;
+    const maxTotal = this.config.default.max_total_notional;
+    const levels = ctx.getLevels();
+    const exposure = ctx.getExposure(levels[anchorIndex].price);
+    const totalNotional =
+      maxTotal !== undefined ? this.getTotalNotional() : 0;
+
+    // 按离锚点由近到远累计开仓单
+    let { contracts, notional, filledLevels } = exposure;
+    let total = totalNotional;
+    let cap: InventoryCap | null = null;
+    const suppressed = new Set<GridOrderTarget>();
+    const opens = targets
+      .filter(t => t.action === "open")
+      .sort(
+        (a, b) =>
+          Math.abs(a.levelIndex - anchorIndex) -
+          Math.abs(b.levelIndex - anchorIndex)
+      );
+    for (const target of opens) {
+      const value = target.amount * target.price;
+      // 已有持仓的刻度 (例如部分成交后重新挂出) 不增加持仓刻度数
+      const newLevel = !(levels[target.levelIndex]?.filledAmount > 0);
+      if (!cap) {
+        if (
+          maxPosition !== undefined &&
+          contracts + target.amount > maxPosition + 1e-9
+        ) {
+          cap = {
+            name: "maxPosition",
+            limit: maxPosition,
+            current: exposure.contracts,
+          };
+        } else if (maxNotional !== undefined && notional + value > maxNotional) {
+          cap = {
+            name: "maxNotional",
+            limit: maxNotional,
+            current: exposure.notional,
+          };
+        } else if (
+          maxFilledLevels !== undefined &&
+          newLevel &&
+          filledLevels + 1 > maxFilledLevels
+        ) {
+          cap = {
+            name: "maxFilledLevels",
+            limit: maxFilledLevels,
+            current: exposure.filledLevels,
+          };
+        } else if (maxTotal !== undefined && total + value > maxTotal) {
+          cap = {
+            name: "max_total_notional",
+            limit: maxTotal,
+            current: totalNotional,
+          };
+        }
+      }
+      if (cap) {
+        suppressed.add(target);
+        continue;
+      }
+      contracts += target.amount;
+      notional += value;
+      if (newLevel) filledLevels++;
+      total += value;
+    }
+
+    // 上限状态变化时记录日志 (同一上限只提示一次)
+    const previous = this.inventoryCaps[id];
+    if (cap && cap.name !== previous?.name) {
+      this.logger.warn(
+        `[BotEngine] [${id}] 达到持仓上限 ${cap.name} = ${
+          cap.limit
+        } (当前 ${+cap.current.toFixed(8)})，暂停 ${
+          suppressed.size
+        } 个开仓挂单，平仓单照常`
+      );
+    } else if (!cap && previous) {
+      this.logger.info(`[BotEngine] [${id}] 持仓低于上限，恢复开仓挂单`);
+    }
+    this.inventoryCaps[id] = cap;
+    return targets.filter(t => !suppressed.has(t));
+  }
+
+  /**
+   * 所有策略持仓名义价值之和 (按各策略锚点价格估算)
+   */
+  private getTotalNotional(): number {
+    return this.gridContexts.reduce((sum, ctx) => {
+      const price = this.getAnchorPrice(ctx);
+      return price !== null ? sum + ctx.getExposure(price).notional : sum;
+    }, 0);
+  }
+
+  /**
+   * 策略锚点刻度的价格 (尚未定位锚点时为 null)
+   */
+  private getAnchorPrice(ctx: GridContext): number | null {
+    const anchor = this.anchorIndices[ctx.getId()];
+    return anchor !== undefined ? ctx.getLevels()[anchor]?.price ?? null : null;
+  }
+
+  /**
+   * WebSocket 订单监听循环
+   */
+  private async watchOrdersLoop(): Promise<void> {
+    this.logger.info("[BotEngine] 启动 watchOrders 监听任务...");
+
+    // 显式激活每个 symbol 的订单订阅
+    for (const ctx of this.gridContexts) {
+      this.subscribeOrders(ctx.getConfig().symbol);
+    }
+
+    // WebSocket 异常后需要在下一轮监听前执行对账
+    let needReconcile = false;
+
+    while (this.isRunning) {
+      try {
+        if (needReconcile) {
+          needReconcile = false;
+          await this.reconcileFills("WebSocket 重连");
+        }
+
+        // 监听订单更新
+        const orders = await this.exchange.client.watchOrders();
+
+        if (!orders || orders.length === 0) continue;
+
+        for (const order of orders) {
+          // 增加调试日志，捕获所有状态变更
+          this.logger.info(
+            `[Debug] 收到订单推送: ${order.symbol} | ID: ${order.id} | 状态: ${order.status} | 成交量: ${order.filled}/${order.amount}`
+          );
+
+          // 部分成交：只记录成交量，订单结束后再联动刷新
+          if (!isOrderFilled(order)) {
+            const ownerCtx = this.findOwnerContext(order);
+            if (ownerCtx && order.filled > 0) {
+              this.recordOrderFill(ownerCtx, order);
+            }
+            continue;
+          }
+
+          // 处理已成交 (filled) 或 部分成交后关闭/撤销 的订单
+          // 已由对账补充处理过的成交不重复处理
+          if (!this.reconciler.markHandled(order)) continue;
+
+          await this.handleFilledOrder(order);
+        }
+      } catch (error: any) {
+        this.logger.error(`[BotEngine] watchOrders 异常: ${error.message}`);
+        // 避免死循环瞬间消耗 CPU，等待一秒后重试
+        await this.clock.sleep(1000);
+        needReconcile = true;
+      }
+    }
+  }
+
+  /**
+   * 激活交易对的订单订阅
+   */
+  private subscribeOrders(symbol: string): void {
+    this.exchange.client.watchOrders(symbol).catch((e: any) => {
+      this.logger.error(`[BotEngine] 订阅 ${symbol} 订单失败: ${e.message}`);
+    });
+  }
+
+  /**
+   * 定时对账循环 (reconcile_interval_seconds = 0 时关闭)
+   */
+  private async reconcileLoop(): Promise<void> {
+    const intervalSeconds =
+      this.config.default.reconcile_interval_seconds ?? 60;
+    if (intervalSeconds <= 0) return;
+
+    while (this.isRunning) {
+      await this.clock.sleep(intervalSeconds * 1000);
+      if (!this.isRunning) break;
+      await this.reconcileFills("定时对账");
+    }
+  }
+
+  /**
+   * REST 对账：查询每个交易对上次成交之后的已关闭订单，
+   * 将 WebSocket 未推送的成交按时间顺序交给 handleFilledOrder 处理
+   */
+  private async reconcileFills(reason: string): Promise<void> {
+    await this.reconcileLock.runExclusive(async () => {
+      const symbols = [
+        ...new Set(this.gridContexts.map(c => c.getConfig().symbol)),
+      ];
+      for (const symbol of symbols) {
+        try {
+          const missed = await this.reconciler.reconcile(symbol);
+          if (missed.length > 0) {
+            this.logger.warn(
+              `[BotEngine] [${symbol}] ${reason}: 补充处理 ${missed.length} 笔遗漏成交`
+            );
+          }
+          for (const order of missed) {
+            await this.handleFilledOrder(order);
+          }
+        } catch (error: any) {
+          this.logger.error(
+            `[BotEngine] [${symbol}] ${reason}失败: ${error.message}`
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * 通过 clientOrderId 中的策略标签找到订单所属的策略
+   */
+  private findOwnerContext(order: any): GridContext | undefined {
+    const tag = parseClientOrderId(order.clientOrderId);
+    if (!tag) return undefined;
+    return this.gridContexts.find(
+      c => getStrategyTag(c.getId()) === tag.strategyTag
+    );
+  }
+
+  /**
+   * 按订单累计成交量更新所属刻度的持仓数量
+   */
+  private recordOrderFill(ctx: GridContext, order: any): void {
+    const tag = parseClientOrderId(order.clientOrderId)!;
+    const delta = ctx.recordFill(
+      order.id,
+      tag.levelIndex,
+      tag.action,
+      tag.positionSide,
+      order.filled || 0,
+      order.average || order.price
+    );
+    if (delta > 0) {
+      this.logger.info(
+        `[BotEngine] [${order.symbol}] 刻度 ${tag.levelIndex} (${tag.action}) 成交 ${delta} | 累计: ${order.filled}/${order.amount}`
+      );
+    }
+  }
+
+  /**
+   * 处理一笔成交：更新相关策略的锚点并刷新挂单 (WebSocket 推送与 REST 对账共用)
+   */
+  private async handleFilledOrder(order: any): Promise<void> {
+    // 1. 通过 clientOrderId 找到成交所属的策略，非本机器人的订单不触发网格联动
+    const filledTag = parseClientOrderId(order.clientOrderId);
+    const ownerCtx = this.findOwnerContext(order);
+    if (!filledTag || !ownerCtx) {
+      this.logger.info(
+        `[BotEngine] 忽略非网格订单成交: ${order.symbol} | ID: ${order.id} | clientOrderId: ${order.clientOrderId}`
+      );
+      return;
+    }
+
+    // 记录该刻度的实际成交量 (平仓单按此数量挂出)
+    this.recordOrderFill(ownerCtx, order);
+    ownerCtx.forgetOrder(order.id);
+
+    // 查找该 symbol 下的所有相关策略 (联动响应，已停止的策略除外)
+    const relatedContexts = this.gridContexts.filter(
+      c => c.getConfig().symbol === order.symbol && !this.isHalted(c)
+    );
+
+    this.logger.info(
+      `[BotEngine] 确认成交: ${order.symbol} | ${order.side} | 价格: ${
+        order.average || order.price
+      } | 刻度: ${filledTag.levelIndex} (${
+        filledTag.action
+      }) | 状态: ${order.status} | 联动刷新策略数: ${
+        relatedContexts.length
+      }`
+    );
+
+    // 2. 确定锚定参考价
+    // 开启跟随市价的策略以最新 Ticker 价格作为锚定基准，其余策略使用成交价
+    let marketPrice = order.price;
+    if (relatedContexts.some(c => c.getConfig().followMarketOnFill)) {
+      try {
+        const ticker = await this.exchange.client.fetchTicker(
+          order.symbol
+        );
+        marketPrice = ticker.last;
+        this.logger.info(
+          `[BotEngine] [${order.symbol}] 开启成交联动跟随，锚定基准: 成交价 ${order.price} -> 最新价 ${marketPrice}`
+        );
+      } catch (e) {
+        this.logger.warn(
+          `[BotEngine] 获取最新价失败，回退到成交价锚定: ${order.price}`
+        );
+      }
+    }
+
+    // 3. 并发刷新所有相关策略
+    await Promise.all(
+      relatedContexts.map(async ctx => {
+        const config = ctx.getConfig();
+        const stratKey = ctx.getId();
+        const referencePrice = config.followMarketOnFill
+          ? marketPrice
+          : order.price;
+
+        const nearest = ctx.getNearestLevels(referencePrice);
+        if (nearest) {
+          const newAnchor =
+            Math.abs(nearest[0].price - referencePrice) <
+            Math.abs(nearest[1].price - referencePrice)
+              ? nearest[0].index
+              : nearest[1].index;
+
+          // 更新锚点（引入利润保护约束）
+          const oldAnchor = this.anchorIndices[stratKey];
+          let finalAnchor = newAnchor;
+
+          // 只有触发成交的那个策略才需要利润保护约束（防止 0 利润挂单）
+          const isTriggeringStrat = ctx === ownerCtx;
+
+          // 成交刻度直接取自 clientOrderId
+          if (isTriggeringStrat && filledTag.action === "open") {
+            const filledIdx = filledTag.levelIndex;
+            if (filledTag.positionSide === "long") {
+              // 开多后，锚点不能低于买入位，确保平多单在上方
+              finalAnchor = Math.max(newAnchor, filledIdx);
+            } else {
+              // 开空后，锚点不能高于卖出位，确保平空单在下方
+              finalAnchor = Math.min(newAnchor, filledIdx);
+            }
+          }
+
+          this.anchorIndices[stratKey] = finalAnchor;
+          this.saveState(ctx);
+
+          // 只有当锚点确实发生了位移，或者正是成交方，才执行同步操作
+          if (newAnchor !== oldAnchor || isTriggeringStrat) {
+            this.logger.info(
+              `[BotEngine] [${config.id}] 联动更新锚点: ${oldAnchor} -> ${newAnchor}`
+            );
+
+            // 如果有成交，说明可能产生了新仓位，重置平仓禁用状态
+            if (isTriggeringStrat && this.isCloseDisabled[stratKey]) {
+              this.isCloseDisabled[stratKey] = false;
+            }
+
+            await this.refreshGridOrdersByAnchor(ctx);
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * 并行价格监听循环：每个策略独立运行，实现积极锚点追随
+   */
+  private async watchTickerLoop(ctx: GridContext): Promise<void> {
+    const stratKey = ctx.getId();
+    let anchorReset: boolean | undefined;
+
+    while (this.isActive(ctx)) {
+      // 每轮重新读取配置，热更新后立即生效
+      const config = ctx.getConfig();
+      const trailing = !!(config.trailingUp || config.trailingDown);
+      if (this.isHalted(ctx)) return;
+
+      // 如果开启了自动建仓模式，则禁用锚点重置特性 (网格追踪与波动率估算仍需监听价格)
+      if (anchorReset !== !config.autoInitialPosition) {
+        anchorReset = !config.autoInitialPosition;
+        if (!anchorReset) {
+          this.logger.info(
+            `[BotEngine] [${config.id}] 自动建仓模式已开启，禁用锚点重置监听`
+          );
+        }
+      }
+      if (!this.needsTicker(config)) return;
+
+      try {
+        const ticker = await this.exchange.client.watchTicker(config.symbol);
+        const currentPrice = ticker.last;
+        if (config.adaptiveSpread) {
+          this.volatility.recordPrice(config.symbol, currentPrice);
+        }
+        if (await this.checkExitRules(ctx, currentPrice)) return;
+
+        const anchorIdx = this.anchorIndices[stratKey];
+        if (anchorIdx === undefined) continue;
+
+        // 价格离开网格区间时平移网格，锚点定位到当前价格
+        if (trailing && (await this.trailGrid(ctx, currentPrice))) {
+          const nearest = ctx.getNearestLevels(currentPrice);
+          if (nearest) {
+            this.anchorIndices[stratKey] =
+              Math.abs(nearest[0].price - currentPrice) <
+              Math.abs(nearest[1].price - currentPrice)
+                ? nearest[0].index
+                : nearest[1].index;
+            this.lastAnchorResetTime[stratKey] = this.clock.now();
+          }
+          await this.refreshGridOrdersByAnchor(ctx);
+          continue;
         }
+        if (!anchorReset) continue;
+
+        const levels = ctx.getLevels();
+        const anchorPrice = levels[anchorIdx].price;
+
+        /**
+         * 积极追随逻辑：
+         * 防止价格在网格间隙中大幅波动而没有触发订单（例如跳空或订单未成交）。
+         *
+         * 修正：
+         * 1. 动态计算当前价格附近的 gridDiff (等比网格中，高价位的 gridDiff 比低价位大；等差网格为固定间距)。
+         * 2. 增加阈值到 2.0 倍 gridDiff，避免在网格边缘频繁震荡。
+         * 3. 增加时间冷却 (Cooldown)，避免短时间内连续重置。
+         */
+
+        // 动态获取当前锚点附近的网格间距
+        const currentGridDiff = ctx.getLevelSpacing(anchorIdx);
 
-        // 阈值设为 2 倍间距，提供足够的缓冲区
-        const threshold = currentGridDiff * 2.0;
+        // 阈值默认 2 倍间距，提供足够的缓冲区
+        const threshold =
+          currentGridDiff * (config.anchorResetSteps ?? 2.0);
 
         if (Math.abs(currentPrice - anchorPrice) > threshold) {
           // 检查冷却时间 (5秒)
-          const now = Date.now();
+          const now = this.clock.now();
           const lastReset = this.lastAnchorResetTime[stratKey] || 0;
           if (now - lastReset < 5000) {
             continue;
@@ -562,10 +1567,8 @@ export class BotEngine {
                 : nearest[1].index;
 
             if (newAnchor !== anchorIdx) {
-              logger.info(
-                `[BotEngine] [${config.symbol}] [${
-                  config.direction
-                }] 价格漂移 (${currentPrice})，积极重置锚点: ${anchorIdx} -> ${newAnchor} (Diff: ${currentGridDiff.toFixed(
+              this.logger.info(
+                `[BotEngine] [${config.id}] 价格漂移 (${currentPrice})，积极重置锚点: ${anchorIdx} -> ${newAnchor} (Diff: ${currentGridDiff.toFixed(
                   4
                 )}, Thr: ${threshold.toFixed(4)})`
               );
@@ -576,44 +1579,815 @@ export class BotEngine {
           }
         }
       } catch (error: any) {
-        logger.error(
-          `[BotEngine] [${config.symbol}] watchTicker 异常: ${error.message}`
+        this.logger.error(
+          `[BotEngine] [${config.id}] watchTicker 异常: ${error.message}`
+        );
+        await this.clock.sleep(1000);
+      }
+    }
+  }
+
+  /**
+   * 热更新配置：新增 / 移除策略，修改挂单窗口、数量等参数直接生效，
+   * 只有刻度参数变化的策略撤单后重建网格
+   * 新配置未通过校验时抛出异常且不做任何修改 (调用方继续使用当前配置)；
+   * 应用途中失败 (例如新增策略建仓被拒绝) 时已完成的步骤保留，
+   * 当前配置按实际运行的策略记录，下次热更新与实际状态比较
+   */
+  public async applyConfig(next: AppConfig): Promise<void> {
+    await this.reloadLock.runExclusive(async () => {
+      const strategies = this.validateReload(next);
+      const previous = this.config;
+
+      try {
+        // 1. 杠杆与保证金模式：只重新设置与已生效设置不同的交易对
+        const target = this.getLeverageSettings(strategies);
+        const changedSettings = Object.fromEntries(
+          Object.entries(target).filter(
+            ([symbol, settings]) =>
+              JSON.stringify(settings) !==
+              JSON.stringify(this.leverageSettings[symbol])
+          )
+        );
+        await this.applyLeverageSettings(changedSettings);
+        // 之后的步骤逐个策略按新配置运行，[default] 中直接读取的参数同时生效
+        this.config = {
+          ...previous,
+          default: {
+            ...next.default,
+            reconcile_interval_seconds:
+              previous.default.reconcile_interval_seconds,
+          },
+        };
+
+        // 2. 移除的策略：撤销挂单，持仓保留在账户中
+        const nextIds = new Set(strategies.map(s => s.id));
+        for (const ctx of [...this.gridContexts]) {
+          if (nextIds.has(ctx.getId())) continue;
+          const config = ctx.getConfig();
+          this.gridContexts = this.gridContexts.filter(c => c !== ctx);
+          await this.getLock(ctx.getId()).runExclusive(() =>
+            this.executor.cancelStrategyOrders(config)
+          );
+          this.logger.warn(
+            `[BotEngine] [${config.id}] [热更新] 策略已移除，挂单已撤销，持仓保留在账户中不再由网格管理`
+          );
+        }
+
+        // 3. 修改的策略
+        const newStrategies: GridConfig[] = [];
+        for (const strat of strategies) {
+          const ctx = this.gridContexts.find(c => c.getId() === strat.id);
+          if (!ctx) {
+            newStrategies.push(strat);
+            continue;
+          }
+          await this.updateStrategy(ctx, strat);
+        }
+
+        // 4. 新增的策略
+        const trackedOrderIds: Record<string, string[]> = {};
+        const subscribed = new Set(
+          this.gridContexts.map(c => c.getConfig().symbol)
+        );
+        for (const strat of newStrategies) {
+          this.logger.info(`[BotEngine] [${strat.id}] [热更新] 新增策略`);
+          trackedOrderIds[strat.symbol] = [
+            ...(trackedOrderIds[strat.symbol] || []),
+            ...(await this.startStrategy(strat)),
+          ];
+          if (!subscribed.has(strat.symbol)) {
+            subscribed.add(strat.symbol);
+            this.subscribeOrders(strat.symbol);
+          }
+        }
+        await this.recoverOfflineFills(trackedOrderIds);
+      } catch (error: any) {
+        this.strategies = this.gridContexts.map(c => c.getConfig());
+        this.logger.error(
+          `[BotEngine] [热更新] 应用失败，已生效的修改保留，运行中的策略: ${this.gridContexts.length}`
+        );
+        throw error;
+      } finally {
+        for (const ctx of this.gridContexts) {
+          this.startStrategyLoops(ctx);
+        }
+      }
+
+      // 5. 其它配置需重启后生效
+      const restartKeys: string[] = (
+        ["logger", "monitor", "paper", "recorder", "control", "risk"] as const
+      ).filter(
+        key => JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+      );
+      if (
+        previous.default.reconcile_interval_seconds !==
+        next.default.reconcile_interval_seconds
+      ) {
+        restartKeys.push("default.reconcile_interval_seconds");
+      }
+      if (restartKeys.length > 0) {
+        this.logger.warn(
+          `[BotEngine] [热更新] 以下配置需重启后生效: ${restartKeys.join(", ")}`
+        );
+      }
+
+      this.config = next;
+      this.strategies = strategies;
+      this.logger.info(
+        `[BotEngine] [热更新] 配置已生效，运行中的策略: ${this.gridContexts.length}`
+      );
+    });
+  }
+
+  /**
+   * 校验热更新的新配置 (不修改任何状态)
+   * @returns 新配置中启用的策略
+   */
+  private validateReload(next: AppConfig): GridConfig[] {
+    if (!this.isRunning) {
+      throw new Error("引擎未运行，无法热更新配置");
+    }
+    if (next.mode !== this.config.mode) {
+      throw new Error(
+        `交易模式 (mode) 不支持热更新: ${this.config.mode} -> ${next.mode}`
+      );
+    }
+    const exchangeKey = (config: AppConfig) =>
+      JSON.stringify(
+        (config.exchanges || []).map(({ name, enable }) => ({ name, enable }))
+      );
+    if (exchangeKey(next) !== exchangeKey(this.config)) {
+      throw new Error("交易所配置 (exchanges) 不支持热更新，请重启");
+    }
+
+    const strategies = this.resolveStrategies(next);
+    this.validateStrategies(next, strategies);
+    this.getLeverageSettings(strategies);
+    for (const strat of strategies) {
+      const ctx = this.gridContexts.find(c => c.getId() === strat.id);
+      if (!ctx) continue;
+      const { symbol, direction } = ctx.getConfig();
+      if (strat.symbol !== symbol || strat.direction !== direction) {
+        throw new Error(
+          `[${strat.id}] 交易对与方向不支持热更新 (${symbol} ${direction} -> ${strat.symbol} ${strat.direction})，请使用新的策略 id`
+        );
+      }
+    }
+    return strategies;
+  }
+
+  /**
+   * 热更新单个策略：记录每个变化的字段，刻度参数变化时重建网格，否则按新参数刷新挂单
+   */
+  private async updateStrategy(
+    ctx: GridContext,
+    strat: GridConfig
+  ): Promise<void> {
+    const config = ctx.getConfig();
+    const changes = [
+      ...new Set([...Object.keys(config), ...Object.keys(strat)]),
+    ]
+      .map(key => key as keyof GridConfig)
+      .filter(key => JSON.stringify(config[key]) !== JSON.stringify(strat[key]))
+      .map(
+        key =>
+          `${key}: ${JSON.stringify(config[key])} -> ${JSON.stringify(
+            strat[key]
+          )}`
+      );
+    if (changes.length === 0) return;
+
+    this.logger.info(
+      `[BotEngine] [${strat.id}] [热更新] 配置变更: ${changes.join("; ")}`
+    );
+    if (ctx.changesLevels(strat)) {
+      await this.rebuildGrid(ctx, "按新配置", () => ctx.updateConfig(strat));
+    } else {
+      ctx.updateConfig(strat);
+      await this.refreshGridOrdersByAnchor(ctx);
+    }
+  }
+
+  /**
+   * 检查止损、止盈与区间退出规则，触发时停止策略
+   * @returns 策略是否已停止
+   */
+  private async checkExitRules(
+    ctx: GridContext,
+    price: number
+  ): Promise<boolean> {
+    if (this.isHalted(ctx)) return true;
+    const config = ctx.getConfig();
+    if (!this.hasExitRules(config)) return false;
+
+    const { stopLossPrice, maxLoss, maxLossPercent, takeProfit } = config;
+    const { realized, unrealized, cost } = ctx.getPnl(price);
+    const lossPercent = cost > 0 ? (-unrealized / cost) * 100 : 0;
+    const { lowerPrice, upperPrice } = ctx.getRange();
+    // 追踪模式仍可平移时由 trailGrid 处理
+    const outOfRange =
+      (price <= lowerPrice || price >= upperPrice) &&
+      ctx.getTrailShift(price) === 0;
+
+    let reason: string | null = null;
+    let action: ExitAction = config.exitAction || "flatten";
+    if (
+      stopLossPrice !== undefined &&
+      config.direction !== GridDirection.NEUTRAL &&
+      (config.direction === GridDirection.LONG
+        ? price <= stopLossPrice
+        : price >= stopLossPrice)
+    ) {
+      reason = `价格 ${price} 触及止损价 ${stopLossPrice}`;
+    } else if (maxLoss !== undefined && -unrealized >= maxLoss) {
+      reason = `浮亏 ${(-unrealized).toFixed(2)} USDT 达到 maxLoss ${maxLoss}`;
+    } else if (maxLossPercent !== undefined && lossPercent >= maxLossPercent) {
+      reason = `浮亏 ${lossPercent.toFixed(2)}% 达到 maxLossPercent ${maxLossPercent}%`;
+    } else if (
+      takeProfit !== undefined &&
+      realized + unrealized >= takeProfit
+    ) {
+      reason = `策略盈亏 ${(realized + unrealized).toFixed(
+        2
+      )} USDT 达到 takeProfit ${takeProfit}`;
+    } else if (
+      outOfRange &&
+      config.rangeExit !== undefined &&
+      config.rangeExit !== "hold"
+    ) {
+      reason = `价格 ${price} 离开网格区间 [${lowerPrice}, ${upperPrice}]`;
+      action = config.rangeExit;
+    }
+    if (!reason) return false;
+
+    await this.haltStrategy(ctx, reason, action, price);
+    return true;
+  }
+
+  /**
+   * 停止策略：撤销本策略挂单，flatten 时按持仓账本市价平掉本策略的持仓，
+   * 持久化停止状态 (重启后不恢复交易)
+   */
+  private async haltStrategy(
+    ctx: GridContext,
+    reason: string,
+    action: ExitAction,
+    price: number
+  ): Promise<void> {
+    const config = ctx.getConfig();
+    const label = `[${config.id}]`;
+    const release = await this.getLock(ctx.getId()).acquire();
+
+    try {
+      if (ctx.getState().halted) return;
+      this.logger.error(
+        `[BotEngine] ${label} ${reason}，停止策略 (${action})`
+      );
+      await this.executor.cancelStrategyOrders(config);
+
+      if (action === "flatten") {
+        let closedAll = true;
+        const positions = Object.entries(ctx.getState().positions);
+        for (const [side, ledger] of positions) {
+          if (!ledger || ledger.amount <= 0) continue;
+          const positionSide = side as PositionSide;
+          try {
+            await this.executor.placeMarketClose(
+              config.symbol,
+              positionSide,
+              ledger.amount
+            );
+            ctx.recordTrade(positionSide, "close", ledger.amount, price);
+          } catch (e: any) {
+            closedAll = false;
+            this.logger.error(
+              `[BotEngine] ${label} ${positionSide} 持仓平仓失败，请手动处理: ${e.message}`
+            );
+          }
+        }
+        if (closedAll) ctx.clearInventory();
+      }
+
+      ctx.updateState({
+        halted: { reason, action, time: this.clock.now() },
+      });
+      this.logger.error(
+        `[BotEngine] ${label} 策略已停止，已实现盈亏: ${ctx
+          .getState()
+          .realizedPnl.toFixed(2)} USDT`
+      );
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 恢复已停止的策略：重新定位锚点并挂单
+   * @returns 策略不存在或未停止时返回 false
+   */
+  public async resumeStrategy(id: string): Promise<boolean> {
+    const ctx = this.gridContexts.find(c => c.getId() === id);
+    if (!ctx || !ctx.getState().halted) return false;
+    if (this.risk?.isTripped()) {
+      throw new Error("账户风控已触发，请先通过 POST /risk/reset 重置");
+    }
+
+    ctx.updateState({ halted: null });
+    this.logger.warn(`[BotEngine] [${id}] 策略已恢复交易`);
+    await this.restartTrading(ctx);
+    return true;
+  }
+
+  /**
+   * 停止后重新开始交易：停止期间价格可能已大幅变化，按当前价格重新定位锚点并挂单
+   */
+  private async restartTrading(ctx: GridContext): Promise<void> {
+    const id = ctx.getId();
+    delete this.anchorIndices[id];
+    this.isCloseDisabled[id] = false;
+    await this.checkAndBuildInitialPosition(ctx);
+    await this.initialPositioning(ctx);
+    if (this.isRunning) this.startStrategyLoops(ctx);
+  }
+
+  /**
+   * 定时执行账户风控检查，触发时停止所有策略
+   */
+  private async riskLoop(): Promise<void> {
+    const risk = this.risk;
+    if (!risk) return;
+    const intervalMs = (risk.getConfig().check_interval_seconds ?? 10) * 1000;
+
+    while (this.isRunning) {
+      try {
+        const symbols = [
+          ...new Set(this.gridContexts.map(c => c.getConfig().symbol)),
+        ];
+        const reason = await risk.check(symbols);
+        if (reason) await this.killAllStrategies(reason);
+      } catch (error: any) {
+        this.logger.error(`[BotEngine] 账户风控检查失败: ${error.message}`);
+      }
+      await this.clock.sleep(intervalMs);
+    }
+  }
+
+  /**
+   * 账户风控触发：撤销所有策略的挂单，按配置闪电平仓
+   * (触发状态已持久化，isHalted 阻止后续挂单)
+   */
+  private async killAllStrategies(reason: string): Promise<void> {
+    this.logger.error(`[BotEngine] 账户风控触发 (${reason})，停止所有策略`);
+    for (const ctx of this.gridContexts) {
+      const release = await this.getLock(ctx.getId()).acquire();
+      try {
+        await this.executor.cancelStrategyOrders(ctx.getConfig());
+      } finally {
+        release();
+      }
+    }
+
+    if (!this.risk?.getConfig().flatten) return;
+    const symbols = new Set(this.gridContexts.map(c => c.getConfig().symbol));
+    for (const symbol of symbols) {
+      await this.executor.flashClosePositions(symbol);
+      this.gridContexts
+        .filter(c => c.getConfig().symbol === symbol)
+        .forEach(c => c.clearInventory());
+    }
+  }
+
+  /**
+   * 定时查询持仓，更新各策略持仓方向的强平保护状态
+   */
+  private async positionLoop(): Promise<void> {
+    while (this.isRunning) {
+      const intervalSeconds =
+        this.config.default.position_check_interval_seconds ?? 10;
+      await this.clock.sleep(intervalSeconds * 1000);
+      if (!this.isRunning) break;
+
+      // 每轮重新筛选，热更新开启或关闭强平保护后立即生效
+      const contexts = this.gridContexts.filter(c => {
+        const config = c.getConfig();
+        return (
+          (config.liquidationGuardDistance !== undefined ||
+            config.liquidationGuardMarginRatio !== undefined) &&
+          !this.isHalted(c)
+        );
+      });
+      const symbols = new Set(contexts.map(c => c.getConfig().symbol));
+      for (const symbol of symbols) {
+        try {
+          const positions = await this.exchange.client.fetchPositions([
+            symbol,
+          ]);
+          const risks = positions
+            .filter((p: any) => p.symbol === symbol)
+            .map(getPositionRisk);
+          for (const ctx of contexts) {
+            if (ctx.getConfig().symbol !== symbol) continue;
+            await this.updateLiquidationGuard(ctx, risks);
+          }
+        } catch (error: any) {
+          this.logger.error(
+            `[BotEngine] [${symbol}] 强平保护检查持仓失败: ${error.message}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 按最新持仓更新策略的强平保护：触发时缩小开仓挂单窗口并按配置追加保证金，
+   * 解除后恢复完整窗口 (状态变化时重新同步挂单)
+   */
+  private async updateLiquidationGuard(
+    ctx: GridContext,
+    risks: PositionRisk[]
+  ): Promise<void> {
+    const config = ctx.getConfig();
+    const id = ctx.getId();
+    const guarded = (this.liquidationGuards[id] =
+      this.liquidationGuards[id] || new Set());
+    const limits = {
+      distance: config.liquidationGuardDistance,
+      marginRatio: config.liquidationGuardMarginRatio,
+    };
+    let changed = false;
+
+    for (const side of ctx.getPositionSides()) {
+      const risk = risks.find(r => r.positionSide === side);
+      const active = guarded.has(side);
+      const needed = !!risk && needsLiquidationGuard(risk, limits, active);
+      if (needed === active) continue;
+      changed = true;
+
+      if (!risk || !needed) {
+        guarded.delete(side);
+        this.logger.info(
+          `[BotEngine] [${id}] ${side} 持仓强平风险解除，恢复开仓挂单窗口`
+        );
+        continue;
+      }
+
+      guarded.add(side);
+      const distance =
+        risk.distance !== null ? `${(risk.distance * 100).toFixed(2)}%` : "-";
+      this.logger.warn(
+        `[BotEngine] [${id}] ${side} 持仓接近强平: 标记价 ${
+          risk.markPrice
+        } | 强平价 ${risk.liquidationPrice} | 距离 ${distance} | 保证金率 ${
+          risk.marginRatio ?? "-"
+        }，开仓挂单窗口缩小为 ${config.liquidationGuardOpenWindow ?? 0} 格`
+      );
+      const amount = config.liquidationGuardAddMargin;
+      if (amount) {
+        try {
+          await this.exchange.adapter.addMargin(
+            this.exchange.client,
+            config.symbol,
+            side,
+            amount
+          );
+          this.logger.warn(
+            `[BotEngine] [${id}] ${side} 持仓已追加保证金 ${amount} USDT`
+          );
+        } catch (e: any) {
+          this.logger.error(
+            `[BotEngine] [${id}] ${side} 持仓追加保证金失败: ${e.message}`
+          );
+        }
+      }
+    }
+
+    if (changed) await this.refreshGridOrdersByAnchor(ctx);
+  }
+
+  /**
+   * 定时查询资金费率：按结算费率与各策略分持仓方向的账本记录资金费用
+   * (支持 fetchFundingHistory 时以账户流水确认结算，否则在上一期结算后估算)，
+   * 并按对持仓方向不利的费率限制开仓挂单 (交易所不支持 fetchFundingRate 时不运行)
+   */
+  private async fundingLoop(): Promise<void> {
+    if (!this.exchange.client.has?.fetchFundingRate) {
+      this.logger.info(
+        "[BotEngine] 交易所不支持查询资金费率，跳过资金费用记录"
+      );
+      return;
+    }
+
+    while (this.isRunning) {
+      const symbols = new Set(this.gridContexts.map(c => c.getConfig().symbol));
+      for (const symbol of symbols) {
+        try {
+          const funding = parseFundingRate(
+            await this.exchange.client.fetchFundingRate(symbol)
+          );
+          const previous = this.fundingRates[symbol];
+          this.fundingRates[symbol] = funding;
+          const contexts = this.gridContexts.filter(
+            c => c.getConfig().symbol === symbol
+          );
+          if (this.exchange.client.has?.fetchFundingHistory) {
+            await this.settleFundingHistory(
+              symbol,
+              contexts,
+              [previous, funding],
+              funding.markPrice
+            );
+          } else if (
+            previous?.fundingTime != null &&
+            this.clock.now() >= previous.fundingTime &&
+            funding.fundingTime !== previous.fundingTime
+          ) {
+            this.settleFunding(contexts, previous, funding.markPrice, "估算");
+          }
+          for (const ctx of contexts) {
+            await this.updateFundingWindow(ctx, funding);
+          }
+        } catch (error: any) {
+          this.logger.error(
+            `[BotEngine] [${symbol}] 查询资金费率失败: ${error.message}`
+          );
+        }
+      }
+      const intervalSeconds =
+        this.config.default.funding_check_interval_seconds ?? 300;
+      await this.clock.sleep(intervalSeconds * 1000);
+    }
+  }
+
+  /**
+   * 以交易所资金费用流水确认结算：流水不区分持仓方向，
+   * 各策略按该期费率与分方向的持仓账本记录 (同一交易对的多空策略各自收付)，
+   * 已记录的结算时间随网格状态持久化
+   * @param rates 已知的费率 (上次与本次查询结果)，用于找到流水对应的一期
+   */
+  private async settleFundingHistory(
+    symbol: string,
+    contexts: GridContext[],
+    rates: (FundingRate | undefined)[],
+    markPrice: number | null
+  ): Promise<void> {
+    // 首次记录从当前时间开始，不追溯此前的流水
+    for (const ctx of contexts) {
+      if (ctx.getState().lastFundingTime === null) {
+        ctx.updateState({ lastFundingTime: this.clock.now() });
+      }
+    }
+    const since = Math.min(
+      ...contexts.map(c => c.getState().lastFundingTime!)
+    );
+    const history = await this.exchange.client.fetchFundingHistory(
+      symbol,
+      since + 1
+    );
+
+    // 按结算时间汇总 (双向持仓时每期可能有多条流水)
+    const payments = new Map<number, number>();
+    for (const entry of history) {
+      const time = Number(entry.timestamp);
+      if (!(time > since)) continue;
+      payments.set(time, (payments.get(time) || 0) + Number(entry.amount));
+    }
+
+    for (const time of [...payments.keys()].sort((a, b) => a - b)) {
+      const payment = payments.get(time);
+      const settled = findSettledRate(rates, time);
+      if (settled) {
+        this.settleFunding(
+          contexts,
+          { ...settled, fundingTime: time },
+          markPrice,
+          `账户流水 ${payment} USDT`
+        );
+        continue;
+      }
+      // 例如停机期间的结算：费率未知，只推进已记录的结算时间
+      this.logger.warn(
+        `[BotEngine] [${symbol}] 无法确定 ${new Date(
+          time
+        ).toISOString()} 结算的资金费率 (账户 ${payment} USDT)，本期资金费用未计入策略`
+      );
+      for (const ctx of contexts) {
+        if (time > ctx.getState().lastFundingTime!) ctx.recordFunding(0, time);
+      }
+    }
+  }
+
+  /**
+   * 按结算费率与本策略分持仓方向的账本记录资金费用 (持仓以结算后首次查询时为准)
+   * @param source 日志中的结算来源 (不提供流水时为估算)
+   */
+  private settleFunding(
+    contexts: GridContext[],
+    settled: FundingRate,
+    markPrice: number | null,
+    source: string
+  ): void {
+    for (const ctx of contexts) {
+      const lastTime = ctx.getState().lastFundingTime;
+      if (lastTime !== null && settled.fundingTime! <= lastTime) continue;
+      const price =
+        markPrice ?? settled.markPrice ?? this.getAnchorPrice(ctx);
+      if (price === null) continue;
+      let total = 0;
+      for (const [side, ledger] of Object.entries(ctx.getState().positions)) {
+        if (!ledger || ledger.amount <= 0) continue;
+        total += getFundingPayment(
+          side as PositionSide,
+          settled.rate,
+          ledger.amount * price
         );
-        await new Promise(resolve => setTimeout(resolve, 1000));
       }
+      ctx.recordFunding(total, settled.fundingTime!);
+      if (total === 0) continue;
+      const cumulative = ctx.getState().fundingPnl;
+      this.logger.info(
+        `[BotEngine] [${ctx.getId()}] 资金费用结算 (${source}): 费率 ${
+          settled.rate
+        } | ${total >= 0 ? "收入" : "支出"} ${Math.abs(total).toFixed(
+          4
+        )} USDT | 累计 ${cumulative.toFixed(4)} USDT`
+      );
+    }
+  }
+
+  /**
+   * 按对各持仓方向不利的资金费率更新开仓挂单限制，变化时重新同步挂单
+   */
+  private async updateFundingWindow(
+    ctx: GridContext,
+    funding: FundingRate
+  ): Promise<void> {
+    const config = ctx.getConfig();
+    const id = ctx.getId();
+    const windows: Partial<Record<PositionSide, number>> = {};
+    for (const side of ctx.getPositionSides()) {
+      const adverse = getAdverseRate(side, funding);
+      if (
+        config.fundingPauseRate !== undefined &&
+        adverse >= config.fundingPauseRate
+      ) {
+        windows[side] = 0;
+      } else if (
+        config.fundingShrinkRate !== undefined &&
+        adverse >= config.fundingShrinkRate
+      ) {
+        windows[side] = config.fundingShrinkWindow ?? 1;
+      }
+    }
+
+    const previous = this.fundingWindows[id] || {};
+    if (JSON.stringify(windows) === JSON.stringify(previous)) return;
+    this.fundingWindows[id] = windows;
+    for (const side of ctx.getPositionSides()) {
+      if (windows[side] === previous[side]) continue;
+      if (windows[side] === undefined) {
+        this.logger.info(
+          `[BotEngine] [${id}] ${side} 资金费率恢复正常 (${funding.rate})，恢复开仓挂单`
+        );
+      } else {
+        const action =
+          windows[side] === 0
+            ? "暂停开仓"
+            : `开仓挂单窗口缩小为 ${windows[side]} 格`;
+        this.logger.warn(
+          `[BotEngine] [${id}] ${side} 资金费率不利 (本期 ${
+            funding.rate
+          }，预测 ${funding.predictedRate ?? "-"})，${action}`
+        );
+      }
+    }
+    if (!this.isHalted(ctx)) await this.refreshGridOrdersByAnchor(ctx);
+  }
+
+  /**
+   * 账户风控状态 (供控制接口使用，未启用时为 null)
+   */
+  public getRiskStatus() {
+    return this.risk ? this.risk.getState() : null;
+  }
+
+  /**
+   * 重置账户风控，恢复因风控停止的策略 (自身退出规则已触发的策略保持停止)
+   * @returns 未启用或未触发时返回 false
+   */
+  public async resetRiskGuard(): Promise<boolean> {
+    if (!this.risk?.isTripped()) return false;
+
+    this.risk.reset();
+    for (const ctx of this.gridContexts) {
+      if (ctx.getState().halted) continue;
+      this.logger.warn(
+        `[BotEngine] [${ctx.getId()}] 账户风控已重置，恢复交易`
+      );
+      await this.restartTrading(ctx);
     }
+    return true;
+  }
+
+  /**
+   * 运行中策略的状态 (供控制接口使用)
+   */
+  public getStrategyStatus() {
+    return this.gridContexts.map(ctx => {
+      const config = ctx.getConfig();
+      const state = ctx.getState();
+      const price = this.getAnchorPrice(ctx);
+      return {
+        id: ctx.getId(),
+        name: config.name,
+        symbol: config.symbol,
+        direction: config.direction,
+        realizedPnl: state.realizedPnl,
+        fundingPnl: state.fundingPnl,
+        fundingRate: this.fundingRates[config.symbol] ?? null,
+        fundingWindow: this.fundingWindows[ctx.getId()] ?? {},
+        positions: state.positions,
+        halted: state.halted,
+        liquidationGuard: [...(this.liquidationGuards[ctx.getId()] || [])],
+        inventoryCap: this.inventoryCaps[ctx.getId()] ?? null,
+        exposure: price !== null ? ctx.getExposure(price) : null,
+      };
+    });
   }
 
   /**
-   * 停止引擎
+   * 平掉部分策略的仓位：只市价平掉这些策略独占的持仓方向，
+   * 与其它未开启 closeAllOnStop 的策略共用的持仓方向保留
    */
+  private async closeStrategyPositions(
+    symbol: string,
+    closing: GridContext[],
+    contexts: GridContext[]
+  ): Promise<void> {
+    const keptSides = new Set(
+      contexts
+        .filter(c => !closing.includes(c))
+        .flatMap(c => c.getPositionSides())
+    );
+    const sides = new Set(closing.flatMap(c => c.getPositionSides()));
+
+    try {
+      const positions = await this.exchange.client.fetchPositions([symbol]);
+      for (const side of sides) {
+        if (keptSides.has(side)) {
+          this.logger.warn(
+            `[BotEngine] [${symbol}] ${side} 持仓与未开启 closeAllOnStop 的策略共用，不自动平仓`
+          );
+          continue;
+        }
+        const contracts = positions
+          .filter((p: any) => p.symbol === symbol && p.side === side)
+          .reduce((sum: number, p: any) => sum + (p.contracts || 0), 0);
+        if (contracts > 0) {
+          await this.executor.placeMarketClose(symbol, side, contracts);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `[BotEngine] [${symbol}] 停止时平仓失败: ${error.message}`
+      );
+    }
+  }
+
   /**
    * 停止引擎并根据配置执行清理
    */
   public async stop(): Promise<void> {
     this.isRunning = false;
-    logger.info("[BotEngine] 引擎正在停止，开始执行清理逻辑...");
-
-    const appConfig = ConfigLoader.getInstance().getConfig();
-    const processedSymbols = new Set<string>();
+    this.approvals.rejectAll();
+    this.logger.info("[BotEngine] 引擎正在停止，开始执行清理逻辑...");
 
+    // 1. 自动撤单 (只撤销开启 cancelAllOnStop 的策略自己的网格挂单)
     for (const ctx of this.gridContexts) {
-      const symbol = ctx.getConfig().symbol;
-      if (processedSymbols.has(symbol)) continue;
-
-      // 1. 自动撤单
-      if (appConfig.default.cancel_all_on_stop) {
-        await this.executor.cancelAllOrders(symbol);
+      const config = ctx.getConfig();
+      if (config.cancelAllOnStop) {
+        await this.executor.cancelStrategyOrders(config);
       }
+    }
+
+    // 2. 自动平仓 (按交易对处理，仓位由同一交易对的策略共用)
+    const symbols = new Set(this.gridContexts.map(c => c.getConfig().symbol));
+    for (const symbol of symbols) {
+      const contexts = this.gridContexts.filter(
+        c => c.getConfig().symbol === symbol
+      );
+      const closing = contexts.filter(c => c.getConfig().closeAllOnStop);
+      if (closing.length === 0) continue;
 
-      // 2. 自动平仓
-      if (appConfig.default.close_all_on_stop) {
+      if (closing.length === contexts.length) {
         await this.executor.flashClosePositions(symbol);
+      } else {
+        await this.closeStrategyPositions(symbol, closing, contexts);
       }
-
-      processedSymbols.add(symbol);
+      // 仓位已平掉，清空对应策略的持仓记录
+      closing.forEach(c => c.clearInventory());
     }
 
-    logger.info("[BotEngine] 清理逻辑执行完毕，引擎已关闭");
+    this.logger.info("[BotEngine] 清理逻辑执行完毕，引擎已关闭");
   }
 }
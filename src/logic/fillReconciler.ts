@@ -0,0 +1,133 @@
+import { parseClientOrderId } from "../exchange/clientOrderId";
+import { ExchangeConnection } from "../types/exchange";
+import { Clock } from "../utils/clock";
+import { Logger } from "../utils/logger";
+
+// 查询窗口向前重叠的时间，容忍交易所时间戳与本地时钟的偏差
+const RECONCILE_OVERLAP_MS = 60 * 1000;
+// 已处理成交记录的保留时长
+const HANDLED_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * 判断订单是否已结束且有成交 (完全成交，或部分成交后关闭/撤销)
+ */
+export function isOrderFilled(order: any): boolean {
+  return (
+    order.status === "filled" ||
+    ((order.status === "closed" || order.status === "canceled") &&
+      order.filled > 0)
+  );
+}
+
+/**
+ * 成交对账器
+ * 记录引擎已处理的成交，并通过 REST (fetchClosedOrders / fetchMyTrades) 查询上次成交之后的订单，
+ * 找出 WebSocket 断线期间遗漏的网格成交
+ */
+export class FillReconciler {
+  private exchange: ExchangeConnection;
+  private logger: Logger;
+  private clock: Clock;
+  // 已处理的成交：订单 ID -> 成交时间
+  private handled: Map<string, number> = new Map();
+  // 每个交易对最近一次成交的时间
+  private lastSeen: Record<string, number> = {};
+  private startTime: number;
+
+  constructor(exchange: ExchangeConnection, log: Logger, clock: Clock) {
+    this.exchange = exchange;
+    this.logger = log;
+    this.clock = clock;
+    this.startTime = clock.now();
+  }
+
+  /**
+   * 标记成交已处理
+   * @returns 首次处理返回 true，已处理过 (WebSocket 与对账重复) 返回 false
+   */
+  public markHandled(order: any): boolean {
+    if (this.handled.has(order.id)) return false;
+
+    const fillTime =
+      order.lastTradeTimestamp || order.timestamp || this.clock.now();
+    this.handled.set(order.id, fillTime);
+    this.lastSeen[order.symbol] = Math.max(
+      this.lastSeen[order.symbol] ?? this.startTime,
+      fillTime
+    );
+    return true;
+  }
+
+  /**
+   * 对账：返回上次成交之后尚未处理的网格成交 (按成交时间排序，并标记为已处理)
+   */
+  public async reconcile(symbol: string): Promise<any[]> {
+    const since =
+      (this.lastSeen[symbol] ?? this.startTime) - RECONCILE_OVERLAP_MS;
+    const orders = await this.fetchFilledOrders(symbol, since);
+    orders.sort(
+      (a, b) =>
+        (a.lastTradeTimestamp || a.timestamp) -
+        (b.lastTradeTimestamp || b.timestamp)
+    );
+
+    const missed: any[] = [];
+    for (const order of orders) {
+      // 手动单与其它程序的订单不参与网格对账
+      if (!isOrderFilled(order) || !parseClientOrderId(order.clientOrderId)) {
+        continue;
+      }
+      if (this.markHandled(order)) {
+        missed.push(order);
+      }
+    }
+
+    for (const order of missed) {
+      this.logger.warn(
+        `[FillReconciler] [${symbol}] WebSocket 未推送的成交: ID ${
+          order.id
+        } | clientOrderId: ${order.clientOrderId} | ${order.side} | 价格: ${
+          order.average || order.price
+        } | 数量: ${order.filled}`
+      );
+    }
+
+    this.prune();
+    return missed;
+  }
+
+  /**
+   * 查询指定时间之后的已关闭订单，交易所不支持 fetchClosedOrders 时通过成交记录反查订单
+   */
+  private async fetchFilledOrders(
+    symbol: string,
+    since: number
+  ): Promise<any[]> {
+    const client = this.exchange.client;
+    if (client.has?.fetchClosedOrders !== false) {
+      return client.fetchClosedOrders(symbol, since);
+    }
+
+    const trades = await client.fetchMyTrades(symbol, since);
+    const orderIds = new Set<string>(
+      trades
+        .map((t: any) => t.order)
+        .filter((id: string) => id && !this.handled.has(id))
+    );
+    const orders: any[] = [];
+    for (const id of orderIds) {
+      orders.push(await client.fetchOrder(id, symbol));
+    }
+    return orders;
+  }
+
+  /**
+   * 清理过期的已处理记录
+   */
+  private prune(): void {
+    const expireBefore = this.clock.now() - HANDLED_RETENTION_MS;
+    for (const [id, fillTime] of this.handled) {
+      if (fillTime < expireBefore) this.handled.delete(id);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { PositionSide } from "../types/exchange";
+
+/**
+ * 永续合约资金费率 (正数为多头支付空头)
+ */
+export interface FundingRate {
+  rate: number; // 本期资金费率
+  predictedRate: number | null; // 预测的下期资金费率 (交易所未提供时为 null)
+  fundingTime: number | null; // 本期费率的结算时间
+  markPrice: number | null;
+}
+
+function toNumber(value: unknown): number | null {
+  const num = Number(value);
+  return value != null && Number.isFinite(num) ? num : null;
+}
+
+/**
+ * 解析 CCXT fetchFundingRate 的返回值
+ */
+export function parseFundingRate(raw: any): FundingRate {
+  return {
+    rate: toNumber(raw.fundingRate) ?? 0,
+    predictedRate: toNumber(raw.nextFundingRate),
+    fundingTime: toNumber(raw.fundingTimestamp),
+    markPrice: toNumber(raw.markPrice),
+  };
+}
+
+/**
+ * 持仓方向在该费率下的资金费用 (正数为收入)
+ */
+export function getFundingPayment(
+  side: PositionSide,
+  rate: number,
+  notional: number
+): number {
+  return side === "long" ? -rate * notional : rate * notional;
+}
+
+// 资金费用流水的时间与费率结算时间允许的偏差 (交易所入账可能晚于结算时间)
+const SETTLEMENT_TOLERANCE_MS = 60000;
+
+/**
+ * 在已知的费率中找到结算时间与流水时间对应的一期
+ */
+export function findSettledRate(
+  rates: (FundingRate | undefined)[],
+  time: number
+): FundingRate | null {
+  return (
+    rates.find(
+      r =>
+        r?.fundingTime != null &&
+        Math.abs(r.fundingTime - time) <= SETTLEMENT_TOLERANCE_MS
+    ) || null
+  );
+}
+
+/**
+ * 对持仓方向不利的资金费率：取本期与预测费率中更不利的一个，正数表示需要支付
+ */
+export function getAdverseRate(
+  side: PositionSide,
+  funding: FundingRate
+): number {
+  const rates = [funding.rate, funding.predictedRate ?? funding.rate];
+  return Math.max(...rates.map(rate => (side === "long" ? rate : -rate)));
+}
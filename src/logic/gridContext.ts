@@ -1,154 +1,370 @@
 import * as fs from "fs";
 import * as path from "path";
-import { GridConfig, GridLevel } from "../types/grid";
-import { logger } from "../utils/logger";
+import { getStrategyId } from "../config/strategyConfig";
+import { parseClientOrderId } from "../exchange/clientOrderId";
+import { OrderAction, PositionSide } from "../types/exchange";
+import {
+  GridConfig,
+  GridDirection,
+  GridLevel,
+  GridStateMeta,
+  GridType,
+  QuantityMode,
+  StrategyState,
+} from "../types/grid";
+import { Logger, logger } from "../utils/logger";
+import {
+  createEmptyState,
+  GRID_STATE_VERSION,
+  GridStateStore,
+} from "./gridStateStore";
+import { timeframeToMs } from "./volatilityEstimator";
+
+/**
+ * 数量取整，消除浮点累加误差
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8;
+}
+
+/**
+ * 将价格对齐到 Tick Size
+ * 使用 Math.round 而不是 floor/ceil，确保最接近理论值
+ */
+function roundToTick(price: number, tickSize: number): number {
+  const precision = 1 / tickSize;
+  return Math.round(price * precision) / precision;
+}
+
+// 网格文件与运行状态的默认存放目录
+export const DEFAULT_STATE_DIR = path.join(process.cwd(), "temp");
+
+// 决定刻度价格的参数，变更后需要重新生成网格
+const LEVEL_FIELDS: (keyof GridStateMeta)[] = [
+  "upperPrice",
+  "lowerPrice",
+  "gridSpread",
+  "spreadType",
+  "priceStep",
+  "gridCount",
+  "tickSize",
+];
 
 export class GridContext {
   private config: GridConfig;
   private levels: GridLevel[] = [];
-  private csvPath: string;
+  private store: GridStateStore;
+  private logger: Logger;
+  private state: StrategyState = createEmptyState();
+  // 已保存的网格参数快照
+  private meta: GridStateMeta | null = null;
+  private tickSize: number = 0;
+  // 下单数量最小步长 (0 表示不按步长取整)
+  private amountStep: number = 0;
+  // 与已保存网格相比发生变化的参数 (等待确认)
+  private changedFields: (keyof GridStateMeta)[] = [];
 
-  constructor(config: GridConfig) {
+  constructor(
+    config: GridConfig,
+    stateDir: string = DEFAULT_STATE_DIR,
+    log: Logger = logger
+  ) {
     this.config = config;
-    // 生成 CSV 文件路径，处理 symbol 中的斜杠
-    const safeSymbol = config.symbol.replace(/[/:]/g, "_");
-    this.csvPath = path.join(
-      process.cwd(),
-      "temp",
-      `grid_${safeSymbol}_${config.direction}.csv`
+    this.logger = log;
+    // 按策略 ID 生成网格文件路径，替换 ID 中不能用于文件名的字符
+    const safeId = this.getId().replace(/[^\w.-]/g, "_");
+    this.store = new GridStateStore(
+      path.join(stateDir, `grid_${safeId}`),
+      log
     );
 
     // 确保 temp 目录存在
-    const tempDir = path.dirname(this.csvPath);
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    if (!fs.existsSync(stateDir)) {
+      fs.mkdirSync(stateDir, { recursive: true });
     }
   }
 
   /**
-   * 初始化网格：计算刻度并保存/加载 CSV
+   * 初始化网格：加载 (并迁移) 已有网格文件，不存在时计算刻度并保存
+   * 配置与已保存的网格不一致时保留原网格，由调用方确认后调用 applyConfigChange
    * @param tickSize 交易所的价格最小跳动单位 (例如 0.01)
+   * @param amountStep 交易所的下单数量最小步长 (按数量计划计算的数量向下取整到该步长)
    */
-  public async initialize(tickSize: number): Promise<void> {
-    if (fs.existsSync(this.csvPath)) {
-      const isConfigMatched = this.checkConfigMatch();
-      if (isConfigMatched) {
-        logger.info(
-          `[GridContext] 发现现有网格配置文件: ${this.csvPath} 且配置匹配，正在加载...`
-        );
-        this.loadFromCsv();
-        return;
-      } else {
-        logger.warn(
-          `[GridContext] 检测到配置已变更或 CSV 格式过旧，将重新生成网格: ${this.csvPath}`
-        );
-      }
+  public async initialize(
+    tickSize: number,
+    amountStep: number = 0
+  ): Promise<void> {
+    this.validateConfig();
+    this.tickSize = tickSize;
+    this.amountStep = amountStep;
+    const saved = this.store.load();
+    if (!saved) {
+      this.rebuild();
+      return;
     }
 
-    logger.info(
-      `[GridContext] 开始计算等比网格: ${this.config.symbol} ${this.config.direction}`
+    this.levels = saved.levels;
+    this.state = saved.state;
+    this.meta = saved.meta;
+    this.changedFields = this.diffMeta(saved.meta);
+    if (this.changedFields.length > 0) {
+      this.logger.warn(
+        `[GridContext] 网格配置已变更: ${this.getConfigChanges().join(
+          "; "
+        )} (${this.store.getFilePath()})`
+      );
+      return;
+    }
+
+    this.logger.info(
+      `[GridContext] 发现现有网格文件: ${this.store.getFilePath()} 且配置匹配，已加载 ${
+        this.levels.length
+      } 个网格刻度`
     );
-    this.calculateLevels(tickSize);
-    this.saveToCsv();
+    // 补全由旧版迁移而来的未知参数
+    this.meta = this.currentMeta();
+    this.persist();
   }
 
   /**
-   * 检查 CSV 中的配置元数据是否与当前配置匹配
+   * 与已保存网格相比发生变化的参数 (形如 "gridSpread: 0.01 -> 0.02")
    */
-  private checkConfigMatch(): boolean {
-    try {
-      const content = fs.readFileSync(this.csvPath, "utf8");
-      const firstLine = content.split("\n")[0];
-      if (!firstLine.startsWith("# config:")) {
-        return false;
+  public getConfigChanges(): string[] {
+    const current = this.currentMeta();
+    return this.changedFields.map(
+      field =>
+        `${field}: ${this.meta?.[field] ?? "未设置"} -> ${
+          current[field] ?? "未设置"
+        }`
+    );
+  }
+
+  /**
+   * 应用配置变更：刻度参数变化时备份旧网格文件并重新生成，否则只更新参数快照
+   */
+  public applyConfigChange(): void {
+    if (this.changedFields.length === 0) return;
+
+    if (this.changedFields.some(f => LEVEL_FIELDS.includes(f))) {
+      const backupPath = this.store.backupCurrent();
+      this.logger.warn(
+        `[GridContext] 按新配置重新生成网格，旧网格文件已备份至: ${backupPath}`
+      );
+      this.rebuild();
+    } else {
+      this.meta = this.currentMeta();
+      this.persist();
+    }
+    this.changedFields = [];
+  }
+
+  /**
+   * 配置对应的参数快照 (默认为当前配置)
+   */
+  private currentMeta(config: GridConfig = this.config): GridStateMeta {
+    return {
+      symbol: config.symbol,
+      direction: config.direction,
+      upperPrice: config.upperPrice,
+      lowerPrice: config.lowerPrice,
+      // 自适应模式下记录的是当前网格实际使用的间距
+      gridSpread:
+        config.adaptiveSpread && this.meta?.gridSpread
+          ? this.meta.gridSpread
+          : config.gridSpread ?? null,
+      spreadType: config.gridType || GridType.GEOMETRIC,
+      priceStep: config.priceStep ?? null,
+      gridCount: config.gridCount ?? null,
+      quantityPerGrid: config.quantityPerGrid,
+      tickSize: this.tickSize,
+    };
+  }
+
+  /**
+   * 比较已保存的参数与当前配置
+   * 未知的刻度参数 (旧版文件未记录) 视为变更，未知的 tickSize / 数量视为一致
+   */
+  private diffMeta(saved: GridStateMeta): (keyof GridStateMeta)[] {
+    const current = this.currentMeta();
+    return (Object.keys(current) as (keyof GridStateMeta)[]).filter(field => {
+      if (saved[field] === current[field]) return false;
+      if (saved[field] === null) {
+        return LEVEL_FIELDS.includes(field) && field !== "tickSize";
       }
+      return saved[field] !== current[field];
+    });
+  }
 
-      const configStr = firstLine.replace("# config:", "");
-      const [upper, lower, spread] = configStr.split(",").map(Number);
+  /**
+   * 计算新网格，运行状态从空开始
+   */
+  private rebuild(): void {
+    const typeName =
+      this.getGridType() === GridType.ARITHMETIC ? "等差" : "等比";
+    this.logger.info(
+      `[GridContext] 开始计算${typeName}网格: ${this.config.symbol} ${this.config.direction}`
+    );
+    this.state = createEmptyState();
+    this.meta = this.currentMeta();
+    this.calculateLevels(this.tickSize);
+    this.persist();
+    this.logger.info(
+      `[GridContext] 网格配置已保存至: ${this.store.getFilePath()}`
+    );
+  }
+
+  public getGridType(): GridType {
+    return this.config.gridType || GridType.GEOMETRIC;
+  }
+
+  /**
+   * 等比网格当前的间距 (自适应模式下为最近一次按波动率调整后的间距)
+   */
+  public getSpread(): number {
+    return this.meta?.gridSpread ?? this.config.gridSpread ?? 0;
+  }
+
+  /**
+   * 等差网格的价格间距 (优先使用 priceStep，否则由 gridCount 均分上下限)
+   */
+  private getPriceStep(): number {
+    const { upperPrice, lowerPrice, priceStep, gridCount } = this.config;
+    return priceStep && priceStep > 0
+      ? priceStep
+      : (upperPrice - lowerPrice) / (gridCount || 1);
+  }
 
-      return (
-        upper === this.config.upperPrice &&
-        lower === this.config.lowerPrice &&
-        spread === this.config.gridSpread
+  /**
+   * 检查网格类型所需的间距参数
+   */
+  private validateConfig(): void {
+    const { symbol, direction, gridSpread, priceStep, gridCount } =
+      this.config;
+    const { adaptiveSpread, minSpread, maxSpread } = this.config;
+    const label = `[${symbol}] [${direction}]`;
+    if (this.getGridType() === GridType.ARITHMETIC) {
+      if (!(priceStep && priceStep > 0) && !(gridCount && gridCount > 0)) {
+        throw new Error(`${label} 等差网格需要配置 priceStep 或 gridCount`);
+      }
+      if (adaptiveSpread) {
+        throw new Error(`${label} 波动率自适应间距仅支持等比网格`);
+      }
+    } else if (!(gridSpread && gridSpread > 0)) {
+      throw new Error(`${label} 等比网格需要配置 gridSpread`);
+    }
+    if (
+      adaptiveSpread &&
+      !(minSpread && maxSpread && minSpread > 0 && minSpread <= maxSpread)
+    ) {
+      throw new Error(
+        `${label} 波动率自适应间距需要配置 minSpread 与 maxSpread (0 < minSpread <= maxSpread)`
       );
-    } catch (error) {
-      return false;
+    }
+    if (adaptiveSpread && this.config.volatilityTimeframe) {
+      timeframeToMs(this.config.volatilityTimeframe);
+    }
+
+    const { notionalPerGrid, pyramidStep, pyramidRatio, quantityTable } =
+      this.config;
+    switch (this.config.quantityMode || QuantityMode.FIXED) {
+      case QuantityMode.FIXED:
+        break;
+      case QuantityMode.NOTIONAL:
+        if (!(notionalPerGrid && notionalPerGrid > 0)) {
+          throw new Error(`${label} notional 数量模式需要配置 notionalPerGrid`);
+        }
+        break;
+      case QuantityMode.LINEAR:
+        if (!(pyramidStep !== undefined && pyramidStep >= 0)) {
+          throw new Error(`${label} linear 数量模式需要配置 pyramidStep`);
+        }
+        break;
+      case QuantityMode.GEOMETRIC:
+        if (!(pyramidRatio && pyramidRatio > 0)) {
+          throw new Error(`${label} geometric 数量模式需要配置 pyramidRatio`);
+        }
+        break;
+      case QuantityMode.TABLE:
+        if (!quantityTable || quantityTable.length === 0) {
+          throw new Error(`${label} table 数量模式需要配置 quantityTable`);
+        }
+        break;
+      default:
+        throw new Error(`${label} 未知的数量模式: ${this.config.quantityMode}`);
     }
   }
 
   /**
-   * 计算等比网格刻度
+   * 指定刻度附近的网格价格间距 (等差网格固定，等比网格随价格升高而变大)
+   */
+  public getLevelSpacing(index: number): number {
+    if (this.getGridType() === GridType.ARITHMETIC) {
+      return this.getPriceStep();
+    }
+    const levels = this.levels;
+    if (index < levels.length - 1) {
+      return levels[index + 1].price - levels[index].price;
+    }
+    if (index > 0) {
+      return levels[index].price - levels[index - 1].price;
+    }
+    return levels[1].price - levels[0].price;
+  }
+
+  /**
+   * 计算网格刻度
+   * 等比网格：每格价格乘以 (1 + gridSpread)
+   * 等差网格：每格价格加上固定间距
+   * 追踪模式下按平移后的区间计算
    */
   private calculateLevels(tickSize: number): void {
-    const { upperPrice, lowerPrice, gridSpread } = this.config;
+    const { upperPrice, lowerPrice } = this.getRange();
+    const gridSpread = this.getSpread();
+    const isArithmetic = this.getGridType() === GridType.ARITHMETIC;
+    const step = isArithmetic ? this.getPriceStep() : 0;
+    // 等差刻度允许微小的浮点误差，避免在上限处多出一格
+    const limit = isArithmetic ? upperPrice - step * 1e-9 : upperPrice;
 
     this.levels = [];
     let currentPrice = lowerPrice;
     let index = 0;
 
-    // 辅助函数：将价格对齐到 Tick Size
-    // 使用 Math.round 而不是 floor/ceil，确保最接近理论值
-    const roundToTick = (p: number) => {
-      const precision = 1 / tickSize;
-      return Math.round(p * precision) / precision;
-    };
-
     // 添加第一个刻度
     this.levels.push({
       index: index,
-      price: roundToTick(currentPrice),
+      price: roundToTick(currentPrice, tickSize),
       buyOrderId: "",
       sellOrderId: "",
+      filledAmount: 0,
     });
 
     // 循环生成后续刻度，直到超过上限
-    while (currentPrice < upperPrice) {
+    while (currentPrice < limit) {
       index++;
-      currentPrice = currentPrice * (1 + gridSpread);
+      currentPrice = isArithmetic
+        ? lowerPrice + index * step
+        : currentPrice * (1 + gridSpread);
 
       this.levels.push({
         index: index,
-        price: roundToTick(currentPrice),
+        price: roundToTick(currentPrice, tickSize),
         buyOrderId: "",
         sellOrderId: "",
+        filledAmount: 0,
       });
     }
   }
 
   /**
-   * 保存到 CSV
+   * 保存网格文件 (原子写入)
    */
-  private saveToCsv(): void {
-    const configMeta = `# config:${this.config.upperPrice},${this.config.lowerPrice},${this.config.gridSpread}\n`;
-    const header = "index,price,buy_order_id,sell_order_id\n";
-    const rows = this.levels
-      .map(l => `${l.index},${l.price},${l.buyOrderId},${l.sellOrderId}`)
-      .join("\n");
-    fs.writeFileSync(this.csvPath, configMeta + header + rows, "utf8");
-    logger.info(`[GridContext] 网格配置已保存至: ${this.csvPath}`);
-  }
-
-  /**
-   * 从 CSV 加载
-   */
-  private loadFromCsv(): void {
-    const content = fs.readFileSync(this.csvPath, "utf8");
-    const allLines = content.trim().split("\n");
-    // 过滤掉以 # 开头的注释行和 CSV 表头
-    const dataLines = allLines.filter(
-      line => !line.startsWith("#") && !line.startsWith("index,")
-    );
-
-    this.levels = dataLines.map(line => {
-      const [index, price, buyOrderId, sellOrderId] = line.split(",");
-      return {
-        index: parseInt(index),
-        price: parseFloat(price),
-        buyOrderId: buyOrderId || "",
-        sellOrderId: sellOrderId || "",
-      };
+  private persist(): void {
+    this.store.save({
+      version: GRID_STATE_VERSION,
+      meta: this.meta || this.currentMeta(),
+      levels: this.levels,
+      state: this.state,
     });
-    logger.info(`[GridContext] 成功加载 ${this.levels.length} 个网格刻度`);
   }
 
   /**
@@ -160,12 +376,10 @@ export class GridContext {
     if (this.levels.length < 2) return null;
 
     // 价格超出网格范围
-    if (
-      currentPrice >= this.config.upperPrice ||
-      currentPrice <= this.config.lowerPrice
-    ) {
-      logger.warn(
-        `[GridContext] 当前价格 ${currentPrice} 超出网格范围 [${this.config.lowerPrice}, ${this.config.upperPrice}]`
+    const { lowerPrice, upperPrice } = this.getRange();
+    if (currentPrice >= upperPrice || currentPrice <= lowerPrice) {
+      this.logger.warn(
+        `[GridContext] 当前价格 ${currentPrice} 超出网格范围 [${lowerPrice}, ${upperPrice}]`
       );
       return null;
     }
@@ -182,6 +396,243 @@ export class GridContext {
     return null;
   }
 
+  /**
+   * 当前网格区间 (追踪模式下为平移后的区间)
+   */
+  public getRange(): { lowerPrice: number; upperPrice: number } {
+    const shift = this.state.levelShift;
+    return {
+      lowerPrice: this.shiftPrice(this.config.lowerPrice, shift),
+      upperPrice: this.shiftPrice(this.config.upperPrice, shift),
+    };
+  }
+
+  /**
+   * 价格平移指定格数 (等比网格按比例，等差网格按固定间距)
+   */
+  private shiftPrice(price: number, levels: number): number {
+    if (levels === 0) return price;
+    return this.getGridType() === GridType.ARITHMETIC
+      ? price + levels * this.getPriceStep()
+      : price * Math.pow(1 + this.getSpread(), levels);
+  }
+
+  /**
+   * 价格离开网格区间时需要平移的格数 (正数上移，负数下移)
+   * 平移后价格落在区间内；未开启该方向的追踪或平移后越过追踪限制时返回 0
+   */
+  public getTrailShift(currentPrice: number): number {
+    const { trailingUp, trailingDown, trailingUpLimit, trailingDownLimit } =
+      this.config;
+    const { lowerPrice, upperPrice } = this.getRange();
+    // 价格 low 按网格间距上移到严格高于 high 所需的整数格数
+    const levelsBetween = (low: number, high: number) =>
+      this.getGridType() === GridType.ARITHMETIC
+        ? Math.floor((high - low) / this.getPriceStep()) + 1
+        : Math.floor(Math.log(high / low) / Math.log(1 + this.getSpread())) +
+          1;
+
+    if (trailingUp && currentPrice >= upperPrice) {
+      const shift = levelsBetween(upperPrice, currentPrice);
+      const newUpper = this.shiftPrice(upperPrice, shift);
+      return trailingUpLimit && newUpper > trailingUpLimit ? 0 : shift;
+    }
+    if (trailingDown && currentPrice <= lowerPrice) {
+      const shift = -levelsBetween(currentPrice, lowerPrice);
+      const newLower = this.shiftPrice(lowerPrice, shift);
+      return trailingDownLimit && newLower < trailingDownLimit ? 0 : shift;
+    }
+    return 0;
+  }
+
+  /**
+   * 网格整体平移：移出一侧的刻度，在另一侧按相同间距补充新刻度
+   * 保留的刻度价格与持仓记录不变，索引重新编号，中性网格的基准刻度随之平移
+   * @param shift 平移格数 (正数上移，负数下移)
+   * @returns 被移出刻度上尚未平仓的持仓 (按持仓方向汇总)
+   */
+  public shiftLevels(
+    shift: number
+  ): { positionSide: PositionSide; amount: number }[] {
+    const count = this.levels.length;
+    const dropped: Partial<Record<PositionSide, number>> = {};
+    this.levels.forEach((level, i) => {
+      const newIndex = i - shift;
+      if (newIndex >= 0 && newIndex < count) return;
+      if (level.filledAmount <= 0) return;
+      const side = this.getInventorySide(i);
+      dropped[side] = roundAmount((dropped[side] || 0) + level.filledAmount);
+    });
+
+    const levelShift = this.state.levelShift + shift;
+    const next: GridLevel[] = [];
+    for (let i = 0; i < count; i++) {
+      const kept = this.levels[i + shift];
+      next.push(
+        kept
+          ? { ...kept, index: i }
+          : {
+              index: i,
+              price: roundToTick(
+                this.shiftPrice(this.config.lowerPrice, levelShift + i),
+                this.tickSize
+              ),
+              buyOrderId: "",
+              sellOrderId: "",
+              filledAmount: 0,
+            }
+      );
+    }
+
+    const baseline = this.state.baselineIndex;
+    this.levels = next;
+    this.state = {
+      ...this.state,
+      levelShift,
+      baselineIndex: baseline === null ? null : baseline - shift,
+    };
+    this.persist();
+
+    return (Object.keys(dropped) as PositionSide[]).map(positionSide => ({
+      positionSide,
+      amount: dropped[positionSide]!,
+    }));
+  }
+
+  /**
+   * 开仓刻度上持仓的方向 (中性网格基准线下方为多仓，上方为空仓)
+   */
+  private getInventorySide(index: number): PositionSide {
+    if (this.config.direction !== GridDirection.NEUTRAL) {
+      return this.getPositionSides()[0];
+    }
+    return index < (this.state.baselineIndex ?? 0) ? "long" : "short";
+  }
+
+  /**
+   * 按波动率 (ATR / 价格) 计算自适应间距，限制在 minSpread ~ maxSpread 之间
+   * @returns 与当前间距的相对变化未超过滞回阈值时返回 null (不需要重建网格)
+   */
+  public getAdaptiveSpread(atrRatio: number): number | null {
+    const { minSpread = 0, maxSpread = Infinity } = this.config;
+    const multiplier = this.config.volatilityMultiplier ?? 0.5;
+    const hysteresis = this.config.spreadHysteresis ?? 0.2;
+    const target =
+      Math.round(
+        Math.min(Math.max(atrRatio * multiplier, minSpread), maxSpread) * 1e6
+      ) / 1e6;
+    const current = this.getSpread();
+    return Math.abs(target - current) / current > hysteresis ? target : null;
+  }
+
+  /**
+   * 按新间距重新生成刻度 (调用前需撤销本策略挂单)
+   * 追踪平移的格数按新间距折算
+   */
+  public respace(spread: number): void {
+    const oldSpread = this.getSpread();
+    this.regenerate(() => {
+      this.meta = { ...(this.meta || this.currentMeta()), gridSpread: spread };
+      this.state.levelShift = Math.round(
+        (this.state.levelShift * Math.log(1 + oldSpread)) /
+          Math.log(1 + spread)
+      );
+    });
+  }
+
+  /**
+   * 新配置是否改变刻度价格 (需要撤单后重新生成网格)
+   */
+  public changesLevels(config: GridConfig): boolean {
+    const current = this.currentMeta();
+    const next = this.currentMeta(config);
+    return LEVEL_FIELDS.some(field => current[field] !== next[field]);
+  }
+
+  /**
+   * 热更新配置：刻度参数变化时按新区间重新生成刻度并迁移持仓 (调用前需撤销本策略挂单)，
+   * 数量等其它参数直接生效
+   * @returns 是否重新生成了刻度
+   */
+  public updateConfig(config: GridConfig): boolean {
+    const levelsChanged = this.changesLevels(config);
+    const previous = this.config;
+    this.config = config;
+    try {
+      this.validateConfig();
+    } catch (e) {
+      this.config = previous;
+      throw e;
+    }
+
+    if (!levelsChanged) {
+      this.meta = this.currentMeta();
+      this.persist();
+      return false;
+    }
+    this.regenerate(() => {
+      this.meta = this.currentMeta();
+      this.state.levelShift = 0;
+    });
+    return true;
+  }
+
+  /**
+   * 按更新后的参数重新计算刻度，并把持仓迁移到不会亏损平仓的刻度：
+   * 多仓迁移到原开仓价及以下最近的刻度 (平仓单在其上方一格)，空仓迁移到原开仓价及以上最近的刻度
+   * @param update 更新刻度参数 (meta / levelShift)
+   */
+  private regenerate(update: () => void): void {
+    const baseline = this.state.baselineIndex;
+    const baselineLevel =
+      baseline === null
+        ? null
+        : this.levels[Math.min(Math.max(baseline, 0), this.levels.length - 1)];
+    const inventory = this.levels
+      .filter(l => l.filledAmount > 0)
+      .map(l => ({
+        price: l.price,
+        side: this.getInventorySide(l.index),
+        amount: l.filledAmount,
+      }));
+
+    update();
+    this.calculateLevels(this.tickSize);
+
+    const levels = this.levels;
+    const last = levels.length - 1;
+    // 中性网格的基准线迁移到原基准价格最近的刻度
+    let newBaseline: number | null = null;
+    if (baselineLevel) {
+      newBaseline = levels.reduce(
+        (best, l) =>
+          Math.abs(l.price - baselineLevel.price) <
+          Math.abs(levels[best].price - baselineLevel.price)
+            ? l.index
+            : best,
+        0
+      );
+    }
+    this.state.baselineIndex = newBaseline;
+
+    for (const item of inventory) {
+      let index: number;
+      if (item.side === "long") {
+        const below = levels.filter(l => l.price <= item.price);
+        index = below.length > 0 ? below[below.length - 1].index : 0;
+        // 多仓需位于基准线下方，才会在上方挂平多单
+        if (newBaseline !== null) index = Math.min(index, newBaseline - 1);
+      } else {
+        const above = levels.find(l => l.price >= item.price);
+        index = above ? above.index : last;
+        if (newBaseline !== null) index = Math.max(index, newBaseline + 1);
+      }
+      const level = levels[Math.min(Math.max(index, 0), last)];
+      level.filledAmount = roundAmount(level.filledAmount + item.amount);
+    }
+    this.persist();
+  }
+
   /**
    * 更新网格中的订单 ID 并持久化
    */
@@ -196,14 +647,342 @@ export class GridContext {
       } else {
         this.levels[index].sellOrderId = orderId;
       }
-      this.saveToCsv();
+      this.persist();
+    }
+  }
+
+  /**
+   * 策略涉及的持仓方向 (中性网格同时使用多空两个方向)
+   */
+  public getPositionSides(): PositionSide[] {
+    switch (this.config.direction) {
+      case GridDirection.LONG:
+        return ["long"];
+      case GridDirection.SHORT:
+        return ["short"];
+      default:
+        return ["long", "short"];
+    }
+  }
+
+  /**
+   * 刻度上买单/卖单对应的持仓动作
+   * - LONG: 买单开多，卖单平多
+   * - SHORT: 买单平空，卖单开空
+   * - NEUTRAL: 基准线下方买单开多、卖单平多；上方卖单开空、买单平空
+   *   (多空仓位分别只出现在基准线两侧，不会同时持有)
+   */
+  public getOrderIntent(
+    index: number,
+    side: "buy" | "sell"
+  ): { positionSide: PositionSide; action: OrderAction } {
+    switch (this.config.direction) {
+      case GridDirection.LONG:
+        return {
+          positionSide: "long",
+          action: side === "buy" ? "open" : "close",
+        };
+      case GridDirection.SHORT:
+        return {
+          positionSide: "short",
+          action: side === "sell" ? "open" : "close",
+        };
+      default: {
+        const baseline = this.state.baselineIndex ?? 0;
+        if (side === "buy") {
+          return index < baseline
+            ? { positionSide: "long", action: "open" }
+            : { positionSide: "short", action: "close" };
+        }
+        return index > baseline
+          ? { positionSide: "short", action: "open" }
+          : { positionSide: "long", action: "close" };
+      }
+    }
+  }
+
+  /**
+   * 记录订单的累计成交量 (部分成交会多次推送)，按增量更新刻度持仓
+   * 开仓成交计入本刻度，平仓成交从对应的开仓刻度扣减
+   * @param filled 订单累计成交量
+   * @param price 成交均价 (默认为刻度价格)
+   * @returns 本次新增的成交量
+   */
+  public recordFill(
+    orderId: string,
+    levelIndex: number,
+    action: OrderAction,
+    positionSide: PositionSide,
+    filled: number,
+    price: number = this.levels[levelIndex]?.price
+  ): number {
+    const delta = roundAmount(filled - (this.state.orderFills[orderId] || 0));
+    if (delta <= 0) return 0;
+    this.state.orderFills[orderId] = filled;
+    this.updateLedger(positionSide, action, delta, price);
+
+    const openIndex =
+      action === "open"
+        ? levelIndex
+        : this.getOpenLevelIndex(levelIndex, positionSide);
+    const level = this.levels[openIndex];
+    if (!level) return delta;
+
+    level.filledAmount =
+      action === "open"
+        ? roundAmount(level.filledAmount + delta)
+        : Math.max(0, roundAmount(level.filledAmount - delta));
+    this.persist();
+    return delta;
+  }
+
+  /**
+   * 记录网格挂单以外的成交 (自动建仓、移出刻度的平仓、策略退出平仓)
+   */
+  public recordTrade(
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number
+  ): void {
+    this.updateLedger(positionSide, action, amount, price);
+    this.persist();
+  }
+
+  /**
+   * 记录一期资金费用结算 (正数为收入，负数为支出)
+   * @param fundingTime 该期的结算时间
+   */
+  public recordFunding(amount: number, fundingTime: number): void {
+    this.state.fundingPnl += amount;
+    this.state.lastFundingTime = fundingTime;
+    this.persist();
+  }
+
+  /**
+   * 持仓不再由本策略管理 (例如移出网格后保留在账户中)，按平均成本移出账本
+   */
+  public releasePosition(positionSide: PositionSide, amount: number): void {
+    this.updateLedger(positionSide, "close", amount, null);
+    this.persist();
+  }
+
+  /**
+   * 更新持仓账本：开仓累加成本，平仓按平均成本计算已实现盈亏
+   * @param price 成交价 (null 表示按平均成本移出，不计盈亏)
+   */
+  private updateLedger(
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number | null
+  ): void {
+    const ledger = this.state.positions[positionSide] || { amount: 0, cost: 0 };
+    if (action === "open") {
+      if (price === null) return;
+      ledger.amount = roundAmount(ledger.amount + amount);
+      ledger.cost += amount * price;
+    } else {
+      const closed = Math.min(amount, ledger.amount);
+      if (closed <= 0) return;
+      const average = ledger.cost / ledger.amount;
+      if (price !== null) {
+        const pnl = (price - average) * closed;
+        this.state.realizedPnl += positionSide === "long" ? pnl : -pnl;
+      }
+      ledger.amount = roundAmount(ledger.amount - closed);
+      ledger.cost = ledger.amount > 0 ? ledger.cost - average * closed : 0;
     }
+    this.state.positions[positionSide] = ledger;
+  }
+
+  /**
+   * 本策略的盈亏 (不含手续费)
+   * @returns realized 已实现盈亏 (含资金费用)，unrealized 按当前价格计算的浮动盈亏，cost 持仓成本
+   */
+  public getPnl(currentPrice: number): {
+    realized: number;
+    unrealized: number;
+    cost: number;
+  } {
+    let unrealized = 0;
+    let cost = 0;
+    for (const [side, ledger] of Object.entries(this.state.positions)) {
+      if (!ledger || ledger.amount <= 0) continue;
+      const pnl = currentPrice * ledger.amount - ledger.cost;
+      unrealized += side === "long" ? pnl : -pnl;
+      cost += ledger.cost;
+    }
+    return {
+      realized: this.state.realizedPnl + this.state.fundingPnl,
+      unrealized,
+      cost,
+    };
+  }
+
+  /**
+   * 本策略的持仓敞口
+   * @returns contracts 持仓数量 (多空合计)，notional 按当前价格计算的名义价值，filledLevels 有持仓的刻度数
+   */
+  public getExposure(currentPrice: number): {
+    contracts: number;
+    notional: number;
+    filledLevels: number;
+  } {
+    const contracts = roundAmount(
+      Object.values(this.state.positions).reduce(
+        (sum, ledger) => sum + (ledger?.amount || 0),
+        0
+      )
+    );
+    return {
+      contracts,
+      notional: contracts * currentPrice,
+      filledLevels: this.levels.filter(l => l.filledAmount > 0).length,
+    };
+  }
+
+  /**
+   * 订单已结束 (完全成交或撤销)，不再需要记录成交量
+   */
+  public forgetOrder(orderId: string): void {
+    if (!(orderId in this.state.orderFills)) return;
+    delete this.state.orderFills[orderId];
+    this.persist();
+  }
+
+  /**
+   * 平仓挂单数量：对应开仓刻度有成交记录时按实际成交量，否则按该刻度的计划数量 (如底仓)
+   */
+  public getCloseAmount(
+    levelIndex: number,
+    positionSide: PositionSide
+  ): number {
+    const openIndex = this.getOpenLevelIndex(levelIndex, positionSide);
+    const level = this.levels[openIndex];
+    return level && level.filledAmount > 0
+      ? level.filledAmount
+      : this.getLevelQuantity(openIndex);
+  }
+
+  /**
+   * 刻度的开仓数量 (按 quantityMode 计算)
+   * 非固定模式下按数量步长向下取整，且不少于一个步长
+   */
+  public getLevelQuantity(index: number): number {
+    const base = this.config.quantityPerGrid;
+    const mode = this.config.quantityMode || QuantityMode.FIXED;
+    if (mode === QuantityMode.FIXED || this.levels.length === 0) return base;
+
+    const i = Math.min(Math.max(index, 0), this.levels.length - 1);
+    // 距区间中心的格数
+    const distance = Math.abs(i - (this.levels.length - 1) / 2);
+    let quantity: number;
+    switch (mode) {
+      case QuantityMode.NOTIONAL:
+        quantity = this.config.notionalPerGrid! / this.levels[i].price;
+        break;
+      case QuantityMode.LINEAR:
+        quantity = base * (1 + this.config.pyramidStep! * distance);
+        break;
+      case QuantityMode.GEOMETRIC:
+        quantity = base * Math.pow(this.config.pyramidRatio!, distance);
+        break;
+      default: {
+        const table = this.config.quantityTable!;
+        quantity = table[Math.min(i, table.length - 1)];
+      }
+    }
+
+    const step = this.amountStep;
+    if (step <= 0) return roundAmount(quantity);
+    return roundAmount(Math.max(Math.floor(quantity / step + 1e-9), 1) * step);
+  }
+
+  /**
+   * 平仓刻度对应的开仓刻度 (多仓在下方一格，空仓在上方一格)
+   */
+  private getOpenLevelIndex(
+    closeIndex: number,
+    positionSide: PositionSide
+  ): number {
+    return positionSide === "long" ? closeIndex - 1 : closeIndex + 1;
+  }
+
+  /**
+   * 用交易所上的活跃挂单刷新各刻度的订单 ID 并持久化
+   */
+  public setActiveOrders(orders: any[]): void {
+    const next = this.levels.map(() => ({ buyOrderId: "", sellOrderId: "" }));
+    for (const order of orders) {
+      const parsed = parseClientOrderId(order.clientOrderId);
+      if (!parsed || !next[parsed.levelIndex]) continue;
+      // 开多/平空为买单，开空/平多为卖单
+      const isBuy =
+        (parsed.positionSide === "long") === (parsed.action === "open");
+      if (isBuy) {
+        next[parsed.levelIndex].buyOrderId = order.id;
+      } else {
+        next[parsed.levelIndex].sellOrderId = order.id;
+      }
+    }
+
+    const changed = this.levels.some(
+      (l, i) =>
+        l.buyOrderId !== next[i].buyOrderId ||
+        l.sellOrderId !== next[i].sellOrderId
+    );
+    if (!changed) return;
+    this.levels.forEach((l, i) => Object.assign(l, next[i]));
+    this.persist();
+  }
+
+  /**
+   * 网格文件中记录的所有订单 ID
+   */
+  public getTrackedOrderIds(): string[] {
+    return this.levels
+      .flatMap(l => [l.buyOrderId, l.sellOrderId])
+      .filter(id => id !== "");
+  }
+
+  /**
+   * 清空各刻度的持仓记录 (仓位已被全部平掉)
+   */
+  public clearInventory(): void {
+    this.levels.forEach(l => (l.filledAmount = 0));
+    this.state.orderFills = {};
+    this.state.positions = {};
+    this.persist();
+  }
+
+  public getState(): StrategyState {
+    return this.state;
+  }
+
+  /**
+   * 更新运行状态并持久化 (无变化时不写文件)
+   */
+  public updateState(patch: Partial<StrategyState>): void {
+    const changed = (Object.keys(patch) as (keyof StrategyState)[]).some(
+      key => patch[key] !== this.state[key]
+    );
+    if (!changed) return;
+    this.state = { ...this.state, ...patch };
+    this.persist();
   }
 
   public getLevels(): GridLevel[] {
     return this.levels;
   }
 
+  /**
+   * 策略唯一标识
+   */
+  public getId(): string {
+    return getStrategyId(this.config);
+  }
+
   public getConfig(): GridConfig {
     return this.config;
   }
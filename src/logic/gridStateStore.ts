@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import { GridStateFile, StrategyState } from "../types/grid";
+import { writeFileAtomic } from "../utils/atomicFile";
+import { Logger, logger } from "../utils/logger";
+
+// 当前网格状态文件版本
+// 0: CSV，无配置信息
+// 1: CSV，首行 "# config:上限,下限,间距"，运行状态在 .state.json 中
+// 2: JSON，记录完整的网格参数、刻度与运行状态
+// 3: 参数快照增加等差网格的 priceStep / gridCount
+// 4: 运行状态增加中性网格的 baselineIndex
+// 5: 运行状态增加追踪网格的 levelShift
+// 6: 运行状态增加持仓账本、已实现盈亏与停止状态
+// 7: 运行状态增加资金费用
+// 8: 运行状态增加已记录资金费用的结算时间
+export const GRID_STATE_VERSION = 8;
+
+export function createEmptyState(): StrategyState {
+  return {
+    anchorIndex: null,
+    closeDisabled: false,
+    lastAnchorResetTime: 0,
+    orderFills: {},
+    baselineIndex: null,
+    levelShift: 0,
+    positions: {},
+    realizedPnl: 0,
+    fundingPnl: 0,
+    lastFundingTime: null,
+    halted: null,
+  };
+}
+
+/**
+ * 版本迁移：key 为源版本，返回下一版本的数据
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v0 -> v1: 旧版 CSV 没有记录配置，网格参数未知
+  0: data => ({
+    ...data,
+    version: 1,
+    config: { upperPrice: null, lowerPrice: null, gridSpread: null },
+  }),
+  // v1 -> v2: 合并 CSV 与运行状态，补充参数快照 (旧版只有等比网格)
+  1: data => ({
+    version: 2,
+    meta: {
+      symbol: null,
+      direction: null,
+      upperPrice: data.config.upperPrice,
+      lowerPrice: data.config.lowerPrice,
+      gridSpread: data.config.gridSpread,
+      spreadType: "geometric",
+      quantityPerGrid: null,
+      tickSize: null,
+    },
+    levels: data.levels.map((l: any) => ({
+      ...l,
+      filledAmount: l.filledAmount || 0,
+    })),
+    state: { ...createEmptyState(), ...data.state },
+  }),
+  // v2 -> v3: 此前只有等比网格，等差参数为空
+  2: data => ({
+    ...data,
+    version: 3,
+    meta: { ...data.meta, priceStep: null, gridCount: null },
+  }),
+  // v3 -> v4: 此前没有中性网格
+  3: data => ({
+    ...data,
+    version: 4,
+    state: { ...data.state, baselineIndex: null },
+  }),
+  // v4 -> v5: 此前网格不会平移
+  4: data => ({
+    ...data,
+    version: 5,
+    state: { ...data.state, levelShift: 0 },
+  }),
+  // v5 -> v6: 此前没有记录持仓成本，账本从空开始
+  5: data => ({
+    ...data,
+    version: 6,
+    state: { ...data.state, positions: {}, realizedPnl: 0, halted: null },
+  }),
+  // v6 -> v7: 此前没有记录资金费用
+  6: data => ({
+    ...data,
+    version: 7,
+    state: { ...data.state, fundingPnl: 0 },
+  }),
+  // v7 -> v8: 此前没有记录结算时间，从下一期开始记录
+  7: data => ({
+    ...data,
+    version: 8,
+    state: { ...data.state, lastFundingTime: null },
+  }),
+};
+
+/**
+ * 逐版本迁移到当前版本
+ */
+export function migrateGridState(data: any): GridStateFile {
+  if (data.version > GRID_STATE_VERSION) {
+    throw new Error(
+      `网格状态文件版本 ${data.version} 高于程序支持的版本 ${GRID_STATE_VERSION}，请升级程序`
+    );
+  }
+  while (data.version < GRID_STATE_VERSION) {
+    data = MIGRATIONS[data.version](data);
+  }
+  return data;
+}
+
+/**
+ * 网格状态存储
+ * 读写 {basePath}.json，首次读取时把旧版 CSV ({basePath}.csv / .state.json) 迁移为新格式
+ */
+export class GridStateStore {
+  private filePath: string;
+  private legacyCsvPath: string;
+  private legacyStatePath: string;
+  private logger: Logger;
+
+  constructor(basePath: string, log: Logger = logger) {
+    this.filePath = `${basePath}.json`;
+    this.legacyCsvPath = `${basePath}.csv`;
+    this.legacyStatePath = `${basePath}.state.json`;
+    this.logger = log;
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * 读取并迁移到当前版本，文件不存在时返回 null
+   */
+  public load(): GridStateFile | null {
+    if (fs.existsSync(this.filePath)) {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      const version = raw.version;
+      const data = migrateGridState(raw);
+      if (version !== data.version) {
+        this.logger.info(
+          `[GridStateStore] 网格状态文件已从 v${version} 迁移到 v${data.version}: ${this.filePath}`
+        );
+        this.backup(this.filePath);
+        this.save(data);
+      }
+      return data;
+    }
+
+    if (fs.existsSync(this.legacyCsvPath)) {
+      const legacy = this.readLegacyCsv();
+      const data = migrateGridState(legacy);
+      this.save(data);
+      this.backup(this.legacyCsvPath);
+      if (fs.existsSync(this.legacyStatePath)) {
+        this.backup(this.legacyStatePath);
+      }
+      this.logger.info(
+        `[GridStateStore] 旧版网格文件 (v${legacy.version}) 已迁移为 ${this.filePath}`
+      );
+      return data;
+    }
+
+    return null;
+  }
+
+  public save(data: GridStateFile): void {
+    writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * 备份当前文件 (重新生成网格或迁移前调用)
+   */
+  public backupCurrent(): string | null {
+    if (!fs.existsSync(this.filePath)) return null;
+    return this.backup(this.filePath);
+  }
+
+  private backup(filePath: string): string {
+    const backupPath = `${filePath}.${Date.now()}.bak`;
+    fs.renameSync(filePath, backupPath);
+    return backupPath;
+  }
+
+  /**
+   * 读取 v0 / v1 CSV (index,price,buy_order_id,sell_order_id[,filled_amount])
+   */
+  private readLegacyCsv(): any {
+    const lines = fs
+      .readFileSync(this.legacyCsvPath, "utf8")
+      .trim()
+      .split("\n");
+    const configLine = lines.find(line => line.startsWith("# config:"));
+    const levels = lines
+      .filter(line => !line.startsWith("#") && !line.startsWith("index,"))
+      .map(line => {
+        const [index, price, buyOrderId, sellOrderId, filledAmount] =
+          line.split(",");
+        return {
+          index: parseInt(index),
+          price: parseFloat(price),
+          buyOrderId: buyOrderId || "",
+          sellOrderId: sellOrderId || "",
+          filledAmount: parseFloat(filledAmount) || 0,
+        };
+      });
+
+    let state: Partial<StrategyState> = {};
+    if (fs.existsSync(this.legacyStatePath)) {
+      try {
+        state = JSON.parse(fs.readFileSync(this.legacyStatePath, "utf8"));
+      } catch (error: any) {
+        this.logger.warn(
+          `[GridStateStore] 运行状态文件损坏，忽略: ${this.legacyStatePath} (${error.message})`
+        );
+      }
+    }
+
+    if (!configLine) {
+      return { version: 0, levels, state };
+    }
+    const [upperPrice, lowerPrice, gridSpread] = configLine
+      .replace("# config:", "")
+      .split(",")
+      .map(Number);
+    return {
+      version: 1,
+      config: { upperPrice, lowerPrice, gridSpread },
+      levels,
+      state,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { OrderExecutor } from "../exchange/orderExecutor";
+import { InitialPositionEntry } from "../types/config";
+import { ExchangeConnection } from "../types/exchange";
+import { GridDirection, StrategyRef } from "../types/grid";
+import { Clock } from "../utils/clock";
+import { Logger } from "../utils/logger";
+
+/**
+ * 底仓构建参数
+ */
+export interface EntrySettings {
+  entry: InitialPositionEntry;
+  slices: number; // limit / twap 拆分的份数
+  intervalMs: number; // twap 每份间隔、limit 等待成交的时间
+  maxSlippage: number; // 相对建仓开始时价格的最大偏离 (比例)
+}
+
+/**
+ * 建仓结果
+ */
+export interface BuildResult {
+  amount: number; // 已成交 (市价单视为已成交) 的数量
+  averagePrice: number; // 成交均价 (市价单按下单前的最新价估算)
+}
+
+// 消除浮点误差
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * 按数量步长把总量拆成最多 slices 份，余量计入最后一份
+ */
+function splitAmount(total: number, slices: number, step: number): number[] {
+  const maxSlices = step > 0 ? Math.floor(total / step + 1e-9) : slices;
+  const count = Math.max(1, Math.min(slices, maxSlices));
+  const base =
+    step > 0
+      ? Math.floor(total / count / step + 1e-9) * step
+      : total / count;
+  return [
+    ...Array.from({ length: count - 1 }, () => round(base)),
+    round(total - base * (count - 1)),
+  ];
+}
+
+/**
+ * 底仓构建器：一次市价、Post Only 限价阶梯或 TWAP 分批市价，
+ * 价格相对开始建仓时不利偏离超过 maxSlippage 时停止建仓
+ */
+export class InitialPositionBuilder {
+  private exchange: ExchangeConnection;
+  private executor: OrderExecutor;
+  private logger: Logger;
+  private clock: Clock;
+
+  constructor(
+    exchange: ExchangeConnection,
+    executor: OrderExecutor,
+    logger: Logger,
+    clock: Clock
+  ) {
+    this.exchange = exchange;
+    this.executor = executor;
+    this.logger = logger;
+    this.clock = clock;
+  }
+
+  /**
+   * 构建底仓
+   * @param strategy 建仓的策略 (方向为 LONG / SHORT)
+   * @param referencePrice 开始建仓时的价格
+   */
+  public async build(
+    label: string,
+    strategy: StrategyRef,
+    amount: number,
+    referencePrice: number,
+    settings: EntrySettings
+  ): Promise<BuildResult> {
+    const { symbol, direction } = strategy;
+    const slices = settings.entry === "market" ? 1 : settings.slices;
+    const amounts = splitAmount(
+      amount,
+      slices,
+      this.exchange.getAmountStep(symbol)
+    );
+    this.logger.info(
+      `[InitialPosition] ${label} 建仓方式: ${settings.entry} | 数量: ${amount} | 拆分: ${amounts.join(
+        ", "
+      )} | 参考价: ${referencePrice}`
+    );
+
+    const result =
+      settings.entry === "limit"
+        ? await this.buildWithLimitLadder(
+            label,
+            strategy,
+            amounts,
+            referencePrice,
+            settings
+          )
+        : await this.buildWithMarketSlices(
+            label,
+            symbol,
+            direction,
+            amounts,
+            referencePrice,
+            settings
+          );
+
+    if (result.amount < amount) {
+      this.logger.warn(
+        `[InitialPosition] ${label} 底仓未完全建立: ${result.amount} / ${amount}，缺少持仓的平仓单将暂时无法挂出`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 市价 / TWAP：每份下单前检查价格偏离
+   */
+  private async buildWithMarketSlices(
+    label: string,
+    symbol: string,
+    direction: GridDirection,
+    amounts: number[],
+    referencePrice: number,
+    settings: EntrySettings
+  ): Promise<BuildResult> {
+    const isLong = direction === GridDirection.LONG;
+    const limitPrice = isLong
+      ? referencePrice * (1 + settings.maxSlippage)
+      : referencePrice * (1 - settings.maxSlippage);
+    let built = 0;
+    let value = 0;
+
+    for (let i = 0; i < amounts.length; i++) {
+      if (i > 0) await this.clock.sleep(settings.intervalMs);
+
+      const ticker = await this.exchange.client.fetchTicker(symbol);
+      const price = ticker.last;
+      if (isLong ? price > limitPrice : price < limitPrice) {
+        this.logger.warn(
+          `[InitialPosition] ${label} 价格 ${price} 偏离参考价 ${referencePrice} 超过 ${settings.maxSlippage}，停止建仓`
+        );
+        break;
+      }
+
+      await this.executor.placeMarketOrder(
+        symbol,
+        isLong ? "buy" : "sell",
+        amounts[i]
+      );
+      built = round(built + amounts[i]);
+      value += amounts[i] * price;
+      this.logger.info(
+        `[InitialPosition] ${label} 第 ${i + 1}/${amounts.length} 份完成 | 价格: ${price} | 累计: ${built}`
+      );
+    }
+    return { amount: built, averagePrice: built > 0 ? value / built : 0 };
+  }
+
+  /**
+   * 限价阶梯：在参考价下方 (做空为上方) maxSlippage 范围内均匀挂 Post Only 单，
+   * 等待 intervalMs 后撤销未成交部分；挂单带策略标签，进程中断后由重启时清理
+   */
+  private async buildWithLimitLadder(
+    label: string,
+    strategy: StrategyRef,
+    amounts: number[],
+    referencePrice: number,
+    settings: EntrySettings
+  ): Promise<BuildResult> {
+    const { symbol, direction } = strategy;
+    const isLong = direction === GridDirection.LONG;
+    const tickSize = this.exchange.getTickSize(symbol);
+    const client = this.exchange.client;
+
+    const ids: string[] = [];
+    for (let i = 0; i < amounts.length; i++) {
+      const offset =
+        (referencePrice * settings.maxSlippage * (i + 1)) / amounts.length;
+      const raw = isLong ? referencePrice - offset : referencePrice + offset;
+      const ticks = isLong
+        ? Math.floor(raw / tickSize + 1e-9)
+        : Math.ceil(raw / tickSize - 1e-9);
+      const price = round(ticks * tickSize);
+      const order = await this.executor.placeGridOrder(
+        symbol,
+        price,
+        amounts[i],
+        direction,
+        "open",
+        this.executor.nextEntryClientOrderId(strategy, i)
+      );
+      if (order) ids.push(order.id);
+    }
+    if (ids.length === 0) return { amount: 0, averagePrice: 0 };
+
+    await this.clock.sleep(settings.intervalMs);
+
+    const open = (await client.fetchOpenOrders(symbol)).filter((o: any) =>
+      ids.includes(o.id)
+    );
+    if (open.length > 0) {
+      await this.exchange.adapter.cancelOrders(
+        client,
+        open.map((o: any) => o.id),
+        symbol
+      );
+      this.logger.info(
+        `[InitialPosition] ${label} 撤销 ${open.length} 笔未完全成交的建仓挂单`
+      );
+    }
+
+    // 撤单前的快照可能漏掉撤单过程中的成交，撤单后逐笔查询最终成交量
+    let built = 0;
+    let value = 0;
+    for (const id of ids) {
+      const order = await client.fetchOrder(id, symbol);
+      const filled = order.filled || 0;
+      built = round(built + filled);
+      value += filled * (order.average || order.price);
+    }
+    return { amount: built, averagePrice: built > 0 ? value / built : 0 };
+  }
+}
@@ -0,0 +1,69 @@
+import { PositionSide } from "../types/exchange";
+
+/**
+ * 持仓的强平风险指标 (交易所未返回的字段为 null)
+ */
+export interface PositionRisk {
+  positionSide: PositionSide;
+  contracts: number;
+  markPrice: number | null;
+  liquidationPrice: number | null;
+  distance: number | null; // 标记价格距强平价的比例
+  marginRatio: number | null;
+}
+
+/**
+ * 强平保护阈值 (未设置的不检查)
+ */
+export interface LiquidationLimits {
+  distance?: number;
+  marginRatio?: number;
+}
+
+// 已触发的保护需要离阈值多出该比例才解除，避免在阈值附近反复撤挂开仓单
+const RELEASE_BUFFER = 0.2;
+
+function toNumber(value: unknown): number | null {
+  const num = Number(value);
+  return value != null && Number.isFinite(num) && num > 0 ? num : null;
+}
+
+/**
+ * 从交易所持仓 (CCXT 统一结构) 计算强平风险指标
+ */
+export function getPositionRisk(position: any): PositionRisk {
+  const markPrice = toNumber(position.markPrice);
+  const liquidationPrice = toNumber(position.liquidationPrice);
+  return {
+    positionSide: position.side,
+    contracts: position.contracts || 0,
+    markPrice,
+    liquidationPrice,
+    distance:
+      markPrice !== null && liquidationPrice !== null
+        ? Math.abs(markPrice - liquidationPrice) / markPrice
+        : null,
+    marginRatio: toNumber(position.marginRatio),
+  };
+}
+
+/**
+ * 持仓是否需要强平保护
+ * @param active 是否已处于保护状态 (已触发时按放宽后的阈值判断是否解除)
+ */
+export function needsLiquidationGuard(
+  risk: PositionRisk,
+  limits: LiquidationLimits,
+  active: boolean
+): boolean {
+  if (risk.contracts <= 0) return false;
+  const factor = active ? 1 + RELEASE_BUFFER : 1;
+  return (
+    (limits.distance !== undefined &&
+      risk.distance !== null &&
+      risk.distance <= limits.distance * factor) ||
+    (limits.marginRatio !== undefined &&
+      risk.marginRatio !== null &&
+      risk.marginRatio >= limits.marginRatio / factor)
+  );
+}
@@ -0,0 +1,186 @@
+import * as fs from "fs";
+import * as path from "path";
+import dayjs from "dayjs";
+import { RiskConfig } from "../types/config";
+import { ExchangeConnection } from "../types/exchange";
+import { writeFileAtomic } from "../utils/atomicFile";
+import { Clock } from "../utils/clock";
+import { Logger } from "../utils/logger";
+import { DEFAULT_STATE_DIR } from "./gridContext";
+
+/**
+ * 账户风控状态 (持久化，重启后保持触发状态与权益峰值)
+ */
+export interface RiskState {
+  peakEquity: number | null; // 权益峰值
+  day: string | null; // 当日日期 (YYYY-MM-DD，本地时间)
+  dayStartEquity: number | null; // 当日首次记录的权益
+  lastEquity: number | null;
+  lastMarginRatio: number | null;
+  tripped: { reason: string; time: number } | null; // 触发原因与时间
+}
+
+function createEmptyRiskState(): RiskState {
+  return {
+    peakEquity: null,
+    day: null,
+    dayStartEquity: null,
+    lastEquity: null,
+    lastMarginRatio: null,
+    tripped: null,
+  };
+}
+
+/**
+ * 账户级风控：定时记录 USDT 权益与保证金率，
+ * 相对峰值回撤、当日亏损或保证金率超过阈值时触发，触发后保持到显式重置
+ */
+export class RiskGuard {
+  private exchange: ExchangeConnection;
+  private config: RiskConfig;
+  private logger: Logger;
+  private clock: Clock;
+  private filePath: string;
+  private state: RiskState;
+
+  constructor(
+    exchange: ExchangeConnection,
+    config: RiskConfig,
+    log: Logger,
+    clock: Clock,
+    stateDir: string = DEFAULT_STATE_DIR
+  ) {
+    this.exchange = exchange;
+    this.config = config;
+    this.logger = log;
+    this.clock = clock;
+    if (!fs.existsSync(stateDir)) {
+      fs.mkdirSync(stateDir, { recursive: true });
+    }
+    this.filePath = path.join(stateDir, "risk_state.json");
+    this.state = this.load();
+  }
+
+  public getConfig(): RiskConfig {
+    return this.config;
+  }
+
+  public getState(): RiskState {
+    return this.state;
+  }
+
+  public isTripped(): boolean {
+    return this.state.tripped !== null;
+  }
+
+  /**
+   * 获取权益与保证金率并检查阈值 (已触发时不再检查)
+   * @param symbols 需要检查保证金率的交易对
+   * @returns 本次触发的原因，未触发返回 null
+   */
+  public async check(symbols: string[]): Promise<string | null> {
+    if (this.isTripped()) return null;
+
+    const balance = await this.exchange.client.fetchBalance();
+    const equity = balance["USDT"]
+      ? balance["USDT"].total
+      : balance.total["USDT"] || 0;
+    const marginRatio =
+      this.config.max_margin_ratio !== undefined
+        ? await this.fetchMarginRatio(symbols)
+        : null;
+
+    const reason = this.update(equity, marginRatio);
+    if (reason) {
+      this.state.tripped = { reason, time: this.clock.now() };
+      this.logger.error(`[RiskGuard] 账户风控触发: ${reason}`);
+    }
+    this.save();
+    return reason;
+  }
+
+  /**
+   * 重置风控：清除触发状态，权益峰值与当日起始权益从下一次检查重新记录
+   */
+  public reset(): void {
+    this.state = createEmptyRiskState();
+    this.save();
+    this.logger.warn("[RiskGuard] 账户风控已重置");
+  }
+
+  /**
+   * 记录本次权益并检查阈值
+   */
+  private update(equity: number, marginRatio: number | null): string | null {
+    const state = this.state;
+    const day = dayjs(this.clock.now()).format("YYYY-MM-DD");
+    if (state.day !== day || state.dayStartEquity === null) {
+      state.day = day;
+      state.dayStartEquity = equity;
+    }
+    state.peakEquity = Math.max(state.peakEquity ?? equity, equity);
+    state.lastEquity = equity;
+    state.lastMarginRatio = marginRatio;
+
+    const { max_drawdown_percent, max_daily_loss, max_margin_ratio } =
+      this.config;
+    const drawdown =
+      state.peakEquity > 0
+        ? ((state.peakEquity - equity) / state.peakEquity) * 100
+        : 0;
+    const dailyLoss = state.dayStartEquity - equity;
+
+    if (
+      max_drawdown_percent !== undefined &&
+      drawdown >= max_drawdown_percent
+    ) {
+      return `权益 ${equity} 相对峰值 ${state.peakEquity} 回撤 ${drawdown.toFixed(
+        2
+      )}%，达到 max_drawdown_percent ${max_drawdown_percent}%`;
+    }
+    if (max_daily_loss !== undefined && dailyLoss >= max_daily_loss) {
+      return `当日亏损 ${dailyLoss.toFixed(
+        2
+      )} USDT，达到 max_daily_loss ${max_daily_loss}`;
+    }
+    if (
+      max_margin_ratio !== undefined &&
+      marginRatio !== null &&
+      marginRatio >= max_margin_ratio
+    ) {
+      return `保证金率 ${marginRatio} 达到 max_margin_ratio ${max_margin_ratio}`;
+    }
+    return null;
+  }
+
+  /**
+   * 各持仓中最高的保证金率 (交易所未返回时为 null)
+   */
+  private async fetchMarginRatio(symbols: string[]): Promise<number | null> {
+    if (symbols.length === 0) return null;
+    const positions = await this.exchange.client.fetchPositions(symbols);
+    const ratios = positions
+      .filter((p: any) => p.contracts > 0 && p.marginRatio != null)
+      .map((p: any) => Number(p.marginRatio));
+    return ratios.length > 0 ? Math.max(...ratios) : null;
+  }
+
+  private load(): RiskState {
+    if (!fs.existsSync(this.filePath)) return createEmptyRiskState();
+    try {
+      return {
+        ...createEmptyRiskState(),
+        ...JSON.parse(fs.readFileSync(this.filePath, "utf-8")),
+      };
+    } catch (error: any) {
+      this.logger.error(
+        `[RiskGuard] 读取风控状态失败，重新记录: ${error.message}`
+      );
+      return createEmptyRiskState();
+    }
+  }
+
+  private save(): void {
+    writeFileAtomic(this.filePath, JSON.stringify(this.state, null, 2));
+  }
+}
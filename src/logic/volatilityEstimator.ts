@@ -0,0 +1,141 @@
+import { ExchangeConnection } from "../types/exchange";
+import { Clock } from "../utils/clock";
+import { Logger } from "../utils/logger";
+
+// K 线周期单位 -> 毫秒
+const TIMEFRAME_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+// ticker 价格先聚合为 1 分钟 K 线保存
+const SAMPLE_MS = TIMEFRAME_UNITS.m;
+// 每个交易对保留的 1 分钟 K 线数量 (7 天)
+const MAX_SAMPLES = 7 * 24 * 60;
+
+/**
+ * K 线周期转换为毫秒 (例如 "15m"、"1h"、"1d")
+ */
+export function timeframeToMs(timeframe: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(timeframe);
+  if (!match) {
+    throw new Error(`不支持的 K 线周期: ${timeframe}`);
+  }
+  return parseInt(match[1], 10) * TIMEFRAME_UNITS[match[2]];
+}
+
+/**
+ * 平均真实波幅 (ATR) 与最新收盘价的比值
+ * @param candles CCXT 格式的 K 线 [时间, 开, 高, 低, 收, 量]，按时间升序
+ * @param period ATR 周期
+ * @returns K 线数量不足 period + 1 根时返回 null
+ */
+export function calculateAtrRatio(
+  candles: number[][],
+  period: number
+): number | null {
+  if (period < 1 || candles.length < period + 1) return null;
+
+  const recent = candles.slice(-(period + 1));
+  let sum = 0;
+  for (let i = 1; i < recent.length; i++) {
+    const [, , high, low] = recent[i];
+    const prevClose = recent[i - 1][4];
+    sum += Math.max(
+      high - low,
+      Math.abs(high - prevClose),
+      Math.abs(low - prevClose)
+    );
+  }
+  const lastClose = recent[recent.length - 1][4];
+  return lastClose > 0 ? sum / period / lastClose : null;
+}
+
+/**
+ * 波动率估算器
+ * 交易所支持 fetchOHLCV 时使用 K 线计算 ATR，否则 (如纸面交易) 使用记录的 ticker 价格历史按周期聚合计算
+ */
+export class VolatilityEstimator {
+  private exchange: ExchangeConnection;
+  private logger: Logger;
+  private clock: Clock;
+  // 交易对 -> 由 ticker 价格聚合的 1 分钟 K 线
+  private samples: Record<string, number[][]> = {};
+
+  constructor(exchange: ExchangeConnection, log: Logger, clock: Clock) {
+    this.exchange = exchange;
+    this.logger = log;
+    this.clock = clock;
+  }
+
+  /**
+   * 记录 ticker 价格 (交易所不支持 fetchOHLCV 时的数据来源)
+   */
+  public recordPrice(symbol: string, price: number): void {
+    if (!this.samples[symbol]) this.samples[symbol] = [];
+    const candles = this.samples[symbol];
+    const time = Math.floor(this.clock.now() / SAMPLE_MS) * SAMPLE_MS;
+    const last = candles[candles.length - 1];
+
+    if (last && last[0] === time) {
+      last[2] = Math.max(last[2], price);
+      last[3] = Math.min(last[3], price);
+      last[4] = price;
+      return;
+    }
+    candles.push([time, price, price, price, price, 0]);
+    if (candles.length > MAX_SAMPLES) candles.shift();
+  }
+
+  /**
+   * 估算 ATR 与最新价格的比值
+   * @returns 数据不足时返回 null
+   */
+  public async estimate(
+    symbol: string,
+    timeframe: string,
+    period: number
+  ): Promise<number | null> {
+    const client = this.exchange.client;
+    if (client.has?.fetchOHLCV) {
+      // 多取一根，最后一根可能尚未收盘
+      const candles = await client.fetchOHLCV(
+        symbol,
+        timeframe,
+        undefined,
+        period + 2
+      );
+      return calculateAtrRatio(candles, period);
+    }
+
+    const candles = this.aggregate(symbol, timeframeToMs(timeframe));
+    if (candles.length < period + 1) {
+      this.logger.info(
+        `[Volatility] [${symbol}] 交易所不支持 fetchOHLCV，ticker 价格历史不足 ${
+          period + 1
+        } 根 ${timeframe} K 线 (当前 ${candles.length} 根)`
+      );
+    }
+    return calculateAtrRatio(candles, period);
+  }
+
+  /**
+   * 将 1 分钟 K 线聚合为指定周期
+   */
+  private aggregate(symbol: string, periodMs: number): number[][] {
+    const result: number[][] = [];
+    for (const [time, open, high, low, close] of this.samples[symbol] || []) {
+      const bucket = Math.floor(time / periodMs) * periodMs;
+      const last = result[result.length - 1];
+      if (last && last[0] === bucket) {
+        last[2] = Math.max(last[2], high);
+        last[3] = Math.min(last[3], low);
+        last[4] = close;
+      } else {
+        result.push([bucket, open, high, low, close, 0]);
+      }
+    }
+    return result;
+  }
+}
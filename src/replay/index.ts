@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import { logger } from "../utils/logger";
+import { JournalReplayer } from "./journalReplayer";
+
+/**
+ * 会话回放命令入口
+ * 用法: npm run replay -- --journal journal/session_xxx.jsonl [--out diff.json]
+ * 存在差异时以退出码 1 结束，可直接用作回归测试
+ */
+async function main() {
+  const argv = process.argv.slice(2);
+  const journalIdx = argv.indexOf("--journal");
+  const outIdx = argv.indexOf("--out");
+  const journal = journalIdx !== -1 ? argv[journalIdx + 1] : undefined;
+  if (!journal) {
+    logger.error("缺少参数 --journal <会话日志文件>");
+    process.exit(1);
+  }
+
+  try {
+    const result = await new JournalReplayer(journal).run();
+
+    logger.info(
+      `[Replay] 回放完成: 调用 ${result.calls} 条 | 推送 ${result.streamEvents} 条 | 差异 ${result.diffs.length} 处`
+    );
+    for (const diff of result.diffs) {
+      logger.warn(
+        `[Replay] [${diff.kind}] ${diff.method} @ ${new Date(
+          diff.ts
+        ).toISOString()} | 记录: ${JSON.stringify(
+          diff.expected
+        )} | 回放: ${JSON.stringify(diff.actual)}`
+      );
+    }
+    if (outIdx !== -1 && argv[outIdx + 1]) {
+      fs.writeFileSync(argv[outIdx + 1], JSON.stringify(result, null, 2));
+    }
+    process.exit(result.diffs.length > 0 ? 1 : 0);
+  } catch (error: any) {
+    logger.error("回放执行失败:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AppConfig } from "../types/config";
+
+// 2: 网格 clientOrderId 去掉会话段，回放按原值比对
+export const JOURNAL_VERSION = 2;
+
+/**
+ * 会话日志头：记录会话启动时的交易所、精度模式与 (脱敏后的) 配置
+ */
+export interface JournalHeader {
+  type: "header";
+  version: number;
+  startedAt: number;
+  exchange: string;
+  precisionMode: number;
+  config: AppConfig;
+  state?: Record<string, string>; // 会话启动时的网格状态文件 (文件名 -> 内容)，回放时还原
+}
+
+/**
+ * 单次交易所调用记录 (按调用完成顺序写入)
+ */
+export interface JournalCall {
+  type: "call";
+  seq: number;
+  callId: number; // 发起调用的顺序
+  startTs: number; // 发起调用的时间
+  ts: number; // 调用完成的时间
+  method: string;
+  args: any[];
+  result?: any;
+  error?: { name: string; message: string };
+}
+
+export type JournalEntry = JournalHeader | JournalCall;
+
+// 推送类接口：回放时按记录时间释放
+export const STREAM_METHODS = ["watchOrders", "watchTicker"];
+
+/**
+ * 判断是否为写操作 (下单/撤单/设置类接口)，回放时用于与记录进行比对
+ */
+export function isWriteMethod(method: string): boolean {
+  return /^(create|cancel|edit|set|add|reduce|close)/.test(method) ||
+    /^private(Post|Put|Delete)/.test(method);
+}
+
+/**
+ * 读取会话日志
+ */
+export function readJournal(filePath: string): {
+  header: JournalHeader;
+  calls: JournalCall[];
+} {
+  const fullPath = path.resolve(process.cwd(), filePath);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`会话日志不存在: ${fullPath}`);
+  }
+
+  const entries: JournalEntry[] = fs
+    .readFileSync(fullPath, "utf8")
+    .split("\n")
+    .filter(line => line.trim() !== "")
+    .map(line => JSON.parse(line));
+
+  const header = entries.find(e => e.type === "header") as JournalHeader;
+  if (!header) {
+    throw new Error(`会话日志缺少头信息: ${fullPath}`);
+  }
+  if (header.version !== JOURNAL_VERSION) {
+    throw new Error(
+      `不支持的会话日志版本: ${header.version} (当前: ${JOURNAL_VERSION})`
+    );
+  }
+
+  const calls = entries.filter(e => e.type === "call") as JournalCall[];
+  calls.sort((a, b) => a.seq - b.seq);
+  return { header, calls };
+}
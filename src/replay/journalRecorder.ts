@@ -0,0 +1,156 @@
+import * as fs from "fs";
+import * as path from "path";
+import dayjs from "dayjs";
+import { DEFAULT_STATE_DIR } from "../logic/gridContext";
+import { AppConfig } from "../types/config";
+import { clock } from "../utils/clock";
+import { logger } from "../utils/logger";
+import { JOURNAL_VERSION, JournalEntry } from "./journal";
+
+/**
+ * 会话记录器
+ * 包装交易所客户端，把每一次异步调用 (WebSocket 推送与 REST 响应) 写入带时间戳的 JSONL 日志，
+ * 供 JournalReplayer 确定性回放
+ */
+export class JournalRecorder {
+  private filePath: string;
+  private seq: number = 0;
+  private callId: number = 0;
+  private symbols: Set<string>;
+
+  /**
+   * @param stateDir 网格状态目录，会话启动时的状态写入日志头
+   */
+  constructor(
+    dir: string,
+    exchange: string,
+    precisionMode: number,
+    config: AppConfig,
+    stateDir: string = DEFAULT_STATE_DIR
+  ) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    this.filePath = path.join(
+      dir,
+      `session_${dayjs().format("YYYY-MM-DD_HH-mm-ss")}.jsonl`
+    );
+    this.symbols = new Set(config.strategies.map(s => s.symbol));
+
+    this.append({
+      type: "header",
+      version: JOURNAL_VERSION,
+      startedAt: clock.now(),
+      exchange,
+      precisionMode,
+      config: JournalRecorder.redact(config),
+      state: JournalRecorder.snapshotState(stateDir),
+    });
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * 包装客户端：所有返回 Promise 的方法调用都会被记录
+   */
+  public wrap<T extends object>(client: T): T {
+    return new Proxy(client, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof value !== "function" || typeof prop !== "string") {
+          return value;
+        }
+        return (...args: any[]) => {
+          const result = value.apply(target, args);
+          if (!(result instanceof Promise)) {
+            return result;
+          }
+          const callId = ++this.callId;
+          const startTs = clock.now();
+          return result.then(
+            (resolved: any) => {
+              this.record(prop, args, callId, startTs, resolved);
+              return resolved;
+            },
+            (error: any) => {
+              this.record(prop, args, callId, startTs, undefined, error);
+              throw error;
+            }
+          );
+        };
+      },
+    });
+  }
+
+  private record(
+    method: string,
+    args: any[],
+    callId: number,
+    startTs: number,
+    result?: any,
+    error?: any
+  ): void {
+    try {
+      // 市场数据只保留策略用到的交易对，避免日志过大
+      if (method === "loadMarkets" && result) {
+        const markets: Record<string, any> = {};
+        for (const symbol of this.symbols) {
+          if (result[symbol]) markets[symbol] = result[symbol];
+        }
+        result = markets;
+      }
+
+      this.append({
+        type: "call",
+        seq: ++this.seq,
+        callId,
+        startTs,
+        ts: clock.now(),
+        method,
+        args,
+        result,
+        error: error
+          ? { name: error.name || "Error", message: error.message }
+          : undefined,
+      });
+    } catch (e: any) {
+      logger.warn(`[Recorder] 记录 ${method} 失败: ${e.message}`);
+    }
+  }
+
+  private append(entry: JournalEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n", "utf8");
+  }
+
+  /**
+   * 读取网格状态目录下的所有文件，引擎会从中恢复上次运行的状态
+   */
+  private static snapshotState(dir: string): Record<string, string> {
+    const state: Record<string, string> = {};
+    if (!fs.existsSync(dir)) return state;
+    for (const file of fs.readdirSync(dir)) {
+      const filePath = path.join(dir, file);
+      if (fs.statSync(filePath).isFile()) {
+        state[file] = fs.readFileSync(filePath, "utf8");
+      }
+    }
+    return state;
+  }
+
+  /**
+   * 去除配置中的 API 凭证
+   */
+  private static redact(config: AppConfig): AppConfig {
+    return {
+      ...config,
+      exchanges: config.exchanges.map(e => ({
+        ...e,
+        apiKey: undefined,
+        secret: undefined,
+        password: undefined,
+      })),
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigLoader } from "../config/configLoader";
+import { ExchangeManager } from "../exchange/exchangeManager";
+import { BotEngine } from "../logic/botEngine";
+import { clock, SimulatedClock, waitForIdle } from "../utils/clock";
+import { logger } from "../utils/logger";
+import { readJournal } from "./journal";
+import { ReplayDiff, ReplayExchange } from "./replayExchange";
+
+export interface ReplayResult {
+  journal: string;
+  calls: number;
+  streamEvents: number;
+  diffs: ReplayDiff[];
+}
+
+/**
+ * 会话回放
+ * 使用模拟时钟把日志中的推送按记录时间喂给真实的 BotEngine，
+ * 并把引擎发出的下单/撤单与记录逐条比对
+ */
+export class JournalReplayer {
+  private journalPath: string;
+
+  constructor(journalPath: string) {
+    this.journalPath = journalPath;
+  }
+
+  public async run(): Promise<ReplayResult> {
+    const { header, calls } = readJournal(this.journalPath);
+
+    // 1. 使用日志中的配置 (关闭记录，避免回放时产生新的日志)
+    const config = header.config;
+    config.recorder = undefined;
+    ConfigLoader.getInstance().useConfig(config);
+
+    const simClock = new SimulatedClock(
+      calls.length > 0 ? calls[0].startTs : header.startedAt
+    );
+    clock.use(simClock);
+
+    // 2. 用回放交易所替换真实客户端
+    const replay = new ReplayExchange(header, calls, () => simClock.now());
+    const exchange = ExchangeManager.getInstance();
+    exchange.client = replay.client;
+
+    logger.info(
+      `[Replay] 开始回放: ${this.journalPath} | 交易所: ${header.exchange} | 调用记录: ${calls.length}`
+    );
+
+    // 3. 启动引擎 (网格文件写入临时目录，并还原会话启动时的网格状态)
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-replay-"));
+    for (const [file, content] of Object.entries(header.state || {})) {
+      fs.writeFileSync(path.join(stateDir, file), content, "utf8");
+    }
+    const engine = new BotEngine({ stateDir });
+    await engine.start();
+    await waitForIdle(() => replay.callCount);
+
+    // 4. 按记录时间释放推送 (同一时刻完成的推送一起释放)
+    const streams = replay.getStreamEntries();
+    for (let i = 0; i < streams.length; ) {
+      const ts = streams[i].ts;
+      simClock.advanceTo(ts);
+      while (i < streams.length && streams[i].ts === ts) {
+        replay.release(streams[i++]);
+      }
+      await waitForIdle(() => replay.callCount);
+    }
+
+    // 5. 停止引擎 (记录中的退出清理同样参与比对)
+    if (calls.length > 0) {
+      simClock.advanceTo(calls[calls.length - 1].ts);
+    }
+    await engine.stop();
+    await waitForIdle(() => replay.callCount);
+
+    return {
+      journal: this.journalPath,
+      calls: calls.length,
+      streamEvents: streams.length,
+      diffs: replay.finish(),
+    };
+  }
+}
@@ -0,0 +1,303 @@
+import {
+  JournalCall,
+  JournalHeader,
+  STREAM_METHODS,
+  isWriteMethod,
+} from "./journal";
+
+/**
+ * 回放差异
+ * - mismatch: 引擎发出的写操作参数与记录不一致
+ * - unexpected: 引擎发出了记录中不存在的写操作
+ * - missing: 记录中的写操作在回放时没有发生
+ */
+export interface ReplayDiff {
+  kind: "mismatch" | "unexpected" | "missing";
+  method: string;
+  ts: number;
+  expected?: any[];
+  actual?: any[];
+}
+
+// 写操作乱序匹配的最大向前查找条数
+const WRITE_MATCH_WINDOW = 20;
+
+interface StreamWaiter {
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * 回放交易所：按会话日志返回记录的响应
+ * - 推送 (watchOrders/watchTicker) 由回放驱动按记录时间释放，
+ *   同一订阅的第 k 次调用对应记录中第 k 次发起的调用
+ * - 读操作按调用顺序返回记录的响应
+ * - 写操作与记录逐条比对，差异汇总到 getDiffs()
+ */
+export class ReplayExchange {
+  public readonly client: any;
+  // 交易所调用计数，用于判断引擎是否空闲
+  public callCount: number = 0;
+
+  private markets: Record<string, any> = {};
+  private streams: JournalCall[] = [];
+  private reads: Map<string, JournalCall[]> = new Map();
+  private lastReads: Map<string, JournalCall> = new Map();
+  private writes: Map<string, JournalCall[]> = new Map();
+  private streamCalls: Map<string, JournalCall[]> = new Map();
+  private streamInvocations: Map<string, number> = new Map();
+  private streamWaiters: Map<JournalCall, StreamWaiter> = new Map();
+  private released: Set<JournalCall> = new Set();
+  private diffs: ReplayDiff[] = [];
+  private syntheticSeq: number = 0;
+  private now: () => number;
+
+  constructor(header: JournalHeader, calls: JournalCall[], now: () => number) {
+    this.now = now;
+
+    for (const call of calls) {
+      if (call.method === "loadMarkets") {
+        this.markets = call.result || {};
+      } else if (STREAM_METHODS.includes(call.method)) {
+        this.streams.push(call);
+        this.pushTo(this.streamCalls, this.getCallKey(call.method, call.args), call);
+      } else if (isWriteMethod(call.method)) {
+        this.pushTo(this.writes, call.method, call);
+      } else {
+        this.pushTo(this.reads, this.getCallKey(call.method, call.args), call);
+      }
+    }
+    for (const queue of this.streamCalls.values()) {
+      queue.sort((a, b) => a.callId - b.callId);
+    }
+
+    const base = {
+      markets: this.markets,
+      precisionMode: header.precisionMode,
+      has: {},
+      market: (symbol: string) => {
+        const market = this.markets[symbol];
+        if (!market) throw new Error(`[Replay] 日志中没有交易对 ${symbol}`);
+        return market;
+      },
+      setSandboxMode: () => {},
+    };
+    this.client = new Proxy(base, {
+      get: (target: any, prop) => {
+        if (typeof prop !== "string" || prop === "then") return undefined;
+        if (prop in target) return target[prop];
+        return (...args: any[]) => this.handleCall(prop, args);
+      },
+    });
+  }
+
+  /**
+   * 按时间顺序返回需要释放的推送记录
+   */
+  public getStreamEntries(): JournalCall[] {
+    return [...this.streams];
+  }
+
+  /**
+   * 释放一条推送记录：交给对应的等待中调用，调用尚未发起时在发起后立即返回
+   */
+  public release(entry: JournalCall): void {
+    const waiter = this.streamWaiters.get(entry);
+    if (waiter) {
+      this.streamWaiters.delete(entry);
+      this.settle(entry, waiter);
+    } else {
+      this.released.add(entry);
+    }
+  }
+
+  /**
+   * 结束回放：剩余未发生的写操作记为 missing
+   */
+  public finish(): ReplayDiff[] {
+    for (const [method, queue] of this.writes) {
+      for (const call of queue) {
+        this.diffs.push({
+          kind: "missing",
+          method,
+          ts: call.ts,
+          expected: call.args,
+        });
+      }
+      queue.length = 0;
+    }
+    return this.diffs;
+  }
+
+  public getDiffs(): ReplayDiff[] {
+    return this.diffs;
+  }
+
+  private async handleCall(method: string, args: any[]): Promise<any> {
+    this.callCount++;
+
+    if (method === "loadMarkets") {
+      return this.markets;
+    }
+
+    if (STREAM_METHODS.includes(method)) {
+      const key = this.getCallKey(method, args);
+      const index = this.streamInvocations.get(key) || 0;
+      this.streamInvocations.set(key, index + 1);
+      const entry = this.streamCalls.get(key)?.[index];
+      // 超出记录范围的订阅永远挂起，与会话结束时的状态一致
+      return new Promise((resolve, reject) => {
+        if (!entry) return;
+        if (this.released.delete(entry)) {
+          this.settle(entry, { resolve, reject });
+        } else {
+          this.streamWaiters.set(entry, { resolve, reject });
+        }
+      });
+    }
+
+    if (isWriteMethod(method)) {
+      return this.handleWrite(method, args);
+    }
+
+    const key = this.getCallKey(method, args);
+    const recorded = this.takeRead(key) || this.lastReads.get(key);
+    if (!recorded) {
+      throw new Error(`[Replay] 日志中没有 ${method} 的响应记录`);
+    }
+    this.lastReads.set(key, recorded);
+    return this.unwrap(recorded);
+  }
+
+  private handleWrite(method: string, args: any[]): any {
+    const queue = this.writes.get(method) || [];
+    if (queue.length === 0) {
+      this.diffs.push({ kind: "unexpected", method, ts: this.now(), actual: args });
+      return this.synthesize(method, args);
+    }
+
+    // 多个策略并发下单时调用顺序可能交错，在前几条记录中查找参数一致的写操作
+    const actualNorm = JSON.stringify(normalize(args));
+    const window = Math.min(queue.length, WRITE_MATCH_WINDOW);
+    let index = 0;
+    for (let i = 0; i < window; i++) {
+      if (JSON.stringify(normalize(queue[i].args)) === actualNorm) {
+        index = i;
+        break;
+      }
+    }
+    const [expected] = queue.splice(index, 1);
+
+    if (JSON.stringify(normalize(expected.args)) !== actualNorm) {
+      this.diffs.push({
+        kind: "mismatch",
+        method,
+        ts: this.now(),
+        expected: expected.args,
+        actual: args,
+      });
+    }
+    return this.unwrap(expected);
+  }
+
+  /**
+   * 取出当前时间之后发起的第一条读记录，之前的记录已过时直接丢弃
+   * 回放时引擎只在推送释放后才运行，这样读到的是与记录时刻最接近的快照
+   */
+  private takeRead(key: string): JournalCall | undefined {
+    const queue = this.reads.get(key);
+    if (!queue || queue.length === 0) return undefined;
+    const now = this.now();
+    const index = queue.findIndex(call => call.startTs >= now);
+    if (index === -1) {
+      return queue.splice(0, queue.length).pop();
+    }
+    return queue.splice(0, index + 1).pop();
+  }
+
+  /**
+   * 为日志中不存在的写操作生成占位响应，保证引擎可以继续运行
+   */
+  private synthesize(method: string, args: any[]): any {
+    const fakeOrder = (request: any) => ({
+      id: `replay-${++this.syntheticSeq}`,
+      clientOrderId: request?.params?.clientOrderId,
+      symbol: request?.symbol,
+      type: request?.type,
+      side: request?.side,
+      amount: request?.amount,
+      price: request?.price,
+      filled: 0,
+      status: "open",
+      info: { ...(request?.params || {}) },
+    });
+    if (method === "createOrders") {
+      return (args[0] || []).map(fakeOrder);
+    }
+    if (method === "createOrder") {
+      const [symbol, type, side, amount, price, params] = args;
+      return fakeOrder({ symbol, type, side, amount, price, params });
+    }
+    return {};
+  }
+
+  private settle(entry: JournalCall, waiter: StreamWaiter): void {
+    if (entry.error) {
+      waiter.reject(this.toError(entry));
+    } else {
+      waiter.resolve(clone(entry.result));
+    }
+  }
+
+  private unwrap(entry: JournalCall): any {
+    if (entry.error) {
+      throw this.toError(entry);
+    }
+    return clone(entry.result);
+  }
+
+  private toError(entry: JournalCall): Error {
+    const error = new Error(entry.error!.message);
+    error.name = entry.error!.name;
+    return error;
+  }
+
+  /**
+   * 调用匹配键：方法名 + 首个参数 (交易对)，时间类参数不参与匹配
+   */
+  private getCallKey(method: string, args: any[]): string {
+    return `${method}|${JSON.stringify(args[0] ?? null)}`;
+  }
+
+  private pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(value);
+  }
+}
+
+function clone(value: any): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 归一化写操作参数用于比对：数值保留 8 位小数，对象按键排序，数组按内容排序
+ * (网格 clientOrderId 的代次随网格状态一起还原，按原值比对)
+ */
+function normalize(value: any): any {
+  if (typeof value === "number") {
+    return Number(value.toFixed(8));
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map(normalize)
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) result[key] = normalize(value[key]);
+    }
+    return result;
+  }
+  return value;
+}
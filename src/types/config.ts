@@ -1,3 +1,4 @@
+import { MarginMode } from "./exchange";
 import { GridConfig } from "./grid";
 
 export interface ExchangeConfig {
@@ -20,19 +21,81 @@ export interface MonitorConfig {
   interval_seconds: number;
 }
 
+export interface PaperConfig {
+  initial_balance: number; // 初始 USDT 余额
+  maker_fee: number; // Maker 手续费率 (例如 0.0002)
+  taker_fee: number; // Taker 手续费率 (例如 0.0006)
+  tick_size: number; // 价格最小跳动单位
+  amount_step: number; // 数量最小步长
+  feed: "random_walk" | "replay" | "manual"; // 价格源：随机游走、CSV 回放 或 外部驱动 (回测)
+  fill_model?: "touch" | "through"; // 成交模型：触价成交 或 穿价成交
+  tick_interval_ms: number; // 价格推送间隔 (毫秒)
+  volatility: number; // 随机游走每步波动率 (标准差，比例)
+  start_prices?: Record<string, number>; // 各交易对起始价格 (默认取策略区间中点)
+  replay_files?: Record<string, string>; // 各交易对回放 CSV 路径 (需包含 price 或 close 列)
+}
+
+export interface RecorderConfig {
+  enable: boolean; // 是否记录交易所会话 (WebSocket 推送与 REST 响应)
+  dir: string; // 会话日志目录
+}
+
+export interface ControlConfig {
+  enable: boolean; // 是否启动 HTTP 控制接口 (建仓审批等)
+  host?: string; // 监听地址 (默认 127.0.0.1，设置 CONTROL_TOKEN 环境变量后才建议对外监听)
+  port: number;
+}
+
+export interface RiskConfig {
+  enable: boolean; // 是否启用账户级风控 (触发后停止所有策略，需通过控制接口重置)
+  check_interval_seconds?: number; // 权益检查间隔 (秒，默认 10)
+  max_drawdown_percent?: number; // 权益相对峰值的最大回撤 (百分比)
+  max_daily_loss?: number; // 当日最大亏损 (USDT，相对当日首次记录的权益)
+  max_margin_ratio?: number; // 最大保证金率 (比例，取各持仓中最高的保证金率)
+  flatten?: boolean; // 触发时是否对所有策略的交易对执行闪电平仓 (默认 false)
+}
+
+// 建仓价值超过自动批准阈值时的处理：auto 直接建仓、reject 拒绝启动、approval 等待控制接口审批
+export type InitialPositionPolicy = "auto" | "reject" | "approval";
+// 建仓方式：market 一次市价、limit Post Only 限价阶梯、twap 分批市价
+export type InitialPositionEntry = "market" | "limit" | "twap";
+
 export interface DefaultGridConfig {
   leverage: number;
+  margin_mode?: MarginMode; // 保证金模式 cross 全仓 / isolated 逐仓 (不设置则保持交易所当前模式)
   order_window: number; // 挂单窗口大小 (上下各挂几单)
   follow_market_on_fill: boolean; // 成交后是否以最新市价重新定位锚点
-  cancel_all_on_stop: boolean; // 关闭程序时是否取消所有挂单
+  cancel_all_on_stop: boolean; // 关闭程序时是否取消本程序的网格挂单
   close_all_on_stop: boolean; // 关闭程序时是否平掉所有仓位
-  auto_initial_position?: boolean; // 是否自动计算并市价建仓
+  auto_initial_position?: boolean; // 是否自动计算并建立底仓
+  initial_position_policy?: InitialPositionPolicy; // 超过自动批准阈值时的处理 (默认 reject)
+  initial_position_max_value?: number; // 自动批准阈值 (USDT，默认 权益*杠杆/2)
+  initial_position_entry?: InitialPositionEntry; // 建仓方式 (默认 market)
+  initial_position_slices?: number; // limit / twap 拆分的份数 (默认 5)
+  initial_position_interval_seconds?: number; // twap 每份间隔、limit 等待成交的时间 (默认 60)
+  initial_position_max_slippage?: number; // 相对建仓开始时价格的最大偏离 (比例，默认 0.005)
+  reconcile_interval_seconds?: number; // REST 成交对账间隔 (秒，默认 60，0 关闭定时对账)
+  anchor_reset_steps?: number; // 价格偏离锚点超过多少格间距时积极重置锚点 (默认 2)
+  max_total_notional?: number; // 所有策略持仓名义价值总和的上限 (USDT)，达到后暂停所有策略的开仓挂单
+  funding_check_interval_seconds?: number; // 资金费率查询间隔 (秒，默认 300，所有策略共用)
+  funding_shrink_rate?: number; // 对持仓方向不利的资金费率达到该值 (比例，例如 0.0005) 时缩小开仓挂单窗口
+  funding_shrink_window?: number; // 资金费率不利时保留的开仓挂单格数 (默认 1)
+  funding_pause_rate?: number; // 对持仓方向不利的资金费率达到该值时暂停开仓
+  position_check_interval_seconds?: number; // 强平保护的持仓检查间隔 (秒，默认 10)
+  liquidation_guard_distance?: number; // 标记价格距强平价小于该比例时触发强平保护 (例如 0.1)
+  liquidation_guard_margin_ratio?: number; // 持仓保证金率达到该值时触发强平保护 (比例)
+  liquidation_guard_open_window?: number; // 强平保护时该持仓方向保留的开仓挂单格数 (默认 0 暂停开仓)
+  liquidation_guard_add_margin?: number; // 触发强平保护时追加的保证金 (USDT，仅逐仓)
 }
 
 export interface AppConfig {
-  mode: "real" | "simulation";
+  mode: "real" | "simulation" | "paper";
   logger: LoggerConfig;
   monitor?: MonitorConfig;
+  paper?: Partial<PaperConfig>;
+  recorder?: RecorderConfig;
+  control?: ControlConfig;
+  risk?: RiskConfig;
   default: DefaultGridConfig;
   exchanges: ExchangeConfig[];
   strategies: GridConfig[];
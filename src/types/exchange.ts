@@ -0,0 +1,164 @@
+import { ExchangeConfig } from "./config";
+
+/**
+ * 持仓方向 (双向持仓模式下的 long / short 仓位)
+ */
+export type PositionSide = "long" | "short";
+
+/**
+ * 开平仓动作
+ */
+export type OrderAction = "open" | "close";
+
+/**
+ * 保证金模式 (cross 全仓 / isolated 逐仓)
+ */
+export type MarginMode = "cross" | "isolated";
+
+/**
+ * 交易对的保证金模式与多空杠杆 (与 ccxt fetchLeverage 返回结构一致，未设置的字段为 undefined)
+ */
+export interface LeverageSettings {
+  marginMode?: MarginMode;
+  longLeverage?: number;
+  shortLeverage?: number;
+}
+
+/**
+ * 统一的下单请求 (与 ccxt createOrders 的单条请求结构一致)
+ */
+export interface OrderRequest {
+  symbol: string;
+  type: "limit" | "market";
+  side: "buy" | "sell";
+  amount: number;
+  price?: number;
+  params: Record<string, any>;
+}
+
+/**
+ * 归一化后的交易所错误码
+ * - NO_POSITION: 平仓时无可平仓位
+ * - POST_ONLY_REJECTED: Post Only 挂单因会立即成交而被拒绝
+ * - DUPLICATE_CLIENT_ORDER_ID: clientOrderId 重复 (同一订单已创建)
+ * - TIMEOUT: 请求超时，订单是否已创建未知
+ */
+export type NormalizedErrorCode =
+  | "NO_POSITION"
+  | "POST_ONLY_REJECTED"
+  | "DUPLICATE_CLIENT_ORDER_ID"
+  | "TIMEOUT";
+
+/**
+ * 交易所适配器接口
+ * 封装各交易所在双向持仓模式下的差异，使 BotEngine / OrderExecutor 不包含任何交易所专有逻辑
+ */
+export interface ExchangeAdapter {
+  /** 适配器名称，对应 [[exchanges]] 中的 name */
+  readonly name: string;
+  /** 是否需要 API Passphrase */
+  readonly requiresPassword: boolean;
+
+  /**
+   * 创建 CCXT Pro 客户端实例
+   */
+  createClient(config: ExchangeConfig): any;
+
+  /**
+   * 设置双向持仓模式 (Hedge Mode)，已是该模式时不应抛出异常
+   */
+  setHedgeMode(client: any): Promise<void>;
+
+  /**
+   * 设置指定持仓方向的杠杆 (不区分多空杠杆的交易所对整个交易对生效)
+   */
+  setLeverage(
+    client: any,
+    symbol: string,
+    leverage: number,
+    positionSide: PositionSide
+  ): Promise<void>;
+
+  /**
+   * 为指定持仓方向追加保证金 (逐仓)
+   */
+  addMargin(
+    client: any,
+    symbol: string,
+    positionSide: PositionSide,
+    amount: number
+  ): Promise<void>;
+
+  /**
+   * 构建限价/市价单请求
+   * @param positionSide 操作的持仓方向
+   * @param action 开仓或平仓
+   * @param postOnly 是否强制 Maker
+   * @param clientOrderId 自定义订单 ID (CCXT 统一参数 clientOrderId)
+   */
+  buildOrderRequest(
+    symbol: string,
+    type: "limit" | "market",
+    positionSide: PositionSide,
+    action: OrderAction,
+    amount: number,
+    price: number | undefined,
+    postOnly: boolean,
+    clientOrderId?: string
+  ): OrderRequest;
+
+  /**
+   * 从交易所订单中解析持仓方向
+   */
+  getOrderPositionSide(order: any): PositionSide;
+
+  /**
+   * 从交易所订单中解析开平仓动作
+   */
+  getOrderAction(order: any): OrderAction;
+
+  /**
+   * 批量创建订单
+   */
+  createOrders(client: any, requests: OrderRequest[]): Promise<any[]>;
+
+  /**
+   * 批量撤销订单
+   */
+  cancelOrders(client: any, ids: string[], symbol: string): Promise<void>;
+
+  /**
+   * 闪电平仓：立即平掉指定交易对所有方向的仓位
+   */
+  flashClosePositions(client: any, symbol: string): Promise<void>;
+
+  /**
+   * 将交易所原始错误归一化为统一错误码，无法识别时返回 null
+   */
+  normalizeError(error: any): NormalizedErrorCode | null;
+}
+
+/**
+ * 交易所连接
+ * BotEngine / OrderExecutor / EquityMonitor 依赖的最小接口，由 ExchangeManager 实现，测试中可替换为假交易所
+ */
+export interface ExchangeConnection {
+  /** CCXT Pro 客户端 (或兼容的纸面/回放/假交易所客户端) */
+  client: any;
+  adapter: ExchangeAdapter;
+
+  /**
+   * 初始化连接 (加载市场、设置双向持仓、验证余额)
+   */
+  initConnection(): Promise<void>;
+
+  /**
+   * 获取价格最小跳动单位
+   */
+  getTickSize(symbol: string): number;
+
+  /**
+   * 获取下单数量最小步长
+   */
+  getAmountStep(symbol: string): number;
+}
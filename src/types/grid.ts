@@ -1,19 +1,134 @@
+import { InitialPositionEntry, InitialPositionPolicy } from "./config";
+import { MarginMode, OrderAction, PositionSide } from "./exchange";
+
 export enum GridDirection {
   LONG = "LONG",
   SHORT = "SHORT",
+  NEUTRAL = "NEUTRAL", // 中性：基准线下方开多、上方开空
+}
+
+export enum GridType {
+  GEOMETRIC = "geometric", // 等比网格：按百分比间距
+  ARITHMETIC = "arithmetic", // 等差网格：按固定价格间距
+}
+
+/**
+ * 每格下单数量模式
+ */
+export enum QuantityMode {
+  FIXED = "fixed", // 每格固定 quantityPerGrid
+  NOTIONAL = "notional", // 每格固定计价货币金额 (数量 = notionalPerGrid / 刻度价格)
+  LINEAR = "linear", // 越靠近区间边缘数量越大 (线性递增)
+  GEOMETRIC = "geometric", // 越靠近区间边缘数量越大 (等比递增)
+  TABLE = "table", // 按刻度索引逐格指定
 }
 
 /**
  * 网格配置接口
  */
 export interface GridConfig {
+  id?: string; // 策略唯一标识 (默认 {symbol}_{direction})，用于网格文件、日志与订单策略标签
+  name?: string; // 显示名称 (默认同 id)
+  enable?: boolean; // 是否启用 (默认 true)
   symbol: string; // 交易对，例如 BTC/USDT:USDT
   direction: GridDirection; // 方向
-  leverage: number; // 杠杆
+  leverage?: number; // 杠杆 (默认取 default.leverage，启动时按交易对与持仓方向设置到交易所)
+  marginMode?: MarginMode; // 保证金模式 (默认取 default.margin_mode)
   upperPrice: number; // 网格上限
   lowerPrice: number; // 网格下限
-  gridSpread: number; // 网格间距百分比 (例如 0.01 代表 1%)
-  quantityPerGrid: number; // 每格下单数量
+  gridType?: GridType; // 网格类型 (默认 geometric)
+  gridSpread?: number; // 等比网格间距百分比 (例如 0.01 代表 1%)
+  priceStep?: number; // 等差网格固定价格间距 (与 gridCount 二选一)
+  gridCount?: number; // 等差网格格子数，上下限之间均分
+  quantityPerGrid: number; // 每格下单数量 (linear / geometric 模式下为区间中心的数量)
+  quantityMode?: QuantityMode; // 每格数量模式 (默认 fixed)
+  notionalPerGrid?: number; // notional 模式: 每格下单金额 (计价货币，例如 USDT)
+  pyramidStep?: number; // linear 模式: 每远离区间中心一格，数量增加 quantityPerGrid 的比例
+  pyramidRatio?: number; // geometric 模式: 每远离区间中心一格，数量乘以该倍数
+  quantityTable?: number[]; // table 模式: 第 i 个刻度的数量 (超出表长的刻度沿用最后一个)
+  trailingUp?: boolean; // 价格突破上限时网格整体上移
+  trailingDown?: boolean; // 价格跌破下限时网格整体下移
+  trailingUpLimit?: number; // 上移后的网格上限不超过该价格
+  trailingDownLimit?: number; // 下移后的网格下限不低于该价格
+  trailingInventory?: TrailingInventoryPolicy; // 被移出网格的刻度上的持仓处理方式 (默认 keep)
+  adaptiveSpread?: boolean; // 按波动率自动调整等比网格间距 (gridSpread 作为初始间距)
+  minSpread?: number; // 自适应间距下限
+  maxSpread?: number; // 自适应间距上限
+  volatilityTimeframe?: string; // 计算 ATR 的 K 线周期 (默认 1h，同时是重新评估的间隔)
+  volatilityPeriod?: number; // ATR 周期 (默认 14)
+  volatilityMultiplier?: number; // 间距 = ATR / 价格 * 系数 (默认 0.5)
+  spreadHysteresis?: number; // 新间距与当前间距的相对变化超过该比例才重建网格 (默认 0.2)
+  stopLossPrice?: number; // 止损价：LONG 跌破、SHORT 突破该价格时退出 (不支持 NEUTRAL)
+  maxLoss?: number; // 本策略持仓的最大浮亏 (USDT)
+  maxLossPercent?: number; // 本策略持仓的最大浮亏占持仓成本的百分比 (例如 5 代表 5%)
+  takeProfit?: number; // 本策略总盈亏 (已实现 + 浮动) 达到该值 (USDT) 时退出
+  exitAction?: ExitAction; // 止损 / 止盈触发后的处理 (默认 flatten)
+  rangeExit?: RangeExitAction; // 价格离开网格区间 (追踪已到限制) 后的处理 (默认 hold)
+  maxPosition?: number; // 本策略持仓数量上限 (多空合计)，达到后暂停开仓挂单
+  maxNotional?: number; // 本策略持仓名义价值上限 (USDT)
+  maxFilledLevels?: number; // 本策略有持仓的刻度数上限
+  // 以下字段覆盖 [default] 中的同名配置，未设置时使用默认值
+  orderWindow?: number; // 挂单窗口大小 (order_window)
+  followMarketOnFill?: boolean; // 成交后是否以最新市价重新定位锚点 (follow_market_on_fill)
+  autoInitialPosition?: boolean; // 是否自动计算并市价建仓 (auto_initial_position)
+  initialPositionPolicy?: InitialPositionPolicy; // 超过自动批准阈值时的处理 (initial_position_policy)
+  initialPositionMaxValue?: number; // 自动批准阈值 (initial_position_max_value)
+  initialPositionEntry?: InitialPositionEntry; // 建仓方式 (initial_position_entry)
+  initialPositionSlices?: number; // 建仓拆分份数 (initial_position_slices)
+  initialPositionIntervalSeconds?: number; // 建仓间隔 (initial_position_interval_seconds)
+  initialPositionMaxSlippage?: number; // 建仓最大偏离 (initial_position_max_slippage)
+  cancelAllOnStop?: boolean; // 关闭程序时是否取消本策略的网格挂单 (cancel_all_on_stop)
+  closeAllOnStop?: boolean; // 关闭程序时是否平掉本策略的仓位 (close_all_on_stop)
+  anchorResetSteps?: number; // 积极重置锚点的偏离格数 (anchor_reset_steps)
+  liquidationGuardDistance?: number; // 强平保护的价格距离 (liquidation_guard_distance)
+  liquidationGuardMarginRatio?: number; // 强平保护的保证金率 (liquidation_guard_margin_ratio)
+  liquidationGuardOpenWindow?: number; // 强平保护时的开仓挂单格数 (liquidation_guard_open_window)
+  liquidationGuardAddMargin?: number; // 强平保护时追加的保证金 (liquidation_guard_add_margin)
+  fundingShrinkRate?: number; // 缩小开仓挂单窗口的不利资金费率 (funding_shrink_rate)
+  fundingShrinkWindow?: number; // 资金费率不利时的开仓挂单格数 (funding_shrink_window)
+  fundingPauseRate?: number; // 暂停开仓的不利资金费率 (funding_pause_rate)
+}
+
+/**
+ * 订单执行器识别策略所需的字段 (策略标签由策略唯一标识计算)
+ */
+export type StrategyRef = Pick<GridConfig, "id" | "symbol" | "direction">;
+
+/**
+ * 网格平移时被移出刻度上的持仓处理方式
+ * - close: 市价平掉
+ * - keep: 保留仓位，不再由网格管理
+ */
+export type TrailingInventoryPolicy = "close" | "keep";
+
+/**
+ * 策略退出方式
+ * - flatten: 撤销本策略挂单并市价平掉本策略的持仓
+ * - pause: 撤销本策略挂单，保留持仓
+ * 两者都会持久化停止状态，重启后不恢复交易
+ */
+export type ExitAction = "flatten" | "pause";
+
+/**
+ * 价格离开网格区间后的处理 (hold: 保留持仓，价格回到区间后继续交易)
+ */
+export type RangeExitAction = "hold" | ExitAction;
+
+/**
+ * 本策略的持仓账本 (按成交价计算开仓成本，用于止损止盈)
+ */
+export interface PositionLedger {
+  amount: number; // 持仓数量
+  cost: number; // 持仓成本 (USDT)
+}
+
+/**
+ * 策略停止状态 (止损、止盈或离开区间后不再交易，需人工恢复)
+ */
+export interface HaltState {
+  reason: string;
+  action: ExitAction;
+  time: number;
 }
 
 /**
@@ -24,4 +139,60 @@ export interface GridLevel {
   price: number; // 价格刻度
   buyOrderId: string; // 当前在该价格挂的买单 ID (空字符串表示无)
   sellOrderId: string; // 当前在该价格挂的卖单 ID (空字符串表示无)
+  filledAmount: number; // 该刻度开仓已成交、尚未被对应平仓单平掉的数量
+}
+
+/**
+ * 策略运行状态 (随网格文件持久化，重启后恢复)
+ */
+export interface StrategyState {
+  anchorIndex: number | null; // 当前锚点索引 (null 表示尚未定位)
+  closeDisabled: boolean; // 是否因无仓位暂时禁用平仓挂单
+  lastAnchorResetTime: number; // 上次积极重置锚点的时间戳
+  orderFills: Record<string, number>; // 订单 ID -> 已记录的累计成交量
+  baselineIndex: number | null; // 中性网格的基准刻度 (启动价格所在刻度，该处持仓为零)
+  levelShift: number; // 追踪模式下网格累计平移的格数 (正数上移，负数下移)
+  positions: Partial<Record<PositionSide, PositionLedger>>; // 本策略的持仓账本
+  realizedPnl: number; // 已实现盈亏 (USDT，不含手续费与资金费用)
+  fundingPnl: number; // 累计资金费用 (USDT，正数为收入)
+  lastFundingTime: number | null; // 已记录资金费用的最近一期结算时间 (null 表示尚未开始记录)
+  halted: HaltState | null; // 停止状态 (null 表示正常交易)
+}
+
+/**
+ * 生成网格刻度时的参数快照，用于判断配置是否变更
+ * 由旧版文件迁移而来、无法得知的字段为 null
+ */
+export interface GridStateMeta {
+  symbol: string | null;
+  direction: GridDirection | null;
+  upperPrice: number | null;
+  lowerPrice: number | null;
+  gridSpread: number | null;
+  spreadType: string | null; // 网格类型 (geometric: 等比, arithmetic: 等差)
+  priceStep: number | null;
+  gridCount: number | null;
+  quantityPerGrid: number | null;
+  tickSize: number | null;
+}
+
+/**
+ * 网格状态文件 (带版本号的 JSON)
+ */
+export interface GridStateFile {
+  version: number;
+  meta: GridStateMeta;
+  levels: GridLevel[];
+  state: StrategyState;
+}
+
+/**
+ * 目标挂单 (由锚点窗口计算得出)
+ */
+export interface GridOrderTarget {
+  levelIndex: number; // 对应的网格刻度索引
+  price: number;
+  amount: number;
+  action: OrderAction;
+  positionSide?: PositionSide; // 持仓方向 (未指定时由策略方向决定，中性网格必填)
 }
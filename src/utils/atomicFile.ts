@@ -0,0 +1,17 @@
+import * as fs from "fs";
+
+/**
+ * 原子写文件：先写入同目录临时文件并刷盘，再 rename 覆盖目标文件
+ * 进程在写入过程中崩溃时，目标文件保持旧内容而不会被截断
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmpPath, "w");
+  try {
+    fs.writeSync(fd, content, null, "utf8");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,92 @@
+/**
+ * 时钟抽象：实盘使用系统时间，回测/回放使用可手动推进的模拟时间
+ */
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * 系统时钟
+ */
+export class SystemClock implements Clock {
+  public now(): number {
+    return Date.now();
+  }
+
+  public sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * 模拟时钟：时间只在调用 advanceTo 时前进，sleep 在模拟时间到达后才返回
+ */
+export class SimulatedClock implements Clock {
+  private current: number;
+  private sleepers: { wakeAt: number; resolve: () => void }[] = [];
+
+  constructor(startTime: number = 0) {
+    this.current = startTime;
+  }
+
+  public now(): number {
+    return this.current;
+  }
+
+  public sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.sleepers.push({ wakeAt: this.current + ms, resolve });
+    });
+  }
+
+  /**
+   * 推进模拟时间并唤醒到期的 sleep
+   */
+  public advanceTo(time: number): void {
+    if (time < this.current) return;
+    this.current = time;
+
+    const due = this.sleepers.filter(s => s.wakeAt <= time);
+    this.sleepers = this.sleepers.filter(s => s.wakeAt > time);
+    for (const sleeper of due) {
+      sleeper.resolve();
+    }
+  }
+}
+
+/**
+ * 等待事件循环空闲：连续多轮 setImmediate 内计数器没有变化即视为空闲
+ * 用于回测/回放时判断引擎是否已处理完当前事件
+ * @param counter 返回当前交易所调用次数
+ */
+export async function waitForIdle(counter: () => number): Promise<void> {
+  let idleRounds = 0;
+  while (idleRounds < 3) {
+    const before = counter();
+    await new Promise(resolve => setImmediate(resolve));
+    idleRounds = counter() === before ? idleRounds + 1 : 0;
+  }
+}
+
+/**
+ * 全局时钟入口，默认使用系统时间
+ */
+class GlobalClock implements Clock {
+  private source: Clock = new SystemClock();
+
+  public use(source: Clock): void {
+    this.source = source;
+  }
+
+  public now(): number {
+    return this.source.now();
+  }
+
+  public sleep(ms: number): Promise<void> {
+    return this.source.sleep(ms);
+  }
+}
+
+// 导出单例，与 logger 一样全局使用
+export const clock = new GlobalClock();
@@ -0,0 +1,72 @@
+import * as fs from "fs";
+import { ChartJSNodeCanvas } from "chartjs-node-canvas";
+import { ChartConfiguration } from "chart.js";
+
+/**
+ * 权益曲线绘图工具 (EquityMonitor 与回测报告共用)
+ */
+export class EquityChartRenderer {
+  private chartService: ChartJSNodeCanvas;
+
+  constructor() {
+    // 初始化 ChartJS
+    // 宽 800px, 高 400px
+    this.chartService = new ChartJSNodeCanvas({
+      width: 800,
+      height: 400,
+      backgroundColour: "white",
+    });
+  }
+
+  /**
+   * 渲染折线图并写入 PNG 文件
+   */
+  public async render(
+    labels: string[],
+    dataPoints: number[],
+    imagePath: string,
+    title: string = "Account Equity History"
+  ): Promise<void> {
+    if (dataPoints.length === 0) return;
+
+    // 配置图表
+    const configuration: ChartConfiguration = {
+      type: "line",
+      data: {
+        labels: labels,
+        datasets: [
+          {
+            label: "USDT Equity",
+            data: dataPoints,
+            borderColor: "rgb(75, 192, 192)",
+            backgroundColor: "rgba(75, 192, 192, 0.2)",
+            tension: 0.1,
+            fill: true,
+          },
+        ],
+      },
+      options: {
+        plugins: {
+          title: {
+            display: true,
+            text: title,
+          },
+          legend: {
+            display: true,
+          },
+        },
+        scales: {
+          y: {
+            beginAtZero: false, // 权益曲线通常不需要从0开始，这样更能看清波动
+          },
+        },
+      },
+    };
+
+    // 生成 Buffer
+    const imageBuffer = await this.chartService.renderToBuffer(configuration);
+
+    // 写入文件
+    fs.writeFileSync(imagePath, imageBuffer);
+  }
+}
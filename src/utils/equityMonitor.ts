@@ -2,21 +2,30 @@ import * as fs from "fs";
 import * as path from "path";
 import { ExchangeManager } from "../exchange/exchangeManager";
 import { ConfigLoader } from "../config/configLoader";
-import { logger } from "./logger";
+import { Logger, logger } from "./logger";
 import dayjs from "dayjs";
-import { ChartJSNodeCanvas } from "chartjs-node-canvas";
-import { ChartConfiguration } from "chart.js";
+import { EquityChartRenderer } from "./equityChart";
+import { AppConfig } from "../types/config";
+import { ExchangeConnection } from "../types/exchange";
 
 export class EquityMonitor {
-  private exchange: ExchangeManager;
+  private exchange: ExchangeConnection;
+  private config: AppConfig;
+  private logger: Logger;
   private dataDir: string;
   private outputDir: string;
   private csvPath: string;
   private imagePath: string;
-  private chartService: ChartJSNodeCanvas;
+  private chartRenderer: EquityChartRenderer;
 
-  constructor() {
-    this.exchange = ExchangeManager.getInstance();
+  constructor(
+    exchange: ExchangeConnection = ExchangeManager.getInstance(),
+    config: AppConfig = ConfigLoader.getInstance().getConfig(),
+    log: Logger = logger
+  ) {
+    this.exchange = exchange;
+    this.config = config;
+    this.logger = log;
 
     // 初始化路径
     this.dataDir = path.join(process.cwd(), "data");
@@ -32,13 +41,7 @@ export class EquityMonitor {
       fs.mkdirSync(this.outputDir, { recursive: true });
     }
 
-    // 初始化 ChartJS
-    // 宽 800px, 高 400px
-    this.chartService = new ChartJSNodeCanvas({
-      width: 800,
-      height: 400,
-      backgroundColour: "white",
-    });
+    this.chartRenderer = new EquityChartRenderer();
   }
 
   /**
@@ -47,24 +50,23 @@ export class EquityMonitor {
    * 2. 开启定时任务
    */
   public start() {
-    const config = ConfigLoader.getInstance().getConfig();
     // 默认为 3600 秒
-    const intervalSeconds = config.monitor?.interval_seconds || 3600;
+    const intervalSeconds = this.config.monitor?.interval_seconds || 3600;
     const intervalMs = intervalSeconds * 1000;
 
-    logger.info(
+    this.logger.info(
       `[EquityMonitor] 启动权益监控服务，执行间隔: ${intervalSeconds} 秒`
     );
 
     // 立即执行一次
     this.recordAndPlot().catch(err => {
-      logger.error(`[EquityMonitor] 首次记录失败: ${err.message}`);
+      this.logger.error(`[EquityMonitor] 首次记录失败: ${err.message}`);
     });
 
     // 定时执行
     setInterval(() => {
       this.recordAndPlot().catch(err => {
-        logger.error(`[EquityMonitor] 定时记录失败: ${err.message}`);
+        this.logger.error(`[EquityMonitor] 定时记录失败: ${err.message}`);
       });
     }, intervalMs);
   }
@@ -86,9 +88,9 @@ export class EquityMonitor {
       // 3. 读取 CSV 并生成图表
       await this.generateChart();
 
-      logger.info(`[EquityMonitor] 记录权益成功: ${usdtEquity} USDT`);
+      this.logger.info(`[EquityMonitor] 记录权益成功: ${usdtEquity} USDT`);
     } catch (error: any) {
-      logger.error(`[EquityMonitor] 执行出错: ${error.message}`);
+      this.logger.error(`[EquityMonitor] 执行出错: ${error.message}`);
     }
   }
 
@@ -130,46 +132,6 @@ export class EquityMonitor {
       }
     }
 
-    if (dataPoints.length === 0) return;
-
-    // 配置图表
-    const configuration: ChartConfiguration = {
-      type: "line",
-      data: {
-        labels: labels,
-        datasets: [
-          {
-            label: "USDT Equity",
-            data: dataPoints,
-            borderColor: "rgb(75, 192, 192)",
-            backgroundColor: "rgba(75, 192, 192, 0.2)",
-            tension: 0.1,
-            fill: true,
-          },
-        ],
-      },
-      options: {
-        plugins: {
-          title: {
-            display: true,
-            text: "Account Equity History",
-          },
-          legend: {
-            display: true,
-          },
-        },
-        scales: {
-          y: {
-            beginAtZero: false, // 权益曲线通常不需要从0开始，这样更能看清波动
-          },
-        },
-      },
-    };
-
-    // 生成 Buffer
-    const imageBuffer = await this.chartService.renderToBuffer(configuration);
-
-    // 写入文件
-    fs.writeFileSync(this.imagePath, imageBuffer);
+    await this.chartRenderer.render(labels, dataPoints, this.imagePath);
   }
 }
@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BacktestRunner } from "../src/backtest/backtestRunner";
+import { loadPriceTicks } from "../src/backtest/dataLoader";
+
+const SYMBOL = "SOL/USDT:USDT";
+
+function writeTemp(dir: string, name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content, "utf8");
+  return file;
+}
+
+test("OHLCV 数据按 K 线方向展开为 4 个价格点，秒级时间戳转为毫秒", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "backtest-test-"));
+  const file = writeTemp(
+    dir,
+    "ohlcv.csv",
+    [
+      "timestamp,open,high,low,close,volume",
+      "1700000000,100,103,99,102,10",
+      "# 注释行与空行会被忽略",
+      "",
+      "1700000060,102,104,98,99,12",
+    ].join("\n")
+  );
+
+  const { format, ticks } = loadPriceTicks(file);
+
+  assert.equal(format, "ohlcv");
+  // 阳线 O-L-H-C，阴线 O-H-L-C
+  assert.deepEqual(
+    ticks.map(t => t.price),
+    [100, 99, 103, 102, 102, 104, 98, 99]
+  );
+  assert.deepEqual(
+    ticks.slice(0, 5).map(t => t.timestamp - 1700000000000),
+    [0, 15000, 30000, 45000, 60000]
+  );
+});
+
+test("逐笔成交数据解析 ISO 时间，缺少必要列时报错", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "backtest-test-"));
+  const trades = writeTemp(
+    dir,
+    "trades.csv",
+    "time,price,amount\n2024-01-01T00:00:00Z,100.5,1\n2024-01-01T00:00:01Z,100.6,2"
+  );
+
+  const { format, ticks } = loadPriceTicks(trades);
+  assert.equal(format, "trades");
+  assert.deepEqual(ticks, [
+    { timestamp: Date.parse("2024-01-01T00:00:00Z"), price: 100.5 },
+    { timestamp: Date.parse("2024-01-01T00:00:01Z"), price: 100.6 },
+  ]);
+
+  const broken = writeTemp(dir, "broken.csv", "timestamp,open,close\n1,2,3");
+  assert.throws(() => loadPriceTicks(broken), /open\/high\/low\/close/);
+});
+
+test("回测逐点推送价格驱动引擎，汇总成交、盈亏与权益", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "backtest-test-"));
+  const configPath = writeTemp(
+    dir,
+    "config.toml",
+    `
+mode = "paper"
+
+[logger]
+console = false
+file = false
+
+[paper]
+initial_balance = 10000
+
+[default]
+auto_initial_position = false
+cancel_all_on_stop = true
+close_all_on_stop = false
+follow_market_on_fill = true
+leverage = 10
+order_window = 3
+
+[[exchanges]]
+enable = true
+name = "bitget"
+
+[[strategies]]
+direction = "LONG"
+gridSpread = 0.01
+leverage = 10
+lowerPrice = 90
+quantityPerGrid = 1
+symbol = "${SYMBOL}"
+upperPrice = 110
+`
+  );
+  // 价格在 100 附近来回波动，触发开仓与平仓
+  const prices = [100, 98.5, 97.5, 99.5, 101.5, 98.5, 100.5, 102];
+  const dataFile = writeTemp(
+    dir,
+    "trades.csv",
+    [
+      "timestamp,price",
+      ...prices.map((p, i) => `${1700000000000 + i * 60000},${p}`),
+    ].join("\n")
+  );
+  const outputDir = path.join(dir, "out");
+
+  const report = await new BacktestRunner({
+    dataFile,
+    configPath,
+    outputDir,
+  }).run();
+
+  assert.equal(report.symbol, SYMBOL);
+  assert.equal(report.ticks, prices.length);
+  assert.ok(report.openFills > 0);
+  assert.ok(report.closeFills > 0);
+  assert.equal(report.fills, report.openFills + report.closeFills);
+  assert.ok(report.fees > 0);
+  assert.ok(
+    Math.abs(
+      report.netPnl - (report.realizedPnl + report.unrealizedPnl - report.fees)
+    ) < 1e-9
+  );
+  assert.ok(
+    Math.abs(report.endEquity - report.startEquity - report.netPnl) < 1e-6
+  );
+
+  const saved = JSON.parse(
+    fs.readFileSync(path.join(outputDir, "report.json"), "utf8")
+  );
+  assert.deepEqual(saved, report);
+  const fills = fs
+    .readFileSync(path.join(outputDir, "fills.csv"), "utf8")
+    .split("\n");
+  assert.equal(fills.length, report.fills + 1);
+  const equity = fs
+    .readFileSync(path.join(outputDir, "equity.csv"), "utf8")
+    .split("\n");
+  assert.equal(equity.length, prices.length + 1);
+});
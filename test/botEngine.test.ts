@@ -0,0 +1,1355 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildEntryClientOrderId,
+  getStrategyTag,
+  parseEntryClientOrderId,
+} from "../src/exchange/clientOrderId";
+import { BotEngine } from "../src/logic/botEngine";
+import { AppConfig, DefaultGridConfig } from "../src/types/config";
+import { OrderRequest } from "../src/types/exchange";
+import { GridConfig, GridDirection, QuantityMode } from "../src/types/grid";
+import { SimulatedClock, waitForIdle } from "../src/utils/clock";
+import { Logger } from "../src/utils/logger";
+import { FakeExchange } from "./fakes/fakeExchange";
+
+const SYMBOL = "SOL/USDT:USDT";
+
+// 等比网格 100 -> 110，间距 1%：
+// 0:100 1:101 2:102.01 3:103.03 4:104.06 5:105.1 6:106.15 ...
+const LONG_GRID: GridConfig = {
+  symbol: SYMBOL,
+  direction: GridDirection.LONG,
+  leverage: 10,
+  lowerPrice: 100,
+  upperPrice: 110,
+  gridSpread: 0.01,
+  quantityPerGrid: 1,
+};
+
+// 手动挂的限价单 (无 clientOrderId)
+const MANUAL_ORDER = {
+  symbol: SYMBOL,
+  type: "limit" as const,
+  side: "buy" as const,
+  amount: 1,
+  price: 90,
+  params: { positionSide: "long", tradeSide: "open" },
+};
+
+function createConfig(
+  defaults: Partial<DefaultGridConfig> = {},
+  strategies: GridConfig[] = [LONG_GRID]
+): AppConfig {
+  return {
+    mode: "paper",
+    logger: { level: "info", console: false, file: false, dir: "logs" },
+    default: {
+      leverage: 10,
+      order_window: 1,
+      follow_market_on_fill: true,
+      cancel_all_on_stop: true,
+      close_all_on_stop: false,
+      auto_initial_position: false,
+      ...defaults,
+    },
+    exchanges: [],
+    strategies,
+  };
+}
+
+function createStateDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "grid-test-"));
+}
+
+function createEngine(
+  fake: FakeExchange,
+  config: AppConfig,
+  options: { clock?: SimulatedClock; stateDir?: string } = {}
+): BotEngine {
+  return new BotEngine({
+    stateDir: options.stateDir || createStateDir(),
+    exchange: fake.connection(),
+    config,
+    logger: new Logger({ console: false, file: false }),
+    clock: options.clock || new SimulatedClock(0),
+  });
+}
+
+function settle(fake: FakeExchange): Promise<void> {
+  return waitForIdle(() => fake.calls.length);
+}
+
+function marketOrders(fake: FakeExchange): OrderRequest[] {
+  return fake
+    .callsOf("createOrders")
+    .flatMap(c => c.args[0] as OrderRequest[])
+    .filter(r => r.type === "market");
+}
+
+function openPrices(fake: FakeExchange, tradeSide: string): number[] {
+  return fake.openOrders
+    .filter(o => o.info.tradeSide === tradeSide)
+    .map(o => o.price)
+    .sort((a, b) => a - b);
+}
+
+test("无仓位时平仓单报 NO_POSITION，禁用平仓挂单后重试只挂开仓单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(fake, createConfig({ order_window: 2 }));
+
+  await engine.start();
+  await settle(fake);
+
+  // 第一次整批下单 (含平仓单) 被拒绝，第二次只包含开仓单
+  const creates = fake.callsOf("createOrders");
+  assert.equal(creates.length, 2);
+  assert.ok(creates[0].args[0].some((r: any) => r.params.tradeSide === "close"));
+  assert.ok(creates[1].args[0].every((r: any) => r.params.tradeSide === "open"));
+
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+  assert.deepEqual(openPrices(fake, "close"), []);
+});
+
+test("开仓成交后锚点不低于成交刻度，平仓单挂在成交价上方一格", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(fake, createConfig());
+
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+
+  // 价格下穿后 103.03 的开多单成交，最新价 102.2 最接近刻度 2 (102.01)
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+
+  // 锚点被保护在刻度 3，平仓单挂在 104.06 而不是 0 利润的 103.03
+  assert.deepEqual(openPrices(fake, "close"), [104.06]);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+});
+
+test("手动挂单成交不触发网格联动", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(fake, createConfig());
+  const manual = fake.addOpenOrder(MANUAL_ORDER);
+
+  await engine.start();
+  await settle(fake);
+  const callCount = fake.calls.length;
+
+  fake.fill(manual.id);
+  await settle(fake);
+
+  // 只有重新订阅 watchOrders，没有任何查询或下单
+  assert.deepEqual(
+    fake.calls.slice(callCount).map(c => c.method),
+    ["watchOrders"]
+  );
+});
+
+test("stop() 只撤销各策略自己的挂单，按交易对平仓一次", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const shortGrid = { ...LONG_GRID, direction: GridDirection.SHORT };
+  const engine = createEngine(
+    fake,
+    createConfig({ close_all_on_stop: true }, [LONG_GRID, shortGrid])
+  );
+  const manual = fake.addOpenOrder(MANUAL_ORDER);
+
+  await engine.start();
+  await settle(fake);
+  assert.ok(fake.openOrders.length > 1);
+
+  await engine.stop();
+
+  assert.equal(fake.callsOf("cancelAllOrders").length, 0);
+  assert.equal(fake.callsOf("cancelOrders").length, 2);
+  assert.deepEqual(
+    fake.callsOf("flashClosePositions").map(c => c.args),
+    [[SYMBOL]]
+  );
+  assert.deepEqual(
+    fake.openOrders.map(o => o.id),
+    [manual.id]
+  );
+});
+
+test("stop() 未开启清理时保留挂单与仓位", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({ cancel_all_on_stop: false, close_all_on_stop: false })
+  );
+
+  await engine.start();
+  await settle(fake);
+  const remaining = fake.openOrders.length;
+
+  await engine.stop();
+
+  assert.equal(fake.callsOf("cancelAllOrders").length, 0);
+  assert.equal(fake.callsOf("flashClosePositions").length, 0);
+  assert.equal(fake.openOrders.length, remaining);
+});
+
+test("WebSocket 断线期间漏推的成交在重连后通过 REST 对账补充处理", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(fake, createConfig(), { clock });
+
+  await engine.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+
+  fake.fill(fake.findOrder(103.03, "open").id, { silent: true });
+  fake.dropConnection();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "close"), []);
+
+  // 断线后等待 1 秒重新监听，监听前先对账
+  clock.advanceTo(1000);
+  await settle(fake);
+
+  assert.equal(fake.callsOf("fetchClosedOrders").length, 1);
+  assert.deepEqual(openPrices(fake, "close"), [104.06]);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+});
+
+test("定时对账补充处理未推送的成交", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig({ reconcile_interval_seconds: 30 }),
+    { clock }
+  );
+
+  await engine.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+
+  fake.time = 10000;
+  fake.fill(fake.findOrder(103.03, "open").id, { silent: true });
+  clock.advanceTo(30000);
+  await settle(fake);
+
+  assert.deepEqual(openPrices(fake, "close"), [104.06]);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+});
+
+test("WebSocket 已处理的成交不会被对账重复处理", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(fake, createConfig(), { clock });
+  const manual = fake.addOpenOrder(MANUAL_ORDER);
+
+  await engine.start();
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  fake.fill(manual.id, { silent: true });
+  await settle(fake);
+  const callCount = fake.calls.length;
+
+  clock.advanceTo(60000);
+  await settle(fake);
+
+  // 对账只查询已关闭订单，网格单已处理、手动单被忽略
+  assert.deepEqual(
+    fake.calls.slice(callCount).map(c => c.method),
+    ["fetchClosedOrders"]
+  );
+});
+
+test("部分成交后被撤销的开仓单，平仓单按实际成交量挂出", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(fake, createConfig());
+
+  await engine.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+
+  const order = fake.findOrder(103.03, "open");
+  fake.partialFill(order.id, 0.4);
+  await settle(fake);
+  // 部分成交只记录数量，不触发刷新
+  assert.equal(fake.findOrder(103.03, "open").id, order.id);
+
+  fake.cancelByExchange(order.id);
+  await settle(fake);
+
+  const close = fake.findOrder(104.06, "close");
+  assert.ok(close);
+  assert.equal(close.amount, 0.4);
+});
+
+test("锚点移动时保留部分成交的挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(fake, createConfig(), { clock });
+
+  await engine.start();
+  await settle(fake);
+  const partial = fake.findOrder(103.03, "open");
+  fake.partialFill(partial.id, 0.4);
+  await settle(fake);
+
+  // 冷却结束后价格上涨，锚点重置到刻度 7 (107.21)
+  clock.advanceTo(10000);
+  fake.setPrice(SYMBOL, 107.5);
+  await settle(fake);
+
+  assert.ok(fake.openOrders.some(o => o.id === partial.id));
+  assert.deepEqual(openPrices(fake, "open"), [103.03, 106.15]);
+});
+
+test("重启后沿用持久化的锚点，保留交易所上的网格挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const config = createConfig({ cancel_all_on_stop: false });
+  const first = createEngine(fake, config, { stateDir });
+
+  await first.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+  await first.stop();
+
+  // 价格回到 104.5，按行情重新定位会得到锚点 4，恢复后仍为 3
+  fake.setPrice(SYMBOL, 104.5);
+  const ordersBefore = fake.openOrders.map(o => o.id).sort();
+  const callCount = fake.calls.length;
+  const second = createEngine(fake, config, { stateDir });
+  await second.start();
+  await settle(fake);
+
+  const methods = fake.calls.slice(callCount).map(c => c.method);
+  assert.ok(!methods.includes("createOrders"));
+  assert.ok(!methods.includes("cancelOrders"));
+  assert.deepEqual(fake.openOrders.map(o => o.id).sort(), ordersBefore);
+});
+
+test("重启时处理停机期间成交的网格单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const config = createConfig({ cancel_all_on_stop: false });
+  const first = createEngine(fake, config, { stateDir });
+
+  await first.start();
+  await settle(fake);
+  await first.stop();
+
+  // 停机期间 103.03 的开多单成交
+  fake.setPrice(SYMBOL, 102.2);
+  fake.fill(fake.findOrder(103.03, "open").id, { silent: true });
+
+  const second = createEngine(fake, config, { stateDir });
+  await second.start();
+  await settle(fake);
+
+  assert.deepEqual(openPrices(fake, "close"), [104.06]);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+});
+
+test("网格配置变更且仍有挂单时拒绝启动", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const config = createConfig({ cancel_all_on_stop: false });
+  const first = createEngine(fake, config, { stateDir });
+  await first.start();
+  await settle(fake);
+  await first.stop();
+
+  const changed = { ...LONG_GRID, gridSpread: 0.02 };
+  const second = createEngine(fake, createConfig({}, [changed]), { stateDir });
+
+  await assert.rejects(second.start(), /gridSpread: 0.01 -> 0.02.*拒绝启动/);
+  assert.equal(fake.openOrders.length, 1);
+});
+
+test("网格配置变更且没有挂单与持仓时重新生成网格", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const first = createEngine(fake, createConfig(), { stateDir });
+  await first.start();
+  await settle(fake);
+  await first.stop();
+  assert.equal(fake.openOrders.length, 0);
+
+  // 间距 2%: 0:100 1:102 2:104.04 3:106.12
+  const changed = { ...LONG_GRID, gridSpread: 0.02 };
+  const second = createEngine(fake, createConfig({}, [changed]), { stateDir });
+  await second.start();
+  await settle(fake);
+
+  assert.deepEqual(openPrices(fake, "open"), [102]);
+  assert.ok(fs.readdirSync(stateDir).some(f => f.endsWith(".bak")));
+});
+
+test("NEUTRAL 网格以启动价为基准线，下方开多、上方开空，不建立底仓", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const neutral = { ...LONG_GRID, direction: GridDirection.NEUTRAL };
+  const engine = createEngine(
+    fake,
+    createConfig({ auto_initial_position: true }, [neutral])
+  );
+
+  await engine.start();
+  await settle(fake);
+
+  // 基准线在刻度 4 (104.06)：下方 103.03 开多，上方 105.1 开空
+  assert.equal(marketOrders(fake).length, 0);
+  assert.equal(fake.findOrder(103.03, "open").info.positionSide, "long");
+  assert.equal(fake.findOrder(105.1, "open").info.positionSide, "short");
+
+  // 103.03 开多成交后，平多单挂在上方一格 (基准线刻度 104.06)
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+
+  assert.equal(fake.findOrder(104.06, "close").info.positionSide, "long");
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+});
+
+test("价格突破上限时追踪网格上移并按新刻度挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 109.5 });
+  const trailing = { ...LONG_GRID, upperPrice: 108, trailingUp: true };
+  const engine = createEngine(fake, createConfig({}, [trailing]));
+
+  await engine.start();
+  await settle(fake);
+  // 刻度 0:100 ... 7:107.21 8:108.29，109.5 需要上移 2 格 (新上限 110.17)
+  assert.deepEqual(openPrices(fake, "open"), [108.29]);
+
+  fake.setPrice(SYMBOL, 111);
+  await settle(fake);
+
+  // 再上移 1 格，锚点定位到 110.46，下方一格 109.37 开多
+  assert.deepEqual(openPrices(fake, "open"), [109.37]);
+  assert.equal(marketOrders(fake).length, 0);
+});
+
+test("追踪平移前记录撤销订单的最终成交，按平移后的刻度记账", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 109.5 });
+  const stateDir = createStateDir();
+  const trailing = { ...LONG_GRID, upperPrice: 108, trailingUp: true };
+  const engine = createEngine(fake, createConfig({}, [trailing]), {
+    stateDir,
+  });
+
+  await engine.start();
+  await settle(fake);
+  const order = fake.findOrder(108.29, "open");
+  // 撤单请求到达前成交 0.4 (未推送)
+  fake.onCall = method => {
+    if (method === "cancelOrders") {
+      fake.partialFill(order.id, 0.4, { silent: true });
+    }
+  };
+  fake.setPrice(SYMBOL, 111);
+  await settle(fake);
+  fake.onCall = undefined;
+
+  const saved = JSON.parse(
+    fs.readFileSync(
+      path.join(stateDir, "grid_SOL_USDT_USDT_LONG.json"),
+      "utf8"
+    )
+  );
+  const filled = saved.levels.filter((l: any) => l.filledAmount > 0);
+  assert.deepEqual(
+    filled.map((l: any) => [l.price, l.filledAmount]),
+    [[108.29, 0.4]]
+  );
+  assert.equal(saved.state.positions.long.amount, 0.4);
+});
+
+test("波动率变化时按新间距重建网格，撤销挂单并把持仓迁移到新刻度", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  fake.has.fetchOHLCV = true;
+  const clock = new SimulatedClock(0);
+  const stateDir = createStateDir();
+  const adaptive: GridConfig = {
+    ...LONG_GRID,
+    adaptiveSpread: true,
+    minSpread: 0.005,
+    maxSpread: 0.03,
+    volatilityPeriod: 3,
+    volatilityMultiplier: 1,
+  };
+  const engine = createEngine(fake, createConfig({}, [adaptive]), {
+    clock,
+    stateDir,
+  });
+
+  // 启动时没有 K 线，保持初始间距
+  await engine.start();
+  await settle(fake);
+  const order = fake.findOrder(103.03, "open");
+  fake.partialFill(order.id, 0.4);
+  await settle(fake);
+
+  // ATR / 价格 = 2 / 100，间距 1% -> 2%: 0:100 1:102 2:104.04 3:106.12 ...
+  fake.ohlcv = [0, 1, 2, 3].map(i => [i * 3600000, 100, 101, 99, 100, 0]);
+  clock.advanceTo(3600000);
+  await settle(fake);
+
+  assert.deepEqual(openPrices(fake, "open"), [102]);
+  const saved = JSON.parse(
+    fs.readFileSync(
+      path.join(stateDir, "grid_SOL_USDT_USDT_LONG.json"),
+      "utf8"
+    )
+  );
+  assert.equal(saved.meta.gridSpread, 0.02);
+  // 103.03 开仓的 0.4 迁移到其下方最近的刻度 102
+  assert.equal(saved.levels[1].filledAmount, 0.4);
+  assert.equal(saved.levels[2].filledAmount, 0);
+});
+
+test("自动建仓与挂单按数量计划计算每格数量", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 108.5 });
+  // 等比刻度 ... 7:107.21 8:108.29 9:109.37 10:110.46
+  const scheduled: GridConfig = {
+    ...LONG_GRID,
+    quantityMode: QuantityMode.TABLE,
+    quantityTable: [1, 1, 1, 1, 1, 1, 1, 2, 3, 4],
+  };
+  const engine = createEngine(
+    fake,
+    createConfig({ auto_initial_position: true }, [scheduled])
+  );
+
+  await engine.start();
+  await settle(fake);
+
+  // 109.37、110.46 的平仓单对应开仓刻度 8、9: 3 + 4
+  const market = marketOrders(fake);
+  assert.equal(market.length, 1);
+  assert.equal(market[0].amount, 7);
+  assert.equal(fake.findOrder(107.21, "open").amount, 2);
+});
+
+test("启动时按策略设置保证金模式与多空杠杆，并回读校验", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  fake.has.fetchLeverage = true;
+  const engine = createEngine(
+    fake,
+    createConfig({ margin_mode: "isolated" }, [
+      { ...LONG_GRID, direction: GridDirection.NEUTRAL, leverage: 5 },
+    ])
+  );
+
+  await engine.start();
+  await settle(fake);
+
+  assert.deepEqual(
+    fake.callsOf("setMarginMode").map(c => c.args),
+    [["isolated", SYMBOL]]
+  );
+  assert.deepEqual(fake.leverages[SYMBOL], {
+    marginMode: "isolated",
+    longLeverage: 5,
+    shortLeverage: 5,
+  });
+  assert.equal(fake.callsOf("fetchLeverage").length, 1);
+});
+
+test("同一交易对的策略杠杆冲突或设置未生效时拒绝启动", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const conflicting = createEngine(
+    fake,
+    createConfig({}, [
+      LONG_GRID,
+      { ...LONG_GRID, id: "sol-long-2x", leverage: 20 },
+    ])
+  );
+  await assert.rejects(conflicting.start(), /long 杠杆配置冲突/);
+  assert.equal(fake.callsOf("setLeverage").length, 0);
+
+  // 交易所未应用设置 (例如有持仓时不允许修改杠杆)
+  fake.has.fetchLeverage = true;
+  fake.setLeverage = async () => ({});
+  const ignored = createEngine(fake, createConfig());
+  await assert.rejects(ignored.start(), /杠杆设置未生效/);
+  assert.equal(fake.callsOf("createOrders").length, 0);
+});
+
+test("策略覆盖默认配置，按策略 ID 区分订单与网格文件，未启用的策略不运行", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const engine = createEngine(
+    fake,
+    createConfig({ order_window: 1, cancel_all_on_stop: true }, [
+      { ...LONG_GRID, cancelAllOnStop: false },
+      { ...LONG_GRID, id: "wide", name: "宽窗口", orderWindow: 2 },
+      { ...LONG_GRID, id: "off", enable: false },
+    ]),
+    { stateDir }
+  );
+
+  await engine.start();
+  await settle(fake);
+
+  // 默认策略挂 1 单，wide 覆盖为 2 单；两个策略各自的订单带不同的策略标签
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03, 103.03]);
+  const tags = new Set(
+    fake.openOrders.map(o => o.clientOrderId.split("-")[0])
+  );
+  assert.equal(tags.size, 2);
+  assert.deepEqual(
+    fs
+      .readdirSync(stateDir)
+      .filter(f => f.startsWith("grid_"))
+      .sort(),
+    ["grid_SOL_USDT_USDT_LONG.json", "grid_wide.json"]
+  );
+
+  // 停止时只撤销开启 cancelAllOnStop 的策略的挂单
+  await engine.stop();
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+});
+
+test("策略 ID 重复时拒绝启动", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({}, [LONG_GRID, { ...LONG_GRID, quantityPerGrid: 2 }])
+  );
+  await assert.rejects(engine.start(), /策略 ID 重复: SOL\/USDT:USDT_LONG/);
+});
+
+test("热更新：数量与挂单窗口直接生效，刻度变化时重建网格，按 ID 新增与移除策略", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const engine = createEngine(fake, createConfig(), { stateDir });
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+
+  // 刻度不变：保留 103.03 的价格，按新数量与窗口同步挂单
+  await engine.applyConfig(
+    createConfig({ order_window: 2 }, [{ ...LONG_GRID, quantityPerGrid: 2 }])
+  );
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+  assert.ok(fake.openOrders.every(o => o.amount === 2));
+
+  // 间距 1% -> 2%: 0:100 1:102 2:104.04 ...，锚点重新定位到 104.04
+  await engine.applyConfig(
+    createConfig({ order_window: 2 }, [{ ...LONG_GRID, gridSpread: 0.02 }])
+  );
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [100, 102]);
+  const saved = JSON.parse(
+    fs.readFileSync(
+      path.join(stateDir, "grid_SOL_USDT_USDT_LONG.json"),
+      "utf8"
+    )
+  );
+  assert.equal(saved.meta.gridSpread, 0.02);
+
+  // 原策略被移除 (撤单)，新 ID 的策略启动
+  await engine.applyConfig(createConfig({}, [{ ...LONG_GRID, id: "next" }]));
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+  assert.ok(fs.existsSync(path.join(stateDir, "grid_next.json")));
+});
+
+test("热更新的新配置校验失败时保持当前配置不变", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(fake, createConfig());
+  await engine.start();
+  await settle(fake);
+  const callCount = fake.calls.length;
+
+  await assert.rejects(
+    engine.applyConfig(
+      createConfig({ order_window: 3 }, [
+        LONG_GRID,
+        { ...LONG_GRID, quantityPerGrid: 2 },
+      ])
+    ),
+    /策略 ID 重复/
+  );
+  await assert.rejects(
+    engine.applyConfig(
+      createConfig({ order_window: 3 }, [{ ...LONG_GRID, symbol: "X/USDT" }])
+    ),
+    /strategies\[0\]\.symbol/
+  );
+  await assert.rejects(
+    engine.applyConfig({ ...createConfig(), mode: "real" }),
+    /mode/
+  );
+  assert.equal(fake.calls.length, callCount);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+});
+
+test("热更新中途失败时保留已生效的修改，之后的热更新与实际状态比较", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({ initial_position_max_value: 100 })
+  );
+  await engine.start();
+  await settle(fake);
+
+  // 杠杆与挂单窗口已生效后，新增策略的建仓超过阈值被拒绝
+  await assert.rejects(
+    engine.applyConfig(
+      createConfig({ order_window: 2, initial_position_max_value: 100 }, [
+        { ...LONG_GRID, leverage: 20 },
+        { ...LONG_GRID, id: "new", leverage: 20, autoInitialPosition: true },
+      ])
+    ),
+    /已拒绝建仓/
+  );
+  await settle(fake);
+  assert.equal(fake.leverages[SYMBOL].longLeverage, 20);
+  assert.deepEqual(
+    engine.getStrategyStatus().map(s => s.id),
+    ["SOL/USDT:USDT_LONG"]
+  );
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+
+  // 恢复原配置：杠杆按交易所实际设置比较后重新设置
+  await engine.applyConfig(createConfig({ initial_position_max_value: 100 }));
+  await settle(fake);
+  assert.equal(fake.leverages[SYMBOL].longLeverage, 10);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+});
+
+test("建仓价值超过自动批准阈值：reject 拒绝启动，approval 等待控制接口审批", async () => {
+  const rejecting = new FakeExchange({ [SYMBOL]: 104.5 });
+  await assert.rejects(
+    createEngine(
+      rejecting,
+      createConfig({
+        auto_initial_position: true,
+        initial_position_max_value: 100,
+      })
+    ).start(),
+    /超过自动批准阈值 100\.00 USDT，已拒绝建仓/
+  );
+  assert.equal(marketOrders(rejecting).length, 0);
+
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({
+      auto_initial_position: true,
+      initial_position_max_value: 100,
+      initial_position_policy: "approval",
+    })
+  );
+  const starting = engine.start();
+  await settle(fake);
+  const [approval] = engine.getApprovals().list();
+  assert.equal(approval.strategyId, "SOL/USDT:USDT_LONG");
+  assert.equal(marketOrders(fake).length, 0);
+
+  engine.getApprovals().resolve(approval.id, true);
+  await starting;
+  // 105.1 ~ 110.46 共 6 格
+  assert.deepEqual(marketOrders(fake).map(o => o.amount), [6]);
+});
+
+test("策略可覆盖建仓阈值与建仓方式", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig(
+      { auto_initial_position: true, initial_position_max_value: 100 },
+      [
+        {
+          ...LONG_GRID,
+          initialPositionMaxValue: 1000,
+          initialPositionEntry: "limit",
+          initialPositionSlices: 2,
+        },
+      ]
+    ),
+    { clock }
+  );
+
+  const starting = engine.start();
+  await settle(fake);
+
+  // 未按 [default] 的阈值拒绝，按策略配置挂出 2 笔阶梯单
+  assert.deepEqual(
+    fake.openOrders
+      .filter(o => parseEntryClientOrderId(o.clientOrderId))
+      .map(o => o.amount),
+    [3, 3]
+  );
+  clock.advanceTo(60000);
+  await starting;
+  assert.equal(marketOrders(fake).length, 0);
+});
+
+test("TWAP 分批建仓，价格不利偏离超过 max_slippage 时停止", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig({
+      auto_initial_position: true,
+      initial_position_entry: "twap",
+      initial_position_slices: 3,
+      initial_position_interval_seconds: 60,
+      initial_position_max_slippage: 0.01,
+    }),
+    { clock }
+  );
+
+  const starting = engine.start();
+  await settle(fake);
+  assert.deepEqual(marketOrders(fake).map(o => o.amount), [2]);
+
+  // 104.5 * 1.01 = 105.545
+  fake.setPrice(SYMBOL, 105);
+  clock.advanceTo(60000);
+  await settle(fake);
+  fake.setPrice(SYMBOL, 106);
+  clock.advanceTo(120000);
+  await starting;
+  assert.deepEqual(marketOrders(fake).map(o => o.amount), [2, 2]);
+});
+
+test("限价阶梯建仓：Post Only 挂单等待后撤销未成交部分", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig({
+      auto_initial_position: true,
+      initial_position_entry: "limit",
+      initial_position_slices: 2,
+      initial_position_interval_seconds: 60,
+      initial_position_max_slippage: 0.01,
+    }),
+    { clock }
+  );
+
+  const starting = engine.start();
+  await settle(fake);
+  // 104.5 * (1 - 0.005) = 103.9775, 104.5 * (1 - 0.01) = 103.455
+  const ladder = fake.openOrders.filter(o =>
+    parseEntryClientOrderId(o.clientOrderId)
+  );
+  assert.deepEqual(
+    ladder.map(o => [o.price, o.amount, o.info.postOnly]),
+    [
+      [103.97, 3, true],
+      [103.45, 3, true],
+    ]
+  );
+  assert.deepEqual(
+    ladder.map(o => parseEntryClientOrderId(o.clientOrderId)),
+    [0, 1].map(sliceIndex => ({
+      strategyTag: getStrategyTag("SOL/USDT:USDT_LONG"),
+      positionSide: "long",
+      sliceIndex,
+      generation: 0,
+    }))
+  );
+
+  fake.fill(ladder[0].id);
+  clock.advanceTo(60000);
+  await starting;
+  assert.deepEqual(
+    fake.callsOf("cancelOrders").map(c => c.args[0]),
+    [[ladder[1].id]]
+  );
+  assert.equal(fake.getPosition(SYMBOL, "long"), 3);
+  assert.equal(marketOrders(fake).length, 0);
+});
+
+test("限价阶梯建仓：撤单过程中的成交按撤单后查询的最终成交量计入", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig({
+      auto_initial_position: true,
+      initial_position_entry: "limit",
+      initial_position_slices: 2,
+      initial_position_interval_seconds: 60,
+      initial_position_max_slippage: 0.01,
+    }),
+    { clock }
+  );
+
+  const starting = engine.start();
+  await settle(fake);
+  const ladder = fake.openOrders.filter(o =>
+    parseEntryClientOrderId(o.clientOrderId)
+  );
+  fake.fill(ladder[0].id);
+  // 撤单请求到达前第二笔成交 1 张
+  fake.onCall = method => {
+    if (method === "cancelOrders") fake.partialFill(ladder[1].id, 1);
+  };
+  clock.advanceTo(60000);
+  await starting;
+  fake.onCall = undefined;
+
+  assert.equal(fake.getPosition(SYMBOL, "long"), 4);
+  const [status] = engine.getStrategyStatus();
+  assert.equal(status.positions.long?.amount, 4);
+  assert.ok(
+    Math.abs(status.positions.long!.cost - (3 * 103.97 + 103.45)) < 1e-9
+  );
+});
+
+test("重启时撤销上次建仓中断遗留的阶梯挂单，保留手动单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const leftover = fake.addOpenOrder({
+    ...MANUAL_ORDER,
+    price: 103.97,
+    params: {
+      ...MANUAL_ORDER.params,
+      clientOrderId: buildEntryClientOrderId({
+        strategyTag: getStrategyTag("SOL/USDT:USDT_LONG"),
+        positionSide: "long",
+        sliceIndex: 0,
+        generation: 0,
+      }),
+    },
+  });
+  const manual = fake.addOpenOrder(MANUAL_ORDER);
+
+  const engine = createEngine(fake, createConfig());
+  await engine.start();
+  await settle(fake);
+
+  assert.deepEqual(fake.callsOf("cancelOrders")[0].args[0], [leftover.id]);
+  assert.ok(fake.openOrders.includes(manual));
+  assert.deepEqual(openPrices(fake, "open"), [90, 103.03]);
+});
+
+test("价格触及止损价时撤单并按持仓账本市价平仓，停止状态重启后保持", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const config = createConfig({}, [
+    { ...LONG_GRID, stopLossPrice: 101, exitAction: "flatten" },
+  ]);
+  const engine = createEngine(fake, config, { stateDir });
+
+  await engine.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+
+  fake.setPrice(SYMBOL, 100.5);
+  await settle(fake);
+
+  assert.deepEqual(
+    marketOrders(fake).map(o => [o.side, o.amount, o.params.tradeSide]),
+    [["sell", 1, "close"]]
+  );
+  assert.ok(fake.openOrders.every(o => o.type === "market"));
+  const { state } = JSON.parse(
+    fs.readFileSync(path.join(stateDir, "grid_SOL_USDT_USDT_LONG.json"), "utf8")
+  );
+  assert.equal(state.halted.action, "flatten");
+  assert.deepEqual(state.positions, {});
+  assert.equal(state.realizedPnl, 1 * (100.5 - 103.03));
+  await engine.stop();
+
+  // 重启后不再挂单
+  const restarted = new FakeExchange({ [SYMBOL]: 104.5 });
+  const second = createEngine(restarted, config, { stateDir });
+  await second.start();
+  await settle(restarted);
+  assert.equal(restarted.callsOf("createOrders").length, 0);
+  assert.equal(second.getStrategyStatus()[0].halted?.action, "flatten");
+});
+
+test("价格离开区间时按 rangeExit 暂停并保留持仓，恢复后重新挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({}, [{ ...LONG_GRID, rangeExit: "pause" }])
+  );
+
+  await engine.start();
+  await settle(fake);
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+
+  fake.setPrice(SYMBOL, 99);
+  await settle(fake);
+  assert.deepEqual(fake.openOrders, []);
+  assert.equal(marketOrders(fake).length, 0);
+  const [status] = engine.getStrategyStatus();
+  assert.equal(status.halted?.action, "pause");
+  assert.deepEqual(status.positions, { long: { amount: 1, cost: 103.03 } });
+  assert.equal(await engine.resumeStrategy("missing"), false);
+
+  fake.setPrice(SYMBOL, 101.5);
+  assert.equal(await engine.resumeStrategy(status.id), true);
+  await settle(fake);
+  assert.equal(engine.getStrategyStatus()[0].halted, null);
+  assert.deepEqual(openPrices(fake, "open"), [100]);
+  assert.ok(openPrices(fake, "close").length > 0);
+  await engine.stop();
+});
+
+test("账户回撤触发风控：撤销所有策略挂单并闪电平仓，重置前不再挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const stateDir = createStateDir();
+  const config = createConfig();
+  config.risk = {
+    enable: true,
+    check_interval_seconds: 10,
+    max_drawdown_percent: 20,
+    flatten: true,
+  };
+  const engine = createEngine(fake, config, { clock, stateDir });
+
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+
+  fake.equity = 7900;
+  clock.advanceTo(10000);
+  await settle(fake);
+  assert.deepEqual(fake.openOrders, []);
+  assert.deepEqual(
+    fake.callsOf("flashClosePositions").map(c => c.args),
+    [[SYMBOL]]
+  );
+
+  // 价格变化不再触发挂单，单个策略不能绕过风控恢复
+  const callCount = fake.callsOf("createOrders").length;
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  assert.equal(fake.callsOf("createOrders").length, callCount);
+  assert.equal(await engine.resumeStrategy("SOL/USDT:USDT_LONG"), false);
+  await engine.stop();
+
+  // 重启后保持触发状态，重置后恢复挂单
+  const restarted = new FakeExchange({ [SYMBOL]: 104.5 });
+  restarted.equity = 7900;
+  const second = createEngine(restarted, config, { clock, stateDir });
+  await second.start();
+  await settle(restarted);
+  assert.equal(restarted.callsOf("createOrders").length, 0);
+  assert.match(second.getRiskStatus()!.tripped!.reason, /回撤 21\.00%/);
+
+  assert.equal(await second.resetRiskGuard(), true);
+  await settle(restarted);
+  assert.deepEqual(openPrices(restarted, "open"), [103.03]);
+  assert.equal(second.getRiskStatus()!.tripped, null);
+  await second.stop();
+});
+
+test("持仓接近强平时缩小开仓挂单窗口并追加保证金，风险解除后恢复", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig(
+      {
+        order_window: 2,
+        position_check_interval_seconds: 10,
+        liquidation_guard_distance: 0.1,
+        liquidation_guard_open_window: 1,
+      },
+      [{ ...LONG_GRID, liquidationGuardAddMargin: 50 }]
+    ),
+    { clock }
+  );
+
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+
+  // 标记价 104.5 距强平价 95 约 9.1%
+  fake.setPosition(SYMBOL, "long", 2);
+  fake.liquidationPrices[`${SYMBOL}:long`] = 95;
+  clock.advanceTo(10000);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+  assert.deepEqual(
+    fake.callsOf("addMargin").map(c => c.args.slice(0, 2)),
+    [[SYMBOL, 50]]
+  );
+  assert.deepEqual(engine.getStrategyStatus()[0].liquidationGuard, ["long"]);
+
+  // 距离 11% 仍在解除余量内，保持保护且不重复追加保证金
+  fake.liquidationPrices[`${SYMBOL}:long`] = 93;
+  clock.advanceTo(20000);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+  assert.equal(fake.callsOf("addMargin").length, 1);
+
+  fake.liquidationPrices[`${SYMBOL}:long`] = 80;
+  clock.advanceTo(30000);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+  assert.deepEqual(engine.getStrategyStatus()[0].liquidationGuard, []);
+});
+
+test("持仓数量达到 maxPosition 后暂停开仓挂单，平仓单照常挂出", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({ order_window: 3 }, [{ ...LONG_GRID, maxPosition: 2 }])
+  );
+  // 账户中已有不由本策略记账的持仓，平仓单可以挂出
+  fake.setPosition(SYMBOL, "long", 10);
+
+  await engine.start();
+  await settle(fake);
+  // 持仓 0，离锚点最近的两格开仓单合计达到上限
+  assert.deepEqual(openPrices(fake, "open"), [102.01, 103.03]);
+  assert.equal(
+    engine.getStrategyStatus()[0].inventoryCap?.name,
+    "maxPosition"
+  );
+
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+  assert.deepEqual(openPrices(fake, "close"), [104.06, 105.1, 106.15]);
+
+  fake.setPrice(SYMBOL, 101.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(102.01, "open").id);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), []);
+  assert.deepEqual(openPrices(fake, "close"), [103.03, 104.06, 105.1]);
+  const [status] = engine.getStrategyStatus();
+  assert.deepEqual(status.inventoryCap, {
+    name: "maxPosition",
+    limit: 2,
+    current: 2,
+  });
+  assert.equal(status.exposure?.filledLevels, 2);
+
+  // 平仓成交后恢复开仓
+  fake.setPrice(SYMBOL, 103.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "close").id);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+  assert.equal(engine.getStrategyStatus()[0].exposure?.contracts, 1);
+});
+
+test("maxFilledLevels 只计入没有持仓的刻度，已有持仓的刻度可重新挂出开仓单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({}, [{ ...LONG_GRID, maxFilledLevels: 1 }])
+  );
+
+  await engine.start();
+  await settle(fake);
+  const order = fake.findOrder(103.03, "open");
+  fake.partialFill(order.id, 0.4);
+  await settle(fake);
+  fake.cancelByExchange(order.id);
+  await settle(fake);
+
+  // 103.03 已有持仓，重新挂出不增加持仓刻度数
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+  const [status] = engine.getStrategyStatus();
+  assert.equal(status.exposure?.filledLevels, 1);
+  assert.equal(status.inventoryCap, null);
+});
+
+test("所有策略持仓价值达到 max_total_notional 后暂停全部开仓挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({ max_total_notional: 150 }, [
+      { ...LONG_GRID, id: "a" },
+      { ...LONG_GRID, id: "b" },
+    ])
+  );
+
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03, 103.03]);
+
+  fake.setPrice(SYMBOL, 102.2);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+
+  assert.deepEqual(openPrices(fake, "open"), []);
+  assert.deepEqual(
+    engine.getStrategyStatus().map(s => s.inventoryCap?.name),
+    ["max_total_notional", "max_total_notional"]
+  );
+});
+
+test("资金费率不利时缩小或暂停开仓挂单，结算后记录资金费用", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(
+    fake,
+    createConfig(
+      {
+        order_window: 2,
+        funding_check_interval_seconds: 300,
+        funding_shrink_rate: 0.001,
+        funding_shrink_window: 1,
+        funding_pause_rate: 0.003,
+      },
+      [LONG_GRID]
+    ),
+    { clock }
+  );
+  fake.has.fetchFundingRate = true;
+  // 本期费率正常，但预测费率对多头不利
+  fake.fundingRates[SYMBOL] = {
+    fundingRate: 0.0005,
+    nextFundingRate: 0.002,
+    fundingTimestamp: 300000,
+    markPrice: 104.5,
+  };
+  fake.setPosition(SYMBOL, "long", 10);
+
+  await engine.start();
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [103.03]);
+
+  fake.setPrice(SYMBOL, 102.5);
+  await settle(fake);
+  fake.fill(fake.findOrder(103.03, "open").id);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [102.01]);
+
+  // 上一期结算后按结算费率记录资金费用，新一期费率达到暂停阈值
+  fake.fundingRates[SYMBOL] = {
+    fundingRate: 0.004,
+    fundingTimestamp: 600000,
+    markPrice: 100,
+  };
+  clock.advanceTo(300000);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), []);
+  const [status] = engine.getStrategyStatus();
+  assert.equal(status.fundingPnl, -0.05);
+  assert.deepEqual(status.fundingWindow, { long: 0 });
+
+  fake.fundingRates[SYMBOL] = {
+    fundingRate: -0.0001,
+    fundingTimestamp: 900000,
+    markPrice: 100,
+  };
+  clock.advanceTo(600000);
+  await settle(fake);
+  assert.deepEqual(openPrices(fake, "open"), [101, 102.01]);
+  assert.equal(engine.getStrategyStatus()[0].fundingPnl, -0.45);
+});
+
+test("策略可覆盖资金费率阈值", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const engine = createEngine(
+    fake,
+    createConfig({ funding_shrink_rate: 0.001, funding_pause_rate: 0.003 }, [
+      LONG_GRID,
+      { ...LONG_GRID, id: "tolerant", fundingShrinkRate: 0.005 },
+      { ...LONG_GRID, id: "strict", fundingPauseRate: 0.0015 },
+    ])
+  );
+  fake.has.fetchFundingRate = true;
+  fake.fundingRates[SYMBOL] = { fundingRate: 0.002, fundingTimestamp: 1000 };
+
+  await engine.start();
+  await settle(fake);
+
+  assert.deepEqual(
+    engine.getStrategyStatus().map(s => [s.id, s.fundingWindow]),
+    [
+      ["SOL/USDT:USDT_LONG", { long: 1 }],
+      ["tolerant", {}],
+      ["strict", { long: 0 }],
+    ]
+  );
+});
+
+test("资金费用流水确认结算后按费率与分方向账本记录，多空策略各自收付且重启后不重复计入", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 104.5 });
+  const stateDir = createStateDir();
+  const config = createConfig({ funding_check_interval_seconds: 300 }, [
+    LONG_GRID,
+    { ...LONG_GRID, direction: GridDirection.SHORT },
+  ]);
+  fake.has.fetchFundingRate = true;
+  fake.has.fetchFundingHistory = true;
+  fake.fundingRates[SYMBOL] = {
+    fundingRate: 0.0001,
+    fundingTimestamp: 1000,
+    markPrice: 100,
+  };
+  // 首次记录之前的流水不追溯
+  fake.fundingHistory.push({ symbol: SYMBOL, timestamp: -1, amount: -9 });
+
+  const clock = new SimulatedClock(0);
+  const engine = createEngine(fake, config, { clock, stateDir });
+  await engine.start();
+  await settle(fake);
+  // 多空各成交 1 张，账户净持仓为 0
+  for (const positionSide of ["long", "short"]) {
+    const order = fake.openOrders.find(
+      o =>
+        o.info.positionSide === positionSide && o.info.tradeSide === "open"
+    );
+    fake.fill(order.id);
+    await settle(fake);
+  }
+
+  // 结算入账时间晚于费率的结算时间；多空流水相互抵消
+  fake.fundingHistory.push({ symbol: SYMBOL, timestamp: 1500, amount: 0 });
+  fake.fundingRates[SYMBOL] = {
+    fundingRate: 0.0003,
+    fundingTimestamp: 28801000,
+    markPrice: 100,
+  };
+  clock.advanceTo(300000);
+  await settle(fake);
+  assert.deepEqual(
+    engine.getStrategyStatus().map(s => [s.direction, s.fundingPnl]),
+    [
+      [GridDirection.LONG, -0.01],
+      [GridDirection.SHORT, 0.01],
+    ]
+  );
+
+  const restarted = createEngine(fake, config, {
+    clock: new SimulatedClock(300000),
+    stateDir,
+  });
+  await restarted.start();
+  await settle(fake);
+  assert.deepEqual(
+    restarted.getStrategyStatus().map(s => s.fundingPnl),
+    [-0.01, 0.01]
+  );
+  const queries = fake.callsOf("fetchFundingHistory");
+  assert.deepEqual(queries[queries.length - 1].args, [SYMBOL, 1501]);
+});
@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import toml from "@iarna/toml";
+import {
+  ConfigValidationError,
+  validateConfig,
+  validateSymbols,
+} from "../src/config/configValidator";
+
+const SYMBOL = "SOL/USDT:USDT";
+
+function createRaw(strategies: Record<string, any>[]): Record<string, any> {
+  return {
+    mode: "paper",
+    default: {
+      leverage: 10,
+      order_window: 1,
+      follow_market_on_fill: true,
+      cancel_all_on_stop: true,
+      close_all_on_stop: false,
+    },
+    strategies,
+  };
+}
+
+const LONG = {
+  symbol: SYMBOL,
+  direction: "LONG",
+  lowerPrice: 100,
+  upperPrice: 150,
+  gridSpread: 0.01,
+  quantityPerGrid: 1,
+};
+
+test("示例配置文件通过校验", () => {
+  const raw = toml.parse(fs.readFileSync("config.toml", "utf-8"));
+  assert.deepEqual(validateConfig(raw), []);
+});
+
+test("一次报告所有问题及其字段位置", () => {
+  const raw = createRaw([
+    { ...LONG, gridSpread: undefined, gridspread: 0.01 },
+    { ...LONG, direction: "UP", lowerPrice: 160 },
+    { ...LONG, quantityPerGrid: "1" },
+    { ...LONG, quantityMode: "table" },
+    { ...LONG, stopLossPrice: 160, exitAction: "close" },
+    { ...LONG, id: "funding", fundingShrinkRate: 0.0015 },
+    { ...LONG, id: "approval", initialPositionPolicy: "approval" },
+  ]);
+  raw.default.order_window = 1.5;
+  raw.default.initial_position_policy = "approval";
+  raw.default.funding_shrink_rate = 0.002;
+  raw.default.funding_pause_rate = 0.001;
+  raw.risk = { enable: true };
+
+  const issues = validateConfig(raw);
+  const byPath = Object.fromEntries(issues.map(i => [i.path, i.message]));
+  assert.match(byPath["default.order_window"], /应为整数/);
+  assert.match(
+    byPath["default.initial_position_policy"],
+    /需要启用 \[control\]/
+  );
+  assert.match(byPath["default.funding_pause_rate"], /不能小于/);
+  assert.match(byPath["strategies[5].fundingPauseRate"], /含 \[default\]/);
+  assert.match(
+    byPath["strategies[6].initialPositionPolicy"],
+    /需要启用 \[control\]/
+  );
+  assert.match(byPath["risk"], /至少一项/);
+  assert.match(byPath["risk.enable"], /启用/);
+  assert.match(byPath["strategies[0].gridspread"], /是否应为 gridSpread/);
+  assert.match(byPath["strategies[0].gridSpread"], /等比网格需要配置/);
+  assert.match(byPath["strategies[1].direction"], /无效的取值 "UP"/);
+  assert.match(byPath["strategies[1].lowerPrice"], /必须小于 upperPrice/);
+  assert.match(byPath["strategies[2].quantityPerGrid"], /应为数值/);
+  assert.match(byPath["strategies[3].quantityTable"], /table 数量模式/);
+  assert.match(byPath["strategies[4].stopLossPrice"], /必须小于 upperPrice/);
+  assert.match(byPath["strategies[4].exitAction"], /无效的取值 "close"/);
+  // 策略 0、2、3、4 的 ID 相同 (策略 1 的方向无效，不参与 ID 比较)
+  assert.match(byPath["strategies[2].symbol"], /与 strategies\[0\] 重复/);
+
+  const error = new ConfigValidationError("/etc/grid/config.toml", issues);
+  assert.equal(error.issues.length, issues.length);
+  assert.match(
+    error.message,
+    /\/etc\/grid\/config\.toml \[strategies\[1\]\.direction\]/
+  );
+});
+
+test("缺少 [default] 与实盘交易所配置时报错，未启用的策略不参与重复检查", () => {
+  const raw = createRaw([LONG, { ...LONG, enable: false }]);
+  raw.mode = "real";
+  delete raw.default;
+
+  assert.deepEqual(validateConfig(raw).map(i => i.path), [
+    "default",
+    "exchanges",
+  ]);
+});
+
+test("交易对必须存在于交易所已加载的市场中", () => {
+  const issues = validateSymbols(
+    [
+      LONG,
+      { ...LONG, symbol: "SOLUSDT" },
+      { ...LONG, symbol: "X", enable: false },
+    ],
+    { [SYMBOL]: {} }
+  );
+  assert.deepEqual(issues.map(i => i.path), ["strategies[1].symbol"]);
+});
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApprovalQueue } from "../src/control/approvalQueue";
+import { ControlServer } from "../src/control/controlServer";
+import { Logger } from "../src/utils/logger";
+
+const logger = new Logger({ console: false, file: false });
+
+test("通过控制接口查看并批准待审批的建仓", async () => {
+  const approvals = new ApprovalQueue(logger);
+  const target = {
+    getApprovals: () => approvals,
+    getStrategyStatus: () => [],
+    resumeStrategy: async () => false,
+    getRiskStatus: () => null,
+    resetRiskGuard: async () => false,
+  };
+  const server = new ControlServer(
+    target,
+    { enable: true, port: 0 },
+    "secret",
+    logger
+  );
+  await server.start();
+  const base = `http://127.0.0.1:${server.getPort()}`;
+  const headers = { Authorization: "Bearer secret" };
+
+  try {
+    const result = approvals.request("sol-long", "建仓数量 6");
+
+    assert.equal((await fetch(`${base}/approvals`)).status, 401);
+    const listed = await (await fetch(`${base}/approvals`, { headers })).json();
+    assert.deepEqual(
+      listed.approvals.map((a: any) => [a.id, a.strategyId]),
+      [["1", "sol-long"]]
+    );
+
+    const missing = await fetch(`${base}/approvals/9/approve`, {
+      method: "POST",
+      headers,
+    });
+    assert.equal(missing.status, 404);
+
+    const approved = await fetch(`${base}/approvals/1/approve`, {
+      method: "POST",
+      headers,
+    });
+    assert.equal(approved.status, 200);
+    assert.equal(await result, true);
+    assert.deepEqual(approvals.list(), []);
+
+    const resume = await fetch(`${base}/strategies/sol-long/resume`, {
+      method: "POST",
+      headers,
+    });
+    assert.equal(resume.status, 404);
+
+    const risk = await (await fetch(`${base}/risk`, { headers })).json();
+    assert.deepEqual(risk, { risk: null });
+  } finally {
+    await server.stop();
+  }
+});
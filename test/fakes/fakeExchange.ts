@@ -0,0 +1,465 @@
+import { PaperAdapter } from "../../src/exchange/adapters/paperAdapter";
+import { DEFAULT_PAPER_CONFIG } from "../../src/exchange/paper/paperExchange";
+import {
+  ExchangeConnection,
+  LeverageSettings,
+  OrderRequest,
+} from "../../src/types/exchange";
+
+export interface FakeCall {
+  method: string;
+  args: any[];
+}
+
+/**
+ * 可编排的假交易所
+ * - 订单参数与纸面交易所一致 (positionSide / tradeSide / postOnly)，配合 PaperAdapter 使用
+ * - 价格、持仓、成交与失败均由测试显式驱动，不会自动撮合
+ * - 所有调用记录在 calls 中，可配合 waitForIdle 判断引擎是否处理完毕
+ */
+export class FakeExchange {
+  public calls: FakeCall[] = [];
+  public openOrders: any[] = [];
+  public closedOrders: any[] = [];
+  // 成交时间戳，测试按需推进
+  public time: number = 0;
+  public has: Record<string, boolean> = {};
+  // fetchOHLCV 返回的 K 线 (需同时设置 has.fetchOHLCV)
+  public ohlcv: number[][] = [];
+  // 交易对 -> 保证金模式与杠杆 (fetchLeverage 需同时设置 has.fetchLeverage)
+  public leverages: Record<string, LeverageSettings> = {};
+  // fetchBalance 返回的 USDT 权益与 fetchPositions 返回的保证金率
+  public equity: number = 10000;
+  public marginRatio?: number;
+  // 持仓 ({symbol}:{side}) -> 强平价
+  public liquidationPrices: Record<string, number> = {};
+  // 交易对 -> fetchFundingRate 返回的资金费率 (需同时设置 has.fetchFundingRate)
+  public fundingRates: Record<string, any> = {};
+  // fetchFundingHistory 返回的资金费用流水 (需同时设置 has.fetchFundingHistory)
+  public fundingHistory: any[] = [];
+
+  // 每次调用记录后触发 (用于在调用过程中插入成交等事件)
+  public onCall?: (method: string, args: any[]) => void;
+
+  private prices: Record<string, number>;
+  private positions: Record<string, number> = {};
+  private failures: Record<string, Error[]> = {};
+  private tickerWaiters: ((ticker: any) => void)[] = [];
+  private orderWaiters: {
+    resolve: (orders: any[]) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  private nextId: number = 1;
+
+  constructor(prices: Record<string, number>) {
+    this.prices = { ...prices };
+  }
+
+  /**
+   * 返回可注入 BotEngine / OrderExecutor 的交易所连接
+   */
+  public connection(
+    tickSize: number = 0.01,
+    amountStep: number = 0.01
+  ): ExchangeConnection {
+    const adapter = new PaperAdapter(DEFAULT_PAPER_CONFIG, this.prices);
+    return {
+      client: this,
+      adapter,
+      initConnection: async () => {
+        await this.loadMarkets();
+        await adapter.setHedgeMode(this);
+      },
+      getTickSize: () => tickSize,
+      getAmountStep: () => amountStep,
+    };
+  }
+
+  // ---------------- 测试编排 ----------------
+
+  /**
+   * 更新价格并推送给 watchTicker
+   */
+  public setPrice(symbol: string, price: number): void {
+    this.prices[symbol] = price;
+    const waiters = this.tickerWaiters.splice(0);
+    for (const resolve of waiters) {
+      resolve({ symbol, last: price });
+    }
+  }
+
+  public setPosition(symbol: string, side: string, contracts: number): void {
+    this.positions[`${symbol}:${side}`] = contracts;
+  }
+
+  public getPosition(symbol: string, side: string): number {
+    return this.positions[`${symbol}:${side}`] || 0;
+  }
+
+  /**
+   * 让下一次指定方法的调用抛出错误
+   * @param name 错误名称，例如 RequestTimeout (与 CCXT 错误类名一致)
+   */
+  public failNext(method: string, message: string, name?: string): void {
+    const error = new Error(message);
+    if (name) error.name = name;
+    (this.failures[method] = this.failures[method] || []).push(error);
+  }
+
+  /**
+   * 直接在交易所挂一笔订单 (模拟手动单或其它程序的订单)
+   */
+  public addOpenOrder(request: OrderRequest): any {
+    const order = this.toOrder(request);
+    this.openOrders.push(order);
+    return order;
+  }
+
+  /**
+   * 完全成交一笔挂单：更新持仓并通过 watchOrders 推送
+   * @param options.silent 不推送 (模拟 WebSocket 漏推)，只能通过 REST 查询到
+   */
+  public fill(orderId: string, options: { silent?: boolean } = {}): any {
+    const order = this.getOpenOrder(orderId);
+    this.applyFill(order, order.amount - order.filled);
+    return this.finishOrder(order, "closed", options.silent);
+  }
+
+  /**
+   * 部分成交一笔挂单：订单保持 open 状态，推送累计成交量
+   * @param options.silent 不推送 (模拟 WebSocket 漏推)
+   */
+  public partialFill(
+    orderId: string,
+    amount: number,
+    options: { silent?: boolean } = {}
+  ): any {
+    const order = this.getOpenOrder(orderId);
+    this.applyFill(order, amount);
+    if (!options.silent) {
+      this.emitOrders([{ ...order, lastTradeTimestamp: this.time }]);
+    }
+    return order;
+  }
+
+  /**
+   * 模拟交易所侧撤单 (例如用户手动撤销)，推送 canceled 状态
+   */
+  public cancelByExchange(orderId: string): any {
+    return this.finishOrder(this.getOpenOrder(orderId), "canceled");
+  }
+
+  private getOpenOrder(orderId: string): any {
+    const order = this.openOrders.find(o => o.id === orderId);
+    if (!order) throw new Error(`FakeExchange: 订单不存在 ${orderId}`);
+    return order;
+  }
+
+  private applyFill(order: any, amount: number): void {
+    const { positionSide, tradeSide } = order.info;
+    const key = `${order.symbol}:${positionSide}`;
+    this.positions[key] =
+      (this.positions[key] || 0) + (tradeSide === "open" ? amount : -amount);
+    order.filled += amount;
+  }
+
+  private finishOrder(order: any, status: string, silent?: boolean): any {
+    this.openOrders = this.openOrders.filter(o => o !== order);
+    const finished = { ...order, status, lastTradeTimestamp: this.time };
+    this.closedOrders.push(finished);
+    if (!silent) this.emitOrders([{ ...finished }]);
+    return finished;
+  }
+
+  /**
+   * 模拟 WebSocket 断线：所有等待中的 watchOrders 以异常结束
+   */
+  public dropConnection(): void {
+    const waiters = this.orderWaiters.splice(0);
+    for (const waiter of waiters) {
+      waiter.reject(new Error("connection closed (fake)"));
+    }
+  }
+
+  public findOrder(price: number, tradeSide: string): any {
+    return this.openOrders.find(
+      o => o.price === price && o.info.tradeSide === tradeSide
+    );
+  }
+
+  public callsOf(method: string): FakeCall[] {
+    return this.calls.filter(c => c.method === method);
+  }
+
+  private emitOrders(orders: any[]): void {
+    const waiters = this.orderWaiters.splice(0);
+    for (const waiter of waiters) {
+      waiter.resolve(orders);
+    }
+  }
+
+  private record(method: string, args: any[]): void {
+    this.calls.push({ method, args });
+    this.onCall?.(method, args);
+    const error = this.failures[method]?.shift();
+    if (error) throw error;
+  }
+
+  // ---------------- 客户端接口 ----------------
+
+  // 已加载的市场 (有价格的交易对)
+  public get markets(): Record<string, any> {
+    return Object.fromEntries(
+      Object.keys(this.prices).map(symbol => [symbol, { symbol }])
+    );
+  }
+
+  public async loadMarkets(): Promise<any> {
+    this.record("loadMarkets", []);
+    return {};
+  }
+
+  public async setPositionMode(hedged: boolean): Promise<any> {
+    this.record("setPositionMode", [hedged]);
+    return {};
+  }
+
+  public async setLeverage(
+    leverage: number,
+    symbol: string,
+    params: Record<string, any> = {}
+  ): Promise<any> {
+    this.record("setLeverage", [leverage, symbol, params]);
+    const settings = (this.leverages[symbol] = this.leverages[symbol] || {});
+    if (params.holdSide !== "short") settings.longLeverage = leverage;
+    if (params.holdSide !== "long") settings.shortLeverage = leverage;
+    return {};
+  }
+
+  public async setMarginMode(marginMode: any, symbol: string): Promise<any> {
+    this.record("setMarginMode", [marginMode, symbol]);
+    this.leverages[symbol] = { ...this.leverages[symbol], marginMode };
+    return {};
+  }
+
+  public async fetchLeverage(symbol: string): Promise<any> {
+    this.record("fetchLeverage", [symbol]);
+    return { symbol, ...this.leverages[symbol], info: {} };
+  }
+
+  public async addMargin(
+    symbol: string,
+    amount: number,
+    params: Record<string, any> = {}
+  ): Promise<any> {
+    this.record("addMargin", [symbol, amount, params]);
+    return {};
+  }
+
+  public async fetchBalance(): Promise<any> {
+    this.record("fetchBalance", []);
+    return { USDT: { total: this.equity }, total: { USDT: this.equity } };
+  }
+
+  public async fetchTicker(symbol: string): Promise<any> {
+    this.record("fetchTicker", [symbol]);
+    return { symbol, last: this.prices[symbol] };
+  }
+
+  public watchTicker(symbol: string): Promise<any> {
+    this.calls.push({ method: "watchTicker", args: [symbol] });
+    return new Promise(resolve => this.tickerWaiters.push(resolve));
+  }
+
+  public watchOrders(symbol?: string): Promise<any[]> {
+    this.calls.push({ method: "watchOrders", args: [symbol] });
+    return new Promise((resolve, reject) =>
+      this.orderWaiters.push({ resolve, reject })
+    );
+  }
+
+  public async fetchOrder(id: string, symbol?: string): Promise<any> {
+    this.record("fetchOrder", [id, symbol]);
+    const order = [...this.openOrders, ...this.closedOrders].find(
+      o => o.id === id
+    );
+    if (!order) throw new Error(`FakeExchange: 订单不存在 ${id}`);
+    return { ...order };
+  }
+
+  public async fetchClosedOrders(
+    symbol?: string,
+    since?: number
+  ): Promise<any[]> {
+    this.record("fetchClosedOrders", [symbol, since]);
+    return this.closedOrders
+      .filter(
+        o =>
+          (!symbol || o.symbol === symbol) &&
+          (since === undefined || o.lastTradeTimestamp >= since)
+      )
+      .map(o => ({ ...o }));
+  }
+
+  public async fetchFundingRate(symbol: string): Promise<any> {
+    this.record("fetchFundingRate", [symbol]);
+    return { symbol, ...this.fundingRates[symbol] };
+  }
+
+  public async fetchFundingHistory(
+    symbol?: string,
+    since?: number
+  ): Promise<any[]> {
+    this.record("fetchFundingHistory", [symbol, since]);
+    return this.fundingHistory
+      .filter(
+        f =>
+          (!symbol || f.symbol === symbol) &&
+          (since === undefined || f.timestamp >= since)
+      )
+      .map(f => ({ ...f }));
+  }
+
+  public async fetchOHLCV(
+    symbol: string,
+    timeframe?: string,
+    since?: number,
+    limit?: number
+  ): Promise<number[][]> {
+    this.record("fetchOHLCV", [symbol, timeframe, since, limit]);
+    return this.ohlcv.slice(-(limit || this.ohlcv.length));
+  }
+
+  public async fetchOpenOrders(symbol?: string): Promise<any[]> {
+    this.record("fetchOpenOrders", [symbol]);
+    return this.openOrders
+      .filter(o => !symbol || o.symbol === symbol)
+      .map(o => ({ ...o }));
+  }
+
+  public async fetchPositions(symbols?: string[]): Promise<any[]> {
+    this.record("fetchPositions", [symbols]);
+    return Object.entries(this.positions)
+      .map(([key, contracts]) => {
+        const split = key.lastIndexOf(":");
+        const symbol = key.slice(0, split);
+        return {
+          symbol,
+          side: key.slice(split + 1),
+          contracts,
+          markPrice: this.prices[symbol],
+          liquidationPrice: this.liquidationPrices[key],
+          marginRatio: this.marginRatio,
+        };
+      })
+      .filter(p => !symbols || symbols.includes(p.symbol));
+  }
+
+  /**
+   * 批量下单：整批校验，任一平仓单超过可平数量时整批拒绝
+   */
+  public async createOrders(requests: OrderRequest[]): Promise<any[]> {
+    this.record("createOrders", [requests]);
+
+    const pendingClose: Record<string, number> = {};
+    for (const o of this.openOrders) {
+      if (o.info.tradeSide !== "close") continue;
+      const key = `${o.symbol}:${o.info.positionSide}`;
+      pendingClose[key] = (pendingClose[key] || 0) + o.amount;
+    }
+    for (const request of requests) {
+      if (request.params.tradeSide !== "close") continue;
+      const key = `${request.symbol}:${request.params.positionSide}`;
+      pendingClose[key] = (pendingClose[key] || 0) + request.amount;
+      if (pendingClose[key] > (this.positions[key] || 0) + 1e-9) {
+        throw new Error(`No position to close (fake): ${key}`);
+      }
+    }
+
+    for (const request of requests) {
+      const clientOrderId = request.params.clientOrderId;
+      const duplicated = this.openOrders.some(
+        o => o.clientOrderId === clientOrderId
+      );
+      if (clientOrderId && duplicated) {
+        throw new Error(`duplicate clientOrderId (fake): ${clientOrderId}`);
+      }
+    }
+
+    return requests.map(request => {
+      const order = this.toOrder(request);
+      this.openOrders.push(order);
+      return { ...order };
+    });
+  }
+
+  private toOrder(request: OrderRequest): any {
+    return {
+      id: String(this.nextId++),
+      clientOrderId: request.params.clientOrderId,
+      symbol: request.symbol,
+      type: request.type,
+      side: request.side,
+      amount: request.amount,
+      price: request.price,
+      filled: 0,
+      status: "open",
+      info: { ...request.params },
+    };
+  }
+
+  public async createOrder(
+    symbol: string,
+    type: "limit" | "market",
+    side: "buy" | "sell",
+    amount: number,
+    price?: number,
+    params: Record<string, any> = {}
+  ): Promise<any> {
+    const [order] = await this.createOrders([
+      { symbol, type, side, amount, price, params },
+    ]);
+    return order;
+  }
+
+  public async cancelOrders(ids: string[], symbol: string): Promise<any[]> {
+    this.record("cancelOrders", [ids, symbol]);
+    this.cancel(ids);
+    return ids.map(id => ({ id, status: "canceled" }));
+  }
+
+  public async cancelOrder(id: string, symbol: string): Promise<any> {
+    this.record("cancelOrder", [id, symbol]);
+    this.cancel([id]);
+    return { id, status: "canceled" };
+  }
+
+  /**
+   * 撤销的订单移入已关闭订单 (不推送)，之后仍可通过 fetchOrder 查询
+   */
+  private cancel(ids: string[]): void {
+    for (const order of this.openOrders.filter(o => ids.includes(o.id))) {
+      this.openOrders = this.openOrders.filter(o => o !== order);
+      this.closedOrders.push({
+        ...order,
+        status: "canceled",
+        lastTradeTimestamp: this.time,
+      });
+    }
+  }
+
+  public async cancelAllOrders(symbol: string): Promise<any[]> {
+    this.record("cancelAllOrders", [symbol]);
+    const canceled = this.openOrders.filter(o => o.symbol === symbol);
+    this.openOrders = this.openOrders.filter(o => o.symbol !== symbol);
+    return canceled.map(o => ({ ...o, status: "canceled" }));
+  }
+
+  public async flashClosePositions(symbol: string): Promise<any> {
+    this.record("flashClosePositions", [symbol]);
+    for (const key of Object.keys(this.positions)) {
+      if (key.startsWith(`${symbol}:`)) this.positions[key] = 0;
+    }
+    return {};
+  }
+}
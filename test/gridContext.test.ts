@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GridContext } from "../src/logic/gridContext";
+import {
+  GridConfig,
+  GridDirection,
+  GridType,
+  QuantityMode,
+} from "../src/types/grid";
+import { Logger } from "../src/utils/logger";
+
+const ARITHMETIC_GRID: GridConfig = {
+  symbol: "SOL/USDT:USDT",
+  direction: GridDirection.LONG,
+  leverage: 10,
+  lowerPrice: 100,
+  upperPrice: 110,
+  gridType: GridType.ARITHMETIC,
+  gridCount: 10,
+  quantityPerGrid: 1,
+};
+
+function createContext(
+  config: GridConfig,
+  stateDir: string = fs.mkdtempSync(path.join(os.tmpdir(), "grid-ctx-"))
+): GridContext {
+  return new GridContext(
+    config,
+    stateDir,
+    new Logger({ console: false, file: false })
+  );
+}
+
+test("等差网格按格子数均分上下限 (N 格对应 N+1 个刻度)", async () => {
+  const ctx = createContext(ARITHMETIC_GRID);
+  await ctx.initialize(0.01);
+
+  const prices = ctx.getLevels().map(l => l.price);
+  assert.deepEqual(
+    prices,
+    [100, 101, 102, 103, 104, 105, 106, 107, 108, 109, 110]
+  );
+  assert.equal(ctx.getLevelSpacing(5), 1);
+});
+
+test("等差网格按固定价格间距生成刻度", async () => {
+  const ctx = createContext({
+    ...ARITHMETIC_GRID,
+    gridCount: undefined,
+    priceStep: 2.5,
+  });
+  await ctx.initialize(0.01);
+
+  assert.deepEqual(
+    ctx.getLevels().map(l => l.price),
+    [100, 102.5, 105, 107.5, 110]
+  );
+});
+
+test("等差网格缺少间距参数时报错", async () => {
+  const ctx = createContext({ ...ARITHMETIC_GRID, gridCount: undefined });
+  await assert.rejects(ctx.initialize(0.01), /priceStep 或 gridCount/);
+});
+
+test("网格类型记录在网格文件中，变更后需要确认", async () => {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-ctx-"));
+  await createContext(ARITHMETIC_GRID, stateDir).initialize(0.01);
+
+  const ctx = createContext(
+    { ...ARITHMETIC_GRID, gridType: GridType.GEOMETRIC, gridSpread: 0.01 },
+    stateDir
+  );
+  await ctx.initialize(0.01);
+
+  assert.deepEqual(ctx.getConfigChanges(), [
+    "gridSpread: 未设置 -> 0.01",
+    "spreadType: arithmetic -> geometric",
+  ]);
+  // 应用前保留原网格
+  assert.equal(ctx.getLevels().length, 11);
+});
+
+test("追踪网格按整格平移，保留刻度的持仓，重启后沿用平移后的区间", async () => {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-ctx-"));
+  const config = { ...ARITHMETIC_GRID, trailingUp: true, trailingUpLimit: 115 };
+  const ctx = createContext(config, stateDir);
+  await ctx.initialize(0.01);
+  ctx.recordFill("a", 0, "open", "long", 1);
+  ctx.recordFill("b", 5, "open", "long", 1);
+
+  // 110.5 需要上移 1 格，区间越过 115 的平移不执行，未开启下移
+  assert.equal(ctx.getTrailShift(105), 0);
+  assert.equal(ctx.getTrailShift(110.5), 1);
+  assert.equal(ctx.getTrailShift(116), 0);
+  assert.equal(ctx.getTrailShift(99), 0);
+
+  assert.deepEqual(ctx.shiftLevels(1), [{ positionSide: "long", amount: 1 }]);
+  assert.deepEqual(ctx.getRange(), { lowerPrice: 101, upperPrice: 111 });
+  assert.equal(ctx.getLevels()[4].filledAmount, 1);
+  assert.equal(ctx.getLevels()[10].price, 111);
+
+  const restored = createContext(config, stateDir);
+  await restored.initialize(0.01);
+  assert.deepEqual(restored.getConfigChanges(), []);
+  assert.equal(restored.getLevels()[0].price, 101);
+  assert.deepEqual(restored.getNearestLevels(110.5)!.map(l => l.index), [
+    9, 10,
+  ]);
+});
+
+test("数量计划: 固定金额、向边缘线性加仓与逐格指定", async () => {
+  // 刻度 100, 101, ..., 110，中心为刻度 5 (105)
+  const notional = createContext({
+    ...ARITHMETIC_GRID,
+    quantityMode: QuantityMode.NOTIONAL,
+    notionalPerGrid: 50,
+  });
+  await notional.initialize(0.01, 0.01);
+  assert.equal(notional.getLevelQuantity(0), 0.5);
+  // 50 / 107 = 0.4672... 向下取整到数量步长
+  assert.equal(notional.getLevelQuantity(7), 0.46);
+
+  const linear = createContext({
+    ...ARITHMETIC_GRID,
+    quantityMode: QuantityMode.LINEAR,
+    pyramidStep: 0.5,
+  });
+  await linear.initialize(0.01, 0.01);
+  assert.deepEqual(
+    [0, 4, 5, 6, 10].map(i => linear.getLevelQuantity(i)),
+    [3.5, 1.5, 1, 1.5, 3.5]
+  );
+
+  const table = createContext({
+    ...ARITHMETIC_GRID,
+    quantityMode: QuantityMode.TABLE,
+    quantityTable: [3, 2, 1],
+  });
+  await table.initialize(0.01, 0.01);
+  assert.deepEqual(
+    [0, 1, 2, 9].map(i => table.getLevelQuantity(i)),
+    [3, 2, 1, 1]
+  );
+  // 没有成交记录时，平仓数量取对应开仓刻度的计划数量
+  assert.equal(table.getCloseAmount(1, "long"), 3);
+});
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  GRID_STATE_VERSION,
+  GridStateStore,
+  migrateGridState,
+} from "../src/logic/gridStateStore";
+import { Logger } from "../src/utils/logger";
+
+function createStore(files: Record<string, string>): {
+  dir: string;
+  store: GridStateStore;
+} {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-state-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content, "utf8");
+  }
+  const store = new GridStateStore(
+    path.join(dir, "grid_SOL_LONG"),
+    new Logger({ console: false, file: false })
+  );
+  return { dir, store };
+}
+
+test("v1 CSV 与运行状态文件迁移为 JSON，旧文件保留备份", () => {
+  const { dir, store } = createStore({
+    "grid_SOL_LONG.csv": [
+      "# config:110,100,0.01",
+      "index,price,buy_order_id,sell_order_id,filled_amount",
+      "0,100,,,0",
+      "1,101,11,,0.5",
+    ].join("\n"),
+    "grid_SOL_LONG.state.json": JSON.stringify({
+      anchorIndex: 1,
+      closeDisabled: true,
+    }),
+  });
+
+  const data = store.load()!;
+
+  assert.equal(data.version, GRID_STATE_VERSION);
+  assert.equal(data.meta.upperPrice, 110);
+  assert.equal(data.meta.gridSpread, 0.01);
+  assert.equal(data.meta.spreadType, "geometric");
+  assert.equal(data.meta.tickSize, null);
+  assert.deepEqual(data.levels[1], {
+    index: 1,
+    price: 101,
+    buyOrderId: "11",
+    sellOrderId: "",
+    filledAmount: 0.5,
+  });
+  assert.equal(data.state.anchorIndex, 1);
+  assert.equal(data.state.closeDisabled, true);
+  assert.deepEqual(data.state.orderFills, {});
+
+  const files = fs.readdirSync(dir);
+  assert.ok(files.includes("grid_SOL_LONG.json"));
+  assert.ok(!files.includes("grid_SOL_LONG.csv"));
+  assert.ok(files.some(f => f.startsWith("grid_SOL_LONG.csv.")));
+});
+
+test("v0 CSV (无配置行) 迁移后网格参数未知", () => {
+  const { store } = createStore({
+    "grid_SOL_LONG.csv": "0,100,,\n1,101,,",
+  });
+
+  const data = store.load()!;
+
+  assert.equal(data.meta.upperPrice, null);
+  assert.equal(data.meta.lowerPrice, null);
+  assert.equal(data.levels.length, 2);
+  assert.equal(data.levels[0].filledAmount, 0);
+});
+
+test("高于当前版本的网格文件拒绝加载", () => {
+  assert.throws(
+    () => migrateGridState({ version: GRID_STATE_VERSION + 1 }),
+    /高于程序支持的版本/
+  );
+});
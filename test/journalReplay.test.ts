@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PaperAdapter } from "../src/exchange/adapters/paperAdapter";
+import {
+  DEFAULT_PAPER_CONFIG,
+  PaperExchange,
+} from "../src/exchange/paper/paperExchange";
+import { BotEngine } from "../src/logic/botEngine";
+import { readJournal } from "../src/replay/journal";
+import { JournalRecorder } from "../src/replay/journalRecorder";
+import { JournalReplayer } from "../src/replay/journalReplayer";
+import { AppConfig } from "../src/types/config";
+import { GridDirection } from "../src/types/grid";
+import { clock, SimulatedClock, waitForIdle } from "../src/utils/clock";
+import { Logger } from "../src/utils/logger";
+
+const SYMBOL = "SOL/USDT:USDT";
+const START_TIME = 1700000000000;
+const PAPER_CONFIG = { ...DEFAULT_PAPER_CONFIG, feed: "manual" as const };
+
+const CONFIG: AppConfig = {
+  mode: "paper",
+  logger: { level: "info", console: false, file: false, dir: "logs" },
+  paper: PAPER_CONFIG,
+  default: {
+    leverage: 10,
+    order_window: 3,
+    follow_market_on_fill: true,
+    cancel_all_on_stop: true,
+    close_all_on_stop: false,
+    auto_initial_position: false,
+  },
+  exchanges: [],
+  strategies: [
+    {
+      symbol: SYMBOL,
+      direction: GridDirection.LONG,
+      leverage: 10,
+      lowerPrice: 90,
+      upperPrice: 110,
+      gridSpread: 0.01,
+      quantityPerGrid: 1,
+    },
+  ],
+};
+
+/**
+ * 使用纸面交易所运行一次引擎并记录会话，返回日志文件路径
+ */
+async function recordSession(prices: number[]): Promise<string> {
+  const simClock = new SimulatedClock(START_TIME);
+  clock.use(simClock);
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "grid-test-"));
+  const journalDir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-test-"));
+
+  const adapter = new PaperAdapter(PAPER_CONFIG, { [SYMBOL]: 100 });
+  const paper = adapter.createClient() as PaperExchange;
+  const recorder = new JournalRecorder(
+    journalDir,
+    adapter.name,
+    paper.precisionMode,
+    CONFIG,
+    stateDir
+  );
+  let calls = 0;
+  const recorded = recorder.wrap(paper);
+  const client = new Proxy(recorded, {
+    get: (target, prop, receiver) => {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+      return (...args: any[]) => {
+        calls++;
+        return value.apply(target, args);
+      };
+    },
+  });
+  const settle = () => waitForIdle(() => calls);
+
+  const engine = new BotEngine({
+    stateDir,
+    exchange: {
+      client,
+      adapter,
+      // 与 ExchangeManager.initConnection 的调用一致
+      initConnection: async () => {
+        await client.loadMarkets();
+        await adapter.setHedgeMode(client);
+        await client.fetchBalance();
+      },
+      getTickSize: () => DEFAULT_PAPER_CONFIG.tick_size,
+      getAmountStep: () => DEFAULT_PAPER_CONFIG.amount_step,
+    },
+    config: CONFIG,
+    logger: new Logger({ console: false, file: false }),
+    clock: simClock,
+  });
+  await engine.start();
+  await settle();
+  for (let i = 0; i < prices.length; i++) {
+    simClock.advanceTo(START_TIME + (i + 1) * 1000);
+    paper.pushPrice(SYMBOL, prices[i]);
+    await settle();
+  }
+  simClock.advanceTo(START_TIME + (prices.length + 1) * 1000);
+  await engine.stop();
+  await settle();
+  return recorder.getFilePath();
+}
+
+test("记录的会话回放后下单与撤单与记录完全一致", async () => {
+  const journal = await recordSession([99, 98, 99.6, 101.2, 98.4, 100.5]);
+
+  const { header, calls } = readJournal(journal);
+  assert.equal(header.exchange, "paper");
+  const writes = calls.filter(c => /^(create|cancel)Orders?$/.test(c.method));
+  assert.ok(writes.some(c => c.method === "createOrders"));
+  assert.ok(writes.some(c => c.method === "cancelOrders"));
+  assert.ok(calls.some(c => c.method === "watchOrders" && c.result?.length));
+
+  const result = await new JournalReplayer(journal).run();
+
+  assert.equal(result.calls, calls.length);
+  assert.ok(result.streamEvents > 0);
+  assert.deepEqual(result.diffs, []);
+});
+
+test("回放时下单参数与记录不一致报告 mismatch", async () => {
+  const journal = await recordSession([99, 101]);
+  // 篡改记录中第一笔批量下单的价格
+  const lines = fs.readFileSync(journal, "utf8").trim().split("\n");
+  const index = lines.findIndex(l => l.includes('"method":"createOrders"'));
+  const entry = JSON.parse(lines[index]);
+  entry.args[0][0].price += 1;
+  lines[index] = JSON.stringify(entry);
+  fs.writeFileSync(journal, lines.join("\n") + "\n", "utf8");
+
+  const result = await new JournalReplayer(journal).run();
+
+  assert.deepEqual(
+    result.diffs.map(d => [d.kind, d.method]),
+    [["mismatch", "createOrders"]]
+  );
+});
@@ -0,0 +1,242 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PaperAdapter } from "../src/exchange/adapters/paperAdapter";
+import { parseClientOrderId } from "../src/exchange/clientOrderId";
+import { OrderExecutor } from "../src/exchange/orderExecutor";
+import { DEFAULT_PAPER_CONFIG } from "../src/exchange/paper/paperExchange";
+import { GridDirection } from "../src/types/grid";
+import { Logger } from "../src/utils/logger";
+import { FakeExchange } from "./fakes/fakeExchange";
+
+const SYMBOL = "SOL/USDT:USDT";
+const LONG = { symbol: SYMBOL, direction: GridDirection.LONG };
+const SHORT = { symbol: SYMBOL, direction: GridDirection.SHORT };
+
+function createStateDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "executor-test-"));
+}
+
+function createExecutor(
+  fake: FakeExchange,
+  stateDir: string = createStateDir()
+): OrderExecutor {
+  return new OrderExecutor(
+    fake.connection(),
+    new Logger({ console: false, file: false }),
+    stateDir
+  );
+}
+
+test("syncActiveOrders 保留匹配的挂单，只撤销多余挂单并补齐缺失刻度", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+    { levelIndex: 2, price: 98, amount: 1, action: "open" },
+  ]);
+  const kept = fake.findOrder(99, "open");
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+    { levelIndex: 1, price: 97, amount: 1, action: "open" },
+  ]);
+
+  assert.ok(fake.openOrders.some(o => o.id === kept.id));
+  assert.deepEqual(
+    fake.openOrders.map(o => o.price).sort((a, b) => a - b),
+    [97, 99]
+  );
+  assert.equal(fake.callsOf("cancelOrders").length, 1);
+});
+
+test("syncActiveOrders 保留部分成交的挂单，数量变化的挂单重新下单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+  fake.setPosition(SYMBOL, "long", 1);
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+    { levelIndex: 5, price: 101, amount: 1, action: "close" },
+  ]);
+  const partial = fake.findOrder(99, "open");
+  const close = fake.findOrder(101, "close");
+  fake.partialFill(partial.id, 0.3);
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 2, price: 98, amount: 1, action: "open" },
+    { levelIndex: 5, price: 101, amount: 0.5, action: "close" },
+  ]);
+
+  assert.ok(fake.openOrders.some(o => o.id === partial.id));
+  assert.deepEqual(fake.callsOf("cancelOrders")[0].args[0], [close.id]);
+  assert.equal(fake.findOrder(101, "close").amount, 0.5);
+  assert.ok(fake.findOrder(98, "open"));
+});
+
+test("syncActiveOrders 只处理当前策略方向的挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+
+  await executor.syncActiveOrders(SHORT, [
+    { levelIndex: 5, price: 101, amount: 1, action: "open" },
+  ]);
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+  ]);
+
+  assert.equal(fake.callsOf("cancelOrders").length, 0);
+  assert.equal(fake.openOrders.length, 2);
+});
+
+test("syncActiveOrders 平仓无仓位时抛出 NO_POSITION", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+
+  await assert.rejects(
+    executor.syncActiveOrders(LONG, [
+      { levelIndex: 5, price: 101, amount: 1, action: "close" },
+    ]),
+    (error: any) => error.code === "NO_POSITION"
+  );
+});
+
+test("批量下单部分被拒绝时保留已创建的订单，下次同步不重复下单", async () => {
+  const adapter = new PaperAdapter(
+    { ...DEFAULT_PAPER_CONFIG, feed: "manual" },
+    { [SYMBOL]: 100 }
+  );
+  const client = adapter.createClient();
+  await client.loadMarkets();
+  await client.setPositionMode(true);
+  const executor = new OrderExecutor(
+    {
+      client,
+      adapter,
+      initConnection: async () => {},
+      getTickSize: () => 0.01,
+      getAmountStep: () => 0.01,
+    },
+    new Logger({ console: false, file: false }),
+    createStateDir()
+  );
+
+  await assert.rejects(
+    executor.syncActiveOrders(LONG, [
+      { levelIndex: 3, price: 99, amount: 1, action: "open" },
+      { levelIndex: 5, price: 101, amount: 1, action: "close" },
+    ]),
+    (error: any) => error.code === "NO_POSITION"
+  );
+  const [created] = await client.fetchOpenOrders(SYMBOL);
+  assert.equal(created.price, 99);
+
+  const orders = await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+  ]);
+  assert.deepEqual(orders?.map(o => o.id), [created.id]);
+  assert.equal((await client.fetchOpenOrders(SYMBOL)).length, 1);
+});
+
+test("syncActiveOrders 吞掉其它下单错误", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+  fake.failNext("createOrders", "Insufficient margin");
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+  ]);
+
+  assert.equal(fake.openOrders.length, 0);
+});
+
+test("syncActiveOrders 不撤销手动挂单与其它策略的挂单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+  const manual = fake.addOpenOrder({
+    symbol: SYMBOL,
+    type: "limit",
+    side: "buy",
+    amount: 1,
+    price: 95,
+    params: { positionSide: "long", tradeSide: "open" },
+  });
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+  ]);
+
+  assert.equal(fake.callsOf("cancelOrders").length, 0);
+  assert.ok(fake.openOrders.some(o => o.id === manual.id));
+  const gridOrder = fake.findOrder(99, "open");
+  assert.ok(executor.isStrategyOrder(gridOrder, LONG));
+  assert.ok(!executor.isStrategyOrder(manual, LONG));
+});
+
+test("下单超时后使用相同 clientOrderId 重试", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+  fake.failNext("createOrders", "request timed out", "RequestTimeout");
+
+  await executor.syncActiveOrders(LONG, [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" },
+  ]);
+
+  const ids = fake
+    .callsOf("createOrders")
+    .map(c => c.args[0][0].params.clientOrderId);
+  assert.equal(ids.length, 2);
+  assert.equal(ids[0], ids[1]);
+  assert.equal(fake.openOrders.length, 1);
+});
+
+test("超时的订单实际已创建时，下次同步识别并保留，不重复下单", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const executor = createExecutor(fake);
+  const targets = [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" as const },
+  ];
+  fake.failNext("createOrders", "request timed out", "RequestTimeout");
+  fake.failNext("createOrders", "request timed out", "RequestTimeout");
+
+  await executor.syncActiveOrders(LONG, targets);
+  // 超时的请求实际已在交易所成功创建
+  fake.addOpenOrder(fake.callsOf("createOrders")[0].args[0][0]);
+
+  await executor.syncActiveOrders(LONG, targets);
+
+  assert.equal(fake.callsOf("createOrders").length, 2);
+  assert.equal(fake.openOrders.length, 1);
+});
+
+test("重启后沿用未确认的 clientOrderId，重新挂单的代次持续递增", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const stateDir = createStateDir();
+  const targets = [
+    { levelIndex: 3, price: 99, amount: 1, action: "open" as const },
+  ];
+  const clientIds = () =>
+    fake.callsOf("createOrders").map(c => c.args[0][0].params.clientOrderId);
+  fake.failNext("createOrders", "request timed out", "RequestTimeout");
+  fake.failNext("createOrders", "request timed out", "RequestTimeout");
+
+  await createExecutor(fake, stateDir).syncActiveOrders(LONG, targets);
+  // 重启后仍使用超时未确认的 ID，由交易所去重
+  const restarted = createExecutor(fake, stateDir);
+  await restarted.syncActiveOrders(LONG, targets);
+  assert.equal(clientIds().length, 3);
+  assert.equal(new Set(clientIds()).size, 1);
+
+  // 撤单后再次重启挂单，不复用历史 ID
+  await restarted.syncActiveOrders(LONG, []);
+  await createExecutor(fake, stateDir).syncActiveOrders(LONG, targets);
+  const ids = clientIds();
+  assert.equal(ids.length, 4);
+  assert.deepEqual(
+    ids.map(id => parseClientOrderId(id)?.generation),
+    [0, 0, 0, 1]
+  );
+});
@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_PAPER_CONFIG,
+  PaperExchange,
+} from "../src/exchange/paper/paperExchange";
+
+const SYMBOL = "SOL/USDT:USDT";
+
+async function createPaper(price: number = 100): Promise<PaperExchange> {
+  const paper = new PaperExchange(
+    { ...DEFAULT_PAPER_CONFIG, feed: "manual" },
+    { [SYMBOL]: price }
+  );
+  await paper.loadMarkets();
+  await paper.setPositionMode(true);
+  await paper.setLeverage(10, SYMBOL);
+  return paper;
+}
+
+function order(
+  side: "buy" | "sell",
+  positionSide: "long" | "short",
+  tradeSide: "open" | "close",
+  amount: number,
+  price?: number,
+  postOnly: boolean = true
+) {
+  return {
+    symbol: SYMBOL,
+    type: price === undefined ? ("market" as const) : ("limit" as const),
+    side,
+    amount,
+    price,
+    params: { positionSide, tradeSide, postOnly },
+  };
+}
+
+async function place(
+  paper: PaperExchange,
+  request: ReturnType<typeof order>
+): Promise<any> {
+  const { symbol, type, side, amount, price, params } = request;
+  return paper.createOrder(symbol, type, side, amount, price, params);
+}
+
+test("Post Only 限价单穿价时拒绝，普通限价单穿价按最新价吃单成交", async () => {
+  const paper = await createPaper();
+
+  await assert.rejects(
+    place(paper, order("buy", "long", "open", 1, 100.5)),
+    /Post only/
+  );
+
+  const taker = await place(
+    paper,
+    order("buy", "long", "open", 1, 100.5, false)
+  );
+  assert.equal(taker.status, "closed");
+  assert.equal(taker.average, 100);
+  assert.equal(taker.fee.rate, DEFAULT_PAPER_CONFIG.taker_fee);
+
+  // 挂单在价格触及时按挂单价以 maker 费率成交
+  const maker = await place(paper, order("buy", "long", "open", 1, 99));
+  assert.equal(maker.status, "open");
+  paper.pushPrice(SYMBOL, 99.5);
+  assert.equal((await paper.fetchOrder(maker.id)).status, "open");
+  paper.pushPrice(SYMBOL, 98.9);
+  const filled = await paper.fetchOrder(maker.id);
+  assert.equal(filled.status, "closed");
+  assert.equal(filled.average, 99);
+  assert.equal(filled.fee.rate, DEFAULT_PAPER_CONFIG.maker_fee);
+});
+
+test("createOrders 逐笔返回结果，被拒绝的订单不影响其它订单", async () => {
+  const paper = await createPaper();
+
+  const results = await paper.createOrders([
+    order("buy", "long", "open", 1, 99),
+    order("sell", "long", "close", 1, 101),
+  ]);
+
+  assert.equal(results[0].status, "open");
+  assert.equal(results[1].status, "rejected");
+  assert.equal(results[1].id, undefined);
+  assert.match(results[1].info.errorMsg, /No position/);
+  assert.deepEqual(
+    (await paper.fetchOpenOrders(SYMBOL)).map(o => o.id),
+    [results[0].id]
+  );
+});
+
+test("双向持仓分别记账，平仓盈亏与手续费计入余额", async () => {
+  const paper = await createPaper();
+
+  await place(paper, order("buy", "long", "open", 2));
+  await place(paper, order("sell", "short", "open", 1));
+  const close = await place(paper, order("sell", "long", "close", 1, 105));
+  // 多头 2 张中已有 1 张挂出平仓单，剩余可平数量不足
+  await assert.rejects(
+    place(paper, order("sell", "long", "close", 1.5, 106)),
+    /No position/
+  );
+  paper.pushPrice(SYMBOL, 105);
+  assert.equal((await paper.fetchOrder(close.id)).status, "closed");
+
+  const positions = await paper.fetchPositions([SYMBOL]);
+  const long = positions.find(p => p.side === "long");
+  const short = positions.find(p => p.side === "short");
+  assert.equal(long.contracts, 1);
+  assert.equal(long.entryPrice, 100);
+  assert.equal(long.realizedPnl, 5);
+  assert.equal(short.contracts, 1);
+  assert.equal(short.unrealizedPnl, -5);
+  assert.ok(short.liquidationPrice > 100);
+
+  // 开仓 taker 3 张 @100，平仓 maker 1 张 @105
+  const fees = 3 * 100 * 0.0006 + 105 * 0.0002;
+  const balance = await paper.fetchBalance();
+  assert.ok(Math.abs(balance.USDT.total - (10000 + 5 - fees)) < 1e-9);
+  const trades = await paper.fetchMyTrades(SYMBOL);
+  assert.deepEqual(
+    trades.map(t => t.takerOrMaker),
+    ["taker", "taker", "maker"]
+  );
+});
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RiskGuard } from "../src/logic/riskGuard";
+import { RiskConfig } from "../src/types/config";
+import { SimulatedClock } from "../src/utils/clock";
+import { Logger } from "../src/utils/logger";
+import { FakeExchange } from "./fakes/fakeExchange";
+
+const SYMBOL = "SOL/USDT:USDT";
+const DAY = 24 * 3600 * 1000;
+
+function createGuard(
+  fake: FakeExchange,
+  config: Omit<RiskConfig, "enable">,
+  clock: SimulatedClock,
+  stateDir: string = fs.mkdtempSync(path.join(os.tmpdir(), "risk-test-"))
+): RiskGuard {
+  return new RiskGuard(
+    fake.connection(),
+    { enable: true, ...config },
+    new Logger({ console: false, file: false }),
+    clock,
+    stateDir
+  );
+}
+
+test("回撤按权益峰值计算，触发后保持到重置并持久化", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const clock = new SimulatedClock(0);
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "risk-test-"));
+  const config = { max_drawdown_percent: 20 };
+  const guard = createGuard(fake, config, clock, stateDir);
+
+  assert.equal(await guard.check([SYMBOL]), null);
+  fake.equity = 12000;
+  assert.equal(await guard.check([SYMBOL]), null);
+  // 相对峰值 12000 回撤 16.7%
+  fake.equity = 10000;
+  assert.equal(await guard.check([SYMBOL]), null);
+  fake.equity = 9600;
+  assert.match((await guard.check([SYMBOL]))!, /回撤 20\.00%/);
+
+  // 已触发后不再检查，重启后仍为触发状态
+  fake.equity = 12000;
+  assert.equal(await guard.check([SYMBOL]), null);
+  const restored = createGuard(fake, config, clock, stateDir);
+  assert.ok(restored.isTripped());
+  assert.equal(restored.getState().peakEquity, 12000);
+
+  // 重置后从当前权益重新记录峰值
+  restored.reset();
+  fake.equity = 9600;
+  assert.equal(await restored.check([SYMBOL]), null);
+  assert.equal(restored.getState().peakEquity, 9600);
+});
+
+test("当日亏损相对当日首次记录的权益计算，保证金率取持仓中的最高值", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const clock = new SimulatedClock(0);
+  const guard = createGuard(
+    fake,
+    { max_daily_loss: 500, max_margin_ratio: 0.8 },
+    clock
+  );
+
+  assert.equal(await guard.check([SYMBOL]), null);
+  fake.equity = 9600;
+  assert.equal(await guard.check([SYMBOL]), null);
+
+  // 次日以当日首次记录的 9200 为起点 (相对前一日起点已亏损 800)
+  clock.advanceTo(DAY);
+  fake.equity = 9200;
+  assert.equal(await guard.check([SYMBOL]), null);
+  fake.equity = 8700;
+  assert.match((await guard.check([SYMBOL]))!, /当日亏损 500\.00 USDT/);
+
+  guard.reset();
+  fake.setPosition(SYMBOL, "long", 1);
+  fake.marginRatio = 0.85;
+  assert.match((await guard.check([SYMBOL]))!, /保证金率 0\.85/);
+});
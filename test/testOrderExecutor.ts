@@ -28,6 +28,7 @@ async function runTest() {
 
     const executor = new OrderExecutor();
     const symbol = "BTC/USDT:USDT"; // 使用标准 CCXT 符号
+    const strategy = { symbol, direction: GridDirection.LONG };
 
     // 获取当前价格作为参考
     const ticker = await exchange.client.fetchTicker(symbol);
@@ -84,13 +85,13 @@ async function runTest() {
     ];
 
     logger.info("执行第一次同步 (预期挂出 1 笔多单)...");
-    await executor.syncActiveOrders(symbol, GridDirection.LONG, targetLevels);
+    await executor.syncActiveOrders(strategy, targetLevels);
 
     const targetLevels2 = [
       { price: longOpenPrice - 100, amount: 0.01, action: "open" as const },
     ];
     logger.info("执行第二次同步 (预期撤销旧单，挂出新单)...");
-    await executor.syncActiveOrders(symbol, GridDirection.LONG, targetLevels2);
+    await executor.syncActiveOrders(strategy, targetLevels2);
 
     // 最后清理
     logger.info("--- 测试结束: 清理所有订单 ---");
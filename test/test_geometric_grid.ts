@@ -20,7 +20,7 @@ async function testGeometricGrid() {
   const csvPath = path.join(
     process.cwd(),
     "temp",
-    `grid_${safeSymbol}_${config.direction}.csv`
+    `grid_${safeSymbol}_${config.direction}.json`
   );
   if (fs.existsSync(csvPath)) {
     fs.unlinkSync(csvPath);
@@ -65,7 +65,7 @@ async function testGeometricGrid() {
     const prev = levels[i - 1].price;
     const curr = levels[i].price;
     const ratio = (curr - prev) / prev;
-    const expectedRatio = config.gridSpread;
+    const expectedRatio = config.gridSpread!;
 
     // Allow larger error due to rounding (approx tickSize / price)
     // For 100 price and 0.01 tick, error is roughly 0.0001
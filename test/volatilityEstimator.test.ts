@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateAtrRatio,
+  timeframeToMs,
+  VolatilityEstimator,
+} from "../src/logic/volatilityEstimator";
+import { SimulatedClock } from "../src/utils/clock";
+import { Logger } from "../src/utils/logger";
+import { FakeExchange } from "./fakes/fakeExchange";
+
+const SYMBOL = "SOL/USDT:USDT";
+
+test("ATR 取最高-最低与前收盘跳空中的最大值", () => {
+  const candles = [
+    [0, 100, 101, 99, 100, 0],
+    [1, 100, 102, 100, 101, 0], // TR = 2
+    [2, 105, 106, 105, 106, 0], // 跳空：|106 - 101| = 5
+  ];
+  assert.equal(calculateAtrRatio(candles, 2), 3.5 / 106);
+  assert.equal(calculateAtrRatio(candles, 3), null);
+  assert.equal(timeframeToMs("15m"), 15 * 60 * 1000);
+  assert.throws(() => timeframeToMs("1x"), /不支持的 K 线周期/);
+});
+
+test("交易所不支持 fetchOHLCV 时使用 ticker 价格聚合的 K 线", async () => {
+  const fake = new FakeExchange({ [SYMBOL]: 100 });
+  const clock = new SimulatedClock(0);
+  const estimator = new VolatilityEstimator(
+    fake.connection(),
+    new Logger({ console: false, file: false }),
+    clock
+  );
+
+  // 每小时两个价格: 99 与 101
+  for (let hour = 0; hour < 3; hour++) {
+    clock.advanceTo(hour * 3600000);
+    estimator.recordPrice(SYMBOL, 99);
+    clock.advanceTo(hour * 3600000 + 30 * 60000);
+    estimator.recordPrice(SYMBOL, 101);
+  }
+
+  assert.equal(await estimator.estimate(SYMBOL, "1h", 2), 2 / 101);
+  assert.equal(await estimator.estimate(SYMBOL, "1h", 3), null);
+  assert.equal(fake.callsOf("fetchOHLCV").length, 0);
+});